@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import type { Feature } from '../db/types';
+import { templatesDir, DEFAULT_TEMPLATES } from '../tasks/templates';
 
 /**
  * Manages project context files for AI assistants:
@@ -33,6 +34,7 @@ export class ProjectContext {
         await this.ensureCopilotMd();
         await this.ensureDesignMd();
         await this.ensureClaudeMd();
+        await this.ensureTemplates();
     }
 
     /**
@@ -57,6 +59,21 @@ export class ProjectContext {
         }
     }
 
+    /**
+     * Create .shepherd/templates/ with example task templates if missing.
+     * Once the folder exists it is left alone, so deleted examples stay deleted.
+     */
+    private async ensureTemplates(): Promise<void> {
+        const dir = templatesDir(this.workspaceRoot);
+
+        if (!fs.existsSync(dir)) {
+            await fs.promises.mkdir(dir, { recursive: true });
+            for (const [id, content] of Object.entries(DEFAULT_TEMPLATES)) {
+                await fs.promises.writeFile(path.join(dir, `${id}.md`), content, 'utf-8');
+            }
+        }
+    }
+
     /**
      * Create CLAUDE.md if missing, or prompt to add reference if exists
      */
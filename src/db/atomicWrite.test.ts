@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeFileAtomic, tempPathFor } from './atomicWrite';
+
+// Wrap the real fs so individual calls can be made to fail part way
+vi.mock('fs', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('fs')>();
+    return {
+        ...actual,
+        writeSync: vi.fn(actual.writeSync),
+        renameSync: vi.fn(actual.renameSync),
+    };
+});
+
+const actualFs = await vi.importActual<typeof import('fs')>('fs');
+
+describe('writeFileAtomic', () => {
+    let dir: string;
+    let target: string;
+    const good = Buffer.from('good database contents');
+    const next = Buffer.from('next database contents, somewhat longer than the first');
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-atomic-'));
+        target = path.join(dir, 'cockpit.db');
+        fs.writeFileSync(target, good);
+    });
+
+    afterEach(() => {
+        vi.mocked(fs.writeSync).mockReset().mockImplementation(actualFs.writeSync);
+        vi.mocked(fs.renameSync).mockReset().mockImplementation(actualFs.renameSync);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('replaces the file and leaves no temp file behind', () => {
+        writeFileAtomic(target, next);
+
+        expect(fs.readFileSync(target)).toEqual(next);
+        expect(fs.existsSync(tempPathFor(target))).toBe(false);
+    });
+
+    it('keeps the previous file when a write fails part way', () => {
+        // Write half of the data, then fail as if the disk filled up or the process died
+        vi.mocked(fs.writeSync).mockImplementationOnce(((fd: number, data: Uint8Array) => {
+            actualFs.writeSync(fd, data, 0, Math.floor(data.length / 2));
+            throw new Error('ENOSPC: no space left on device');
+        }) as typeof fs.writeSync);
+
+        expect(() => writeFileAtomic(target, next)).toThrow('ENOSPC');
+        expect(fs.readFileSync(target)).toEqual(good);
+        expect(fs.existsSync(tempPathFor(target))).toBe(false);
+    });
+
+    it('keeps the previous file when the rename fails', () => {
+        vi.mocked(fs.renameSync).mockImplementationOnce(() => {
+            throw new Error('EPERM: operation not permitted');
+        });
+
+        expect(() => writeFileAtomic(target, next)).toThrow('EPERM');
+        expect(fs.readFileSync(target)).toEqual(good);
+        expect(fs.existsSync(tempPathFor(target))).toBe(false);
+    });
+
+    it('handles short writes by continuing from the last offset', () => {
+        // Kernel accepted fewer bytes than asked for
+        vi.mocked(fs.writeSync).mockImplementationOnce(((fd: number, data: Uint8Array, offset: number) =>
+            actualFs.writeSync(fd, data, offset, 5)) as typeof fs.writeSync);
+
+        writeFileAtomic(target, next);
+
+        expect(fs.readFileSync(target)).toEqual(next);
+    });
+});
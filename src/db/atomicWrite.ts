@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+
+/**
+ * Path of the scratch file a write goes to before it is renamed into place
+ */
+export function tempPathFor(filePath: string): string {
+    return `${filePath}.tmp`;
+}
+
+/**
+ * Write a file so that readers only ever see the old or the new contents.
+ * Data goes to a temp file that is fsynced and then renamed over the target;
+ * if anything fails part way, the temp file is removed and the target is untouched.
+ */
+export function writeFileAtomic(filePath: string, data: Uint8Array): void {
+    const tempPath = tempPathFor(filePath);
+    let fd: number | null = null;
+    try {
+        fd = fs.openSync(tempPath, 'w');
+        let offset = 0;
+        while (offset < data.length) {
+            offset += fs.writeSync(fd, data, offset, data.length - offset);
+        }
+        fs.fsyncSync(fd);
+        fs.closeSync(fd);
+        fd = null;
+        fs.renameSync(tempPath, filePath);
+    } catch (error) {
+        if (fd !== null) {
+            try { fs.closeSync(fd); } catch { /* already failing */ }
+        }
+        try { fs.rmSync(tempPath, { force: true }); } catch { /* already failing */ }
+        throw error;
+    }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { backupFileName, parseBackupFileName, backupsToPrune, type BackupFile } from './backups';
+
+const DIR = path.join('/work', '.shepherd', 'backups');
+
+describe('backup file names', () => {
+    it('round-trip the reason and time', () => {
+        const date = new Date('2025-03-12T09:30:15.250Z');
+        const name = backupFileName('proposal', date);
+        expect(name).toBe('cockpit-proposal-2025-03-12T09-30-15-250Z.db');
+        expect(parseBackupFileName(path.join(DIR, name))).toEqual({
+            path: path.join(DIR, name),
+            reason: 'proposal',
+            created_at: '2025-03-12T09:30:15.250Z'
+        });
+    });
+
+    it('reads older migration snapshots and ignores other files', () => {
+        expect(parseBackupFileName(path.join(DIR, 'cockpit-v3-2025-01-02T03-04-05-006Z.db'))?.reason).toBe('migration');
+        expect(parseBackupFileName(path.join(DIR, 'cockpit-other-2025-01-02T03-04-05-006Z.db'))).toBeNull();
+        expect(parseBackupFileName(path.join(DIR, 'notes.txt'))).toBeNull();
+    });
+});
+
+describe('backupsToPrune', () => {
+    it('keeps the newest automatic snapshots and every manual one', () => {
+        const backup = (reason: BackupFile['reason'], day: number): BackupFile =>
+            ({ path: `${reason}-${day}`, reason, created_at: `2025-03-${String(day).padStart(2, '0')}T00:00:00.000Z` });
+        const backups = [backup('proposal', 1), backup('manual', 2), backup('migration', 3), backup('restore', 4), backup('proposal', 5)];
+
+        expect(backupsToPrune(backups, 2).map(b => b.path)).toEqual(['migration-3', 'proposal-1']);
+    });
+});
@@ -0,0 +1,57 @@
+import * as path from 'path';
+
+/**
+ * Why a snapshot was taken. Manual backups are kept until deleted by hand; the others
+ * are automatic and rotated.
+ */
+export type BackupReason = 'manual' | 'migration' | 'proposal' | 'restore' | 'repair';
+
+export const BACKUP_REASONS: BackupReason[] = ['manual', 'migration', 'proposal', 'restore', 'repair'];
+
+// Automatic snapshots kept per folder; older ones are deleted when a new one is taken
+export const MAX_AUTO_BACKUPS = 10;
+
+export interface BackupFile {
+    path: string;
+    reason: BackupReason;
+    created_at: string;     // ISO timestamp
+}
+
+/**
+ * .shepherd/backups/ next to the database file
+ */
+export function backupDirFor(dbPath: string): string {
+    return path.join(path.dirname(dbPath), 'backups');
+}
+
+/**
+ * `cockpit-proposal-2025-03-12T09-30-00-000Z.db`
+ */
+export function backupFileName(reason: BackupReason, date: Date): string {
+    return `cockpit-${reason}-${date.toISOString().replace(/[:.]/g, '-')}.db`;
+}
+
+const BACKUP_NAME = /^cockpit-([a-z]+|v\d+)-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.db$/;
+
+/**
+ * Reason and time of a snapshot from its file name, or null for other files.
+ * Snapshots from before backups were named by reason (`cockpit-v3-...`) were taken before migrations.
+ */
+export function parseBackupFileName(filePath: string): BackupFile | null {
+    const match = BACKUP_NAME.exec(path.basename(filePath));
+    if (!match) return null;
+    const [, tag, day, hours, minutes, seconds, millis] = match;
+    const reason = /^v\d+$/.test(tag) ? 'migration' : tag as BackupReason;
+    if (!BACKUP_REASONS.includes(reason)) return null;
+    return { path: filePath, reason, created_at: `${day}T${hours}:${minutes}:${seconds}.${millis}Z` };
+}
+
+/**
+ * Automatic snapshots beyond the newest `keep`, which rotation deletes
+ */
+export function backupsToPrune(backups: BackupFile[], keep: number = MAX_AUTO_BACKUPS): BackupFile[] {
+    return backups
+        .filter(b => b.reason !== 'manual')
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(keep);
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase, getDatabase, saveDatabase, flushDatabase, transaction, closeDatabase, getReadOnlyReason, backupDatabase } from './database';
+import { LATEST_SCHEMA_VERSION, getSchemaVersion } from './migrations';
+import { writeFileAtomic } from './atomicWrite';
+import { TaskRepo } from './repositories/taskRepo';
+
+// Count the writes of the database file
+vi.mock('./atomicWrite', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('./atomicWrite')>();
+    return { ...actual, writeFileAtomic: vi.fn(actual.writeFileAtomic) };
+});
+
+const roots: string[] = [];
+
+afterEach(() => {
+    vi.useRealTimers();
+    closeDatabase();
+    roots.splice(0).forEach(root => fs.rmSync(root, { recursive: true, force: true }));
+});
+
+async function openFolder(): Promise<string> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-db-'));
+    roots.push(root);
+    await initDatabase(root);
+    return root;
+}
+
+/**
+ * A folder whose database a newer Shepherd has migrated, reopened by this one
+ */
+async function openFromNewerShepherd(): Promise<string> {
+    const root = await openFolder();
+    getDatabase().run(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (${LATEST_SCHEMA_VERSION + 1}, 'from_the_future', '')`);
+    saveDatabase();
+    flushDatabase();
+    closeDatabase(root);
+    await initDatabase(root);
+    return root;
+}
+
+describe('read-only databases', () => {
+    it('open a database from a newer Shepherd read-only', async () => {
+        const root = await openFromNewerShepherd();
+        const onDisk = fs.readFileSync(path.join(root, '.shepherd', 'cockpit.db'));
+
+        expect(getReadOnlyReason()).toContain('newer version of Shepherd');
+        expect(getDatabase().exec('PRAGMA query_only')[0].values[0][0]).toBe(1);
+        expect(getSchemaVersion(getDatabase())).toBe(LATEST_SCHEMA_VERSION + 1);
+
+        saveDatabase();
+        flushDatabase();
+        expect(fs.readFileSync(path.join(root, '.shepherd', 'cockpit.db'))).toEqual(onDisk);
+    });
+
+    it('stay read-only after a backup exports them', async () => {
+        await openFromNewerShepherd();
+        expect(getReadOnlyReason()).toContain('newer version of Shepherd');
+
+        backupDatabase('manual');
+        expect(() => getDatabase().run(
+            "INSERT INTO milestones (id, title, created_at, updated_at) VALUES ('m1', 'Lost edit', '', '')"
+        )).toThrow(/readonly/);
+    });
+});
+
+describe('writes', () => {
+    const databaseWrites = () => vi.mocked(writeFileAtomic).mock.calls.filter(([file]) => file.endsWith('cockpit.db')).length;
+
+    beforeEach(async () => {
+        await openFolder();
+        vi.useFakeTimers();
+        vi.mocked(writeFileAtomic).mockClear();
+    });
+
+    it('combine saves made within the flush delay into one write', () => {
+        saveDatabase();
+        vi.advanceTimersByTime(200);
+        saveDatabase();
+        vi.advanceTimersByTime(200);
+        saveDatabase();
+        expect(databaseWrites()).toBe(0);
+
+        vi.advanceTimersByTime(300);
+        expect(databaseWrites()).toBe(1);
+    });
+
+    it('write reordering and updating 100 tasks once', () => {
+        const ids = transaction(() => Array.from({ length: 100 }, (_, i) => TaskRepo.create({ title: `Task ${i}` }).id));
+        vi.runAllTimers();
+        vi.mocked(writeFileAtomic).mockClear();
+
+        TaskRepo.reorder([...ids].reverse());
+        transaction(() => ids.forEach(id => TaskRepo.update(id, { status: 'in-progress' })));
+        vi.runAllTimers();
+
+        expect(databaseWrites()).toBe(1);
+        expect(TaskRepo.list().map(t => t.id)).toEqual([...ids].reverse());
+    });
+
+    it('wait for the outermost transaction before writing', () => {
+        transaction(() => {
+            transaction(() => TaskRepo.create({ title: 'Inner' }));
+            // Half of the outer transaction is not something to persist
+            flushDatabase();
+            expect(databaseWrites()).toBe(0);
+            TaskRepo.create({ title: 'Outer' });
+        });
+        vi.runAllTimers();
+
+        expect(databaseWrites()).toBe(1);
+    });
+
+    it('flush pending changes when the database is closed', async () => {
+        TaskRepo.create({ title: 'Unsaved' });
+        closeDatabase();
+        expect(databaseWrites()).toBe(1);
+
+        vi.useRealTimers();
+        await initDatabase(roots[0]);
+        expect(TaskRepo.list().map(t => t.title)).toEqual(['Unsaved']);
+    });
+});
@@ -1,67 +1,531 @@
-import initSqlJs, { Database } from 'sql.js';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { SCHEMA } from './schema';
-import { runMigrations } from './migrations';
+import { runMigrations, getSchemaVersion, LATEST_SCHEMA_VERSION } from './migrations';
+import { writeFileAtomic, tempPathFor } from './atomicWrite';
+import { backupDirFor, backupFileName, parseBackupFileName, backupsToPrune, type BackupFile, type BackupReason } from './backups';
 
-let db: Database | null = null;
-let dbPath: string | null = null;
+// Writes are coalesced: repositories mark the database dirty and it is flushed to disk once things go quiet
+const FLUSH_DELAY_MS = 300;
 
+// How often the file is polled for changes made by another window or a git pull
+const WATCH_INTERVAL_MS = 1000;
+
+/**
+ * - 'reloaded': the file changed on disk and the in-memory copy was replaced with it
+ * - 'conflict': the file changed on disk while this window had unsaved changes; writes
+ *   are paused until reloadDatabase() or overwriteDatabase() resolves it
+ */
+export type ExternalChange = 'reloaded' | 'conflict';
+
+/**
+ * A snapshot in .shepherd/backups/ with what it holds, for picking one to restore
+ */
+export interface BackupSummary extends BackupFile {
+    task_count: number | null;      // Tasks on the board (not archived); null if the file can't be read
+    feature_count: number | null;
+}
+
+/**
+ * An open .shepherd/cockpit.db. A multi-root workspace has one per initialized folder.
+ */
+interface Connection {
+    workspaceRoot: string;
+    dbPath: string;
+    db: Database;
+    dirty: boolean;
+    flushTimer: ReturnType<typeof setTimeout> | null;
+    transactionDepth: number;
+    // Hash of the file contents this window last loaded or wrote
+    knownHash: string | null;
+    inConflict: boolean;
+    // Set when the file was migrated by a newer Shepherd: the database is opened with writes refused
+    readOnlyReason: string | null;
+    watcher: () => void;
+}
+
+let SQL: SqlJsStatic | null = null;
+const connections = new Map<string, Connection>();
+// The connection repositories read and write - see selectDatabase()
+let current: Connection | null = null;
+const externalChangeListeners = new Set<(change: ExternalChange, workspaceRoot: string) => void>();
+
+function hashContents(data: Uint8Array): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function readDiskHash(filePath: string): string | null {
+    try {
+        return hashContents(fs.readFileSync(filePath));
+    } catch {
+        return null;
+    }
+}
+
+function notifyExternalChange(conn: Connection, change: ExternalChange): void {
+    externalChangeListeners.forEach(listener => listener(change, conn.workspaceRoot));
+}
+
+function requireConnection(): Connection {
+    if (!current) {
+        throw new Error('Database not initialized. Call initDatabase first.');
+    }
+    return current;
+}
+
+function listBackupFiles(dbPath: string): BackupFile[] {
+    const backupDir = backupDirFor(dbPath);
+    if (!fs.existsSync(backupDir)) return [];
+    return fs.readdirSync(backupDir)
+        .map(name => parseBackupFileName(path.join(backupDir, name)))
+        .filter((b): b is BackupFile => b !== null);
+}
+
+/**
+ * Delete automatic snapshots beyond the newest few. Manual backups are never deleted.
+ */
+function rotateBackups(dbPath: string): void {
+    for (const backup of backupsToPrune(listBackupFiles(dbPath))) {
+        try {
+            fs.rmSync(backup.path, { force: true });
+        } catch (error) {
+            console.warn(`[Database] Failed to delete old snapshot ${backup.path}:`, error);
+        }
+    }
+}
+
+/**
+ * Write a snapshot to .shepherd/backups/ and rotate the automatic ones
+ */
+function writeSnapshot(dbPath: string, reason: BackupReason, data: Uint8Array): BackupFile {
+    const backupDir = backupDirFor(dbPath);
+    fs.mkdirSync(backupDir, { recursive: true });
+    const now = new Date();
+    const snapshotPath = path.join(backupDir, backupFileName(reason, now));
+    writeFileAtomic(snapshotPath, data);
+    rotateBackups(dbPath);
+    return { path: snapshotPath, reason, created_at: now.toISOString() };
+}
+
+/**
+ * Copy the database file to .shepherd/backups/ before migrations change it
+ */
+function snapshotBeforeMigration(dbPath: string): string | null {
+    if (!fs.existsSync(dbPath)) return null;
+    return writeSnapshot(dbPath, 'migration', fs.readFileSync(dbPath)).path;
+}
+
+function countRows(db: Database, sql: string): number | null {
+    try {
+        return db.exec(sql)[0]?.values[0]?.[0] as number ?? 0;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * SQLite connections start with foreign keys off, which leaves ON DELETE CASCADE / SET NULL
+ * inert and lets rows point at deleted parents. Turned on once migrations are done.
+ */
+function enableForeignKeys(db: Database): void {
+    db.run('PRAGMA foreign_keys = ON');
+}
+
+/**
+ * sql.js reopens the connection while exporting, which resets every pragma: foreign keys
+ * go back off and a read-only database would start accepting writes again
+ */
+function exportDatabase(conn: Connection): Uint8Array {
+    const data = conn.db.export();
+    enableForeignKeys(conn.db);
+    if (conn.readOnlyReason) {
+        conn.db.run('PRAGMA query_only = ON');
+    }
+    return data;
+}
+
+/**
+ * Bring a freshly loaded database up to this build's schema.
+ * A database from a newer Shepherd is left untouched and made read-only.
+ * @returns true if migrations were applied
+ */
+function prepareSchema(conn: Connection): boolean {
+    const version = getSchemaVersion(conn.db);
+    if (version > LATEST_SCHEMA_VERSION) {
+        conn.readOnlyReason = `This project's Shepherd database was upgraded by a newer version of Shepherd (schema ${version}, this version supports up to ${LATEST_SCHEMA_VERSION}). It is open read-only; update Shepherd to make changes.`;
+        conn.db.run('PRAGMA query_only = ON');
+        console.warn(`[Database] ${conn.readOnlyReason}`);
+        return false;
+    }
+    conn.readOnlyReason = null;
+
+    if (runMigrations(conn.db, { dryRun: true }).length === 0) return false;
+    const snapshotPath = snapshotBeforeMigration(conn.dbPath);
+    if (snapshotPath) {
+        console.log(`[Database] Saved a copy of the database before migrating: ${snapshotPath}`);
+    }
+    runMigrations(conn.db);
+    return true;
+}
+
+/**
+ * Replace the in-memory database with the file on disk
+ */
+function loadFromDisk(conn: Connection): void {
+    if (!SQL) {
+        throw new Error('Database not initialized');
+    }
+    const buffer = fs.readFileSync(conn.dbPath);
+    const loaded = new SQL.Database(buffer);
+    conn.db.close();
+    conn.db = loaded;
+    conn.knownHash = hashContents(buffer);
+    conn.dirty = false;
+    conn.inConflict = false;
+
+    // The other copy may have been written by an older (or newer) Shepherd
+    const migrated = prepareSchema(conn);
+    enableForeignKeys(conn.db);
+    if (migrated) {
+        conn.dirty = true;
+        flushConnection(conn);
+    }
+}
+
+function checkForExternalChange(conn: Connection): void {
+    if (conn.inConflict) return;
+    const diskHash = readDiskHash(conn.dbPath);
+    // Missing file (deleted or mid-rename) or our own write
+    if (diskHash === null || diskHash === conn.knownHash) return;
+
+    if (conn.dirty) {
+        conn.inConflict = true;
+        notifyExternalChange(conn, 'conflict');
+        return;
+    }
+    loadFromDisk(conn);
+    notifyExternalChange(conn, 'reloaded');
+}
+
+function flushConnection(conn: Connection): void {
+    if (conn.flushTimer) {
+        clearTimeout(conn.flushTimer);
+        conn.flushTimer = null;
+    }
+    // Never persist half of a transaction - its commit schedules another flush
+    if (!conn.dirty || conn.transactionDepth > 0 || conn.inConflict || conn.readOnlyReason) return;
+
+    // Someone else wrote the file since we last read it - don't clobber their data
+    const diskHash = readDiskHash(conn.dbPath);
+    if (diskHash !== null && diskHash !== conn.knownHash) {
+        conn.inConflict = true;
+        notifyExternalChange(conn, 'conflict');
+        return;
+    }
+
+    const data = exportDatabase(conn);
+    writeFileAtomic(conn.dbPath, data);
+    conn.knownHash = hashContents(data);
+    conn.dirty = false;
+}
+
+function closeConnection(conn: Connection): void {
+    fs.unwatchFile(conn.dbPath, conn.watcher);
+    try {
+        if (conn.inConflict && conn.dirty) {
+            // Keep this window's unsaved changes next to the newer file rather than losing them
+            const asidePath = conn.dbPath.replace(/\.db$/, `.conflict-${Date.now()}.db`);
+            writeFileAtomic(asidePath, conn.db.export());
+            console.warn(`[Database] Unsaved changes conflicted with the file on disk; saved to ${asidePath}`);
+        } else {
+            flushConnection(conn);
+        }
+    } catch (error) {
+        console.error('[Database] Failed to write database on close:', error);
+    }
+    conn.db.close();
+    connections.delete(conn.workspaceRoot);
+    if (current === conn) {
+        current = null;
+    }
+}
+
+/**
+ * Open the database of a workspace folder and make it the current one.
+ * Opening a folder that is already open just selects it.
+ */
 export async function initDatabase(workspaceRoot: string): Promise<Database> {
-    // Locate WASM file - when bundled it's in the same directory as the extension
-    const wasmPath = path.join(__dirname, 'sql-wasm.wasm');
-    const SQL = await initSqlJs({
-        locateFile: (file: string) => {
-            if (file === 'sql-wasm.wasm' && fs.existsSync(wasmPath)) {
-                return wasmPath;
+    const existing = connections.get(workspaceRoot);
+    if (existing) {
+        current = existing;
+        return existing.db;
+    }
+
+    if (!SQL) {
+        // Locate WASM file - when bundled it's in the same directory as the extension
+        const wasmPath = path.join(__dirname, 'sql-wasm.wasm');
+        SQL = await initSqlJs({
+            locateFile: (file: string, scriptDirectory: string) => {
+                if (file === 'sql-wasm.wasm' && fs.existsSync(wasmPath)) {
+                    return wasmPath;
+                }
+                // Unbundled (tests): next to sql.js itself
+                return scriptDirectory + file;
             }
-            return file;
-        }
-    });
+        });
+    }
 
     const shepherdDir = path.join(workspaceRoot, '.shepherd');
     if (!fs.existsSync(shepherdDir)) {
         fs.mkdirSync(shepherdDir, { recursive: true });
     }
 
-    dbPath = path.join(shepherdDir, 'cockpit.db');
+    const dbPath = path.join(shepherdDir, 'cockpit.db');
+
+    // A leftover temp file means a write was interrupted before the rename - the real file is still intact
+    fs.rmSync(tempPathFor(dbPath), { force: true });
 
-    if (fs.existsSync(dbPath)) {
-        const buffer = fs.readFileSync(dbPath);
-        db = new SQL.Database(buffer);
-    } else {
-        db = new SQL.Database();
-        db.run(SCHEMA);
+    const isNew = !fs.existsSync(dbPath);
+    const buffer = isNew ? null : fs.readFileSync(dbPath);
+    const conn: Connection = {
+        workspaceRoot,
+        dbPath,
+        db: buffer ? new SQL.Database(buffer) : new SQL.Database(),
+        dirty: false,
+        flushTimer: null,
+        transactionDepth: 0,
+        knownHash: buffer ? hashContents(buffer) : null,
+        inConflict: false,
+        readOnlyReason: null,
+        watcher: () => checkForExternalChange(conn),
+    };
+    if (isNew) {
+        conn.db.run(SCHEMA);
     }
 
     // Run any pending migrations (works for both new and existing databases)
-    const applied = runMigrations(db);
-    if (applied.length > 0 || !fs.existsSync(dbPath)) {
-        saveDatabase();
+    const migrated = prepareSchema(conn);
+    enableForeignKeys(conn.db);
+    if (migrated || isNew) {
+        conn.dirty = true;
+        flushConnection(conn);
     }
 
-    return db;
+    // Poll rather than fs.watch - atomic writes replace the file, which fs.watch loses track of
+    fs.watchFile(dbPath, { interval: WATCH_INTERVAL_MS }, conn.watcher);
+
+    connections.set(workspaceRoot, conn);
+    current = conn;
+    return conn.db;
 }
 
-export function getDatabase(): Database {
-    if (!db) {
-        throw new Error('Database not initialized. Call initDatabase first.');
+/**
+ * Point the repositories at the database of an open workspace folder.
+ * Repository calls are synchronous, so callers select right before using them.
+ */
+export function selectDatabase(workspaceRoot: string): void {
+    const conn = connections.get(workspaceRoot);
+    if (!conn) {
+        throw new Error(`No Shepherd database is open for ${workspaceRoot}`);
+    }
+    current = conn;
+}
+
+/**
+ * Subscribe to changes made to a database file outside this window
+ */
+export function onExternalChange(listener: (change: ExternalChange, workspaceRoot: string) => void): { dispose(): void } {
+    externalChangeListeners.add(listener);
+    return { dispose: () => externalChangeListeners.delete(listener) };
+}
+
+/**
+ * Resolve a conflict by discarding unsaved changes and loading the file on disk
+ */
+export function reloadDatabase(): void {
+    const conn = requireConnection();
+    loadFromDisk(conn);
+    notifyExternalChange(conn, 'reloaded');
+}
+
+/**
+ * Resolve a conflict by writing this window's copy over the file on disk
+ */
+export function overwriteDatabase(): void {
+    const conn = requireConnection();
+    conn.inConflict = false;
+    conn.knownHash = readDiskHash(conn.dbPath);
+    conn.dirty = true;
+    flushConnection(conn);
+}
+
+/**
+ * Save a snapshot of the current database, including changes not yet flushed, to .shepherd/backups/.
+ * Automatic snapshots (every reason but 'manual') are rotated, keeping the newest few.
+ */
+export function backupDatabase(reason: BackupReason): BackupFile {
+    const conn = requireConnection();
+    const backup = writeSnapshot(conn.dbPath, reason, exportDatabase(conn));
+    console.log(`[Database] Saved a ${reason} snapshot: ${backup.path}`);
+    return backup;
+}
+
+/**
+ * Snapshots of the current database in .shepherd/backups/, newest first, with their task counts
+ */
+export function listBackups(): BackupSummary[] {
+    const conn = requireConnection();
+    if (!SQL) {
+        throw new Error('Database not initialized');
     }
-    return db;
+    const sql = SQL;
+    return listBackupFiles(conn.dbPath)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(backup => {
+            let db: Database | null = null;
+            try {
+                db = new sql.Database(fs.readFileSync(backup.path));
+                // Snapshots from before archiving have no archived_at column
+                const taskCount = countRows(db, 'SELECT COUNT(*) FROM tasks WHERE archived_at IS NULL')
+                    ?? countRows(db, 'SELECT COUNT(*) FROM tasks');
+                return { ...backup, task_count: taskCount, feature_count: countRows(db, 'SELECT COUNT(*) FROM features') };
+            } catch {
+                return { ...backup, task_count: null, feature_count: null };
+            } finally {
+                db?.close();
+            }
+        });
 }
 
+/**
+ * Replace the current database with a snapshot from .shepherd/backups/. The current state is
+ * snapshotted first so the restore can itself be undone. Older snapshots are migrated; snapshots
+ * written by a newer Shepherd are refused.
+ */
+export function restoreBackup(backupPath: string): void {
+    const conn = requireConnection();
+    if (!SQL) {
+        throw new Error('Database not initialized');
+    }
+    if (conn.readOnlyReason) {
+        throw new Error(conn.readOnlyReason);
+    }
+    const backup = parseBackupFileName(backupPath);
+    if (!backup || path.dirname(path.resolve(backupPath)) !== path.resolve(backupDirFor(conn.dbPath))) {
+        throw new Error(`Not a Shepherd snapshot: ${backupPath}`);
+    }
+
+    const restored = new SQL.Database(fs.readFileSync(backupPath));
+    const version = getSchemaVersion(restored);
+    if (version > LATEST_SCHEMA_VERSION) {
+        restored.close();
+        throw new Error(`This snapshot was written by a newer version of Shepherd (schema ${version}); update Shepherd to restore it.`);
+    }
+    runMigrations(restored);
+    enableForeignKeys(restored);
+
+    backupDatabase('restore');
+    if (conn.flushTimer) {
+        clearTimeout(conn.flushTimer);
+        conn.flushTimer = null;
+    }
+    conn.db.close();
+    conn.db = restored;
+    // The snapshot replaces whatever is on disk, including changes from another window
+    conn.inConflict = false;
+    conn.knownHash = readDiskHash(conn.dbPath);
+    conn.dirty = true;
+    flushConnection(conn);
+}
+
+/**
+ * Why the database is read-only, or null if it can be written
+ */
+export function getReadOnlyReason(): string | null {
+    return current?.readOnlyReason ?? null;
+}
+
+export function getDatabase(): Database {
+    return requireConnection().db;
+}
+
+/**
+ * Mark the database as changed. The file is written by a debounced flush,
+ * so a burst of repository calls results in a single write.
+ */
 export function saveDatabase(): void {
-    if (!db || !dbPath) {
+    if (!current) {
         throw new Error('Database not initialized');
     }
-    const data = db.export();
-    fs.writeFileSync(dbPath, Buffer.from(data));
+    const conn = current;
+    if (conn.readOnlyReason) return;
+    conn.dirty = true;
+    if (conn.inConflict) {
+        // Still unresolved - remind rather than write
+        notifyExternalChange(conn, 'conflict');
+        return;
+    }
+    if (conn.flushTimer) {
+        clearTimeout(conn.flushTimer);
+    }
+    conn.flushTimer = setTimeout(() => {
+        conn.flushTimer = null;
+        try {
+            flushConnection(conn);
+        } catch (error) {
+            // Stay dirty so the next save or close retries the write
+            console.error('[Database] Failed to write database:', error);
+        }
+    }, FLUSH_DELAY_MS);
 }
 
-export function closeDatabase(): void {
-    if (db) {
-        db.close();
-        db = null;
-        dbPath = null;
+/**
+ * Write pending changes to disk now. The file is replaced atomically,
+ * so a crash mid-write leaves the previous version in place.
+ */
+export function flushDatabase(): void {
+    if (!current) {
+        throw new Error('Database not initialized');
+    }
+    flushConnection(current);
+}
+
+/**
+ * Run fn in a transaction: all of its writes land together or, if it throws, none do.
+ * Transactions nest via savepoints.
+ */
+export function transaction<T>(fn: () => T): T {
+    const conn = requireConnection();
+    const database = conn.db;
+    const savepoint = `sp_${conn.transactionDepth}`;
+    database.run(`SAVEPOINT ${savepoint}`);
+    conn.transactionDepth++;
+    try {
+        const result = fn();
+        conn.transactionDepth--;
+        database.run(`RELEASE ${savepoint}`);
+        saveDatabase();
+        return result;
+    } catch (error) {
+        conn.transactionDepth--;
+        database.run(`ROLLBACK TO ${savepoint}`);
+        database.run(`RELEASE ${savepoint}`);
+        throw error;
+    }
+}
+
+/**
+ * Flush and close the database of one workspace folder, or of all of them
+ */
+export function closeDatabase(workspaceRoot?: string): void {
+    if (workspaceRoot === undefined) {
+        [...connections.values()].forEach(closeConnection);
+        return;
+    }
+    const conn = connections.get(workspaceRoot);
+    if (conn) {
+        closeConnection(conn);
     }
 }
@@ -1,4 +1,5 @@
-export { initDatabase, getDatabase, saveDatabase, closeDatabase } from './database';
-export { getSchemaVersion } from './migrations';
+export { initDatabase, selectDatabase, getDatabase, saveDatabase, flushDatabase, transaction, closeDatabase, getReadOnlyReason, onExternalChange, reloadDatabase, overwriteDatabase, backupDatabase, listBackups, restoreBackup, type ExternalChange, type BackupSummary } from './database';
+export { MAX_AUTO_BACKUPS, type BackupReason, type BackupFile } from './backups';
+export { getSchemaVersion, LATEST_SCHEMA_VERSION } from './migrations';
 export * from './types';
 export * from './repositories';
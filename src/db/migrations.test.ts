@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase, getDatabase, closeDatabase } from './database';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, runMigrations, getSchemaVersion } from './migrations';
+
+let root: string;
+
+beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-migrations-'));
+    await initDatabase(root);
+});
+
+afterEach(() => {
+    // Drop the migrations a test added
+    MIGRATIONS.splice(MIGRATIONS.findIndex(m => m.version === LATEST_SCHEMA_VERSION) + 1);
+    closeDatabase();
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+function tableExists(name: string): boolean {
+    return getDatabase().exec('SELECT 1 FROM sqlite_master WHERE name = ?', [name]).length > 0;
+}
+
+describe('runMigrations', () => {
+    it('brings a new database to the latest version', () => {
+        expect(getSchemaVersion(getDatabase())).toBe(LATEST_SCHEMA_VERSION);
+        expect(runMigrations(getDatabase())).toEqual([]);
+    });
+
+    it('rolls back a failing migration and leaves the version unchanged', () => {
+        MIGRATIONS.push({
+            version: LATEST_SCHEMA_VERSION + 1,
+            name: 'half_done',
+            up: db => {
+                db.run('CREATE TABLE scratch (id TEXT)');
+                throw new Error('Migration bug');
+            }
+        });
+
+        expect(() => runMigrations(getDatabase())).toThrow('Migration bug');
+        expect(tableExists('scratch')).toBe(false);
+        expect(getSchemaVersion(getDatabase())).toBe(LATEST_SCHEMA_VERSION);
+    });
+
+    it('lists pending migrations on a dry run without applying them', () => {
+        MIGRATIONS.push({
+            version: LATEST_SCHEMA_VERSION + 1,
+            name: 'add_scratch',
+            up: db => db.run('CREATE TABLE scratch (id TEXT)')
+        });
+
+        expect(runMigrations(getDatabase(), { dryRun: true })).toEqual(['add_scratch']);
+        expect(tableExists('scratch')).toBe(false);
+        expect(getSchemaVersion(getDatabase())).toBe(LATEST_SCHEMA_VERSION);
+
+        expect(runMigrations(getDatabase())).toEqual(['add_scratch']);
+        expect(tableExists('scratch')).toBe(true);
+    });
+});
@@ -1,4 +1,5 @@
 import type { Database } from 'sql.js';
+import { ranksBetween } from './rank';
 
 /**
  * Migration definition
@@ -27,9 +28,331 @@ export const MIGRATIONS: Migration[] = [
                 }
             }
         }
+    },
+    {
+        version: 2,
+        name: 'add_task_events',
+        up: (db: Database) => {
+            // Audit log of task changes (no FK so history survives task deletion)
+            db.run(`
+                CREATE TABLE IF NOT EXISTS task_events (
+                    id TEXT PRIMARY KEY,
+                    task_id TEXT NOT NULL,
+                    event TEXT NOT NULL,
+                    from_value TEXT,
+                    to_value TEXT,
+                    changes TEXT,
+                    actor TEXT NOT NULL,
+                    source TEXT NOT NULL,
+                    created_at TEXT NOT NULL
+                )
+            `);
+            db.run('CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id, created_at)');
+        }
+    },
+    {
+        version: 3,
+        name: 'add_task_dependencies',
+        up: (db: Database) => {
+            db.run(`
+                CREATE TABLE IF NOT EXISTS task_dependencies (
+                    task_id TEXT NOT NULL,
+                    blocked_by_id TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    PRIMARY KEY (task_id, blocked_by_id),
+                    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+                    FOREIGN KEY (blocked_by_id) REFERENCES tasks(id) ON DELETE CASCADE
+                )
+            `);
+        }
+    },
+    {
+        version: 4,
+        name: 'add_task_criteria',
+        up: (db: Database) => {
+            db.run(`
+                CREATE TABLE IF NOT EXISTS task_criteria (
+                    id TEXT PRIMARY KEY,
+                    task_id TEXT NOT NULL,
+                    text TEXT NOT NULL,
+                    checked INTEGER NOT NULL DEFAULT 0,
+                    position INTEGER NOT NULL,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL,
+                    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+                )
+            `);
+            db.run('CREATE INDEX IF NOT EXISTS idx_task_criteria_task ON task_criteria(task_id, position)');
+        }
+    },
+    {
+        version: 5,
+        name: 'add_task_comments',
+        up: (db: Database) => {
+            db.run(`
+                CREATE TABLE IF NOT EXISTS task_comments (
+                    id TEXT PRIMARY KEY,
+                    task_id TEXT NOT NULL,
+                    author TEXT NOT NULL,
+                    kind TEXT NOT NULL DEFAULT 'note',
+                    body TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL,
+                    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+                )
+            `);
+            db.run('CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at)');
+        }
+    },
+    {
+        version: 6,
+        name: 'add_task_archived_at',
+        up: (db: Database) => {
+            // Archived tasks stay in the table instead of being deleted
+            const result = db.exec("PRAGMA table_info(tasks)");
+            if (result.length > 0) {
+                const columns = result[0].values.map(row => row[1] as string);
+                if (!columns.includes('archived_at')) {
+                    db.run('ALTER TABLE tasks ADD COLUMN archived_at TEXT');
+                }
+            }
+        }
+    },
+    {
+        version: 7,
+        name: 'add_search_index',
+        up: (db: Database) => {
+            // Full-text index over task and feature text (kept current by triggers) and
+            // requirement docs (synced from disk by SearchRepo). sql.js ships FTS4, not FTS5.
+            db.run(`
+                CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts4(
+                    kind, ref_id, title, body, stamp,
+                    notindexed=kind, notindexed=ref_id, notindexed=stamp,
+                    tokenize=unicode61 "remove_diacritics=1"
+                )
+            `);
+            for (const [table, kind] of [['tasks', 'task'], ['features', 'feature']]) {
+                db.run(`
+                    CREATE TRIGGER IF NOT EXISTS ${table}_search_insert AFTER INSERT ON ${table} BEGIN
+                        -- INSERT OR REPLACE (restore, sync) doesn't fire the delete trigger
+                        DELETE FROM search_index WHERE kind = '${kind}' AND ref_id = new.id;
+                        INSERT INTO search_index (kind, ref_id, title, body) VALUES ('${kind}', new.id, new.title, new.description);
+                    END
+                `);
+                db.run(`
+                    CREATE TRIGGER IF NOT EXISTS ${table}_search_update AFTER UPDATE OF title, description ON ${table} BEGIN
+                        DELETE FROM search_index WHERE kind = '${kind}' AND ref_id = old.id;
+                        INSERT INTO search_index (kind, ref_id, title, body) VALUES ('${kind}', new.id, new.title, new.description);
+                    END
+                `);
+                db.run(`
+                    CREATE TRIGGER IF NOT EXISTS ${table}_search_delete AFTER DELETE ON ${table} BEGIN
+                        DELETE FROM search_index WHERE kind = '${kind}' AND ref_id = old.id;
+                    END
+                `);
+                db.run(`DELETE FROM search_index WHERE kind = '${kind}'`);
+                db.run(`INSERT INTO search_index (kind, ref_id, title, body) SELECT '${kind}', id, title, description FROM ${table}`);
+            }
+        }
+    },
+    {
+        version: 8,
+        name: 'add_task_estimate',
+        up: (db: Database) => {
+            // Optional story-point estimate per task
+            const result = db.exec("PRAGMA table_info(tasks)");
+            if (result.length > 0) {
+                const columns = result[0].values.map(row => row[1] as string);
+                if (!columns.includes('estimate')) {
+                    db.run('ALTER TABLE tasks ADD COLUMN estimate INTEGER');
+                }
+            }
+        }
+    },
+    {
+        version: 9,
+        name: 'add_milestones',
+        up: (db: Database) => {
+            // Releases with a target date that features are assigned to
+            db.run(`
+                CREATE TABLE IF NOT EXISTS milestones (
+                    id TEXT PRIMARY KEY,
+                    title TEXT NOT NULL,
+                    description TEXT,
+                    target_date TEXT,
+                    status TEXT NOT NULL DEFAULT 'open',
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL
+                )
+            `);
+            const result = db.exec("PRAGMA table_info(features)");
+            if (result.length > 0) {
+                const columns = result[0].values.map(row => row[1] as string);
+                if (!columns.includes('milestone_id')) {
+                    db.run('ALTER TABLE features ADD COLUMN milestone_id TEXT REFERENCES milestones(id) ON DELETE SET NULL');
+                }
+            }
+        }
+    },
+    {
+        version: 10,
+        name: 'add_session_rejected_proposals',
+        up: (db: Database) => {
+            // Proposals the PM sent back, kept so they can be reviewed and approved later
+            const result = db.exec("PRAGMA table_info(requirement_sessions)");
+            if (result.length > 0) {
+                const columns = result[0].values.map(row => row[1] as string);
+                if (!columns.includes('rejected_proposals')) {
+                    db.run('ALTER TABLE requirement_sessions ADD COLUMN rejected_proposals TEXT');
+                }
+            }
+        }
+    },
+    {
+        version: 11,
+        name: 'add_task_bug_fields',
+        up: (db: Database) => {
+            // Structured bug report: severity, steps to reproduce, expected/actual result, environment
+            const result = db.exec("PRAGMA table_info(tasks)");
+            if (result.length > 0) {
+                const columns = result[0].values.map(row => row[1] as string);
+                for (const column of ['severity', 'repro_steps', 'expected_result', 'actual_result', 'environment']) {
+                    if (!columns.includes(column)) {
+                        db.run(`ALTER TABLE tasks ADD COLUMN ${column} TEXT`);
+                    }
+                }
+            }
+        }
+    },
+    {
+        version: 12,
+        name: 'add_task_commits',
+        up: (db: Database) => {
+            db.run(`
+                CREATE TABLE IF NOT EXISTS task_commits (
+                    task_id TEXT NOT NULL,
+                    sha TEXT NOT NULL,
+                    subject TEXT NOT NULL,
+                    author TEXT NOT NULL,
+                    branch TEXT,
+                    committed_at TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    PRIMARY KEY (task_id, sha),
+                    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+                )
+            `);
+        }
+    },
+    {
+        version: 13,
+        name: 'add_task_locations',
+        up: (db: Database) => {
+            db.run(`
+                CREATE TABLE IF NOT EXISTS task_locations (
+                    id TEXT PRIMARY KEY,
+                    task_id TEXT NOT NULL,
+                    path TEXT NOT NULL,
+                    start_line INTEGER NOT NULL,
+                    end_line INTEGER NOT NULL,
+                    created_at TEXT NOT NULL,
+                    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+                )
+            `);
+            db.run('CREATE INDEX IF NOT EXISTS idx_task_locations_task ON task_locations(task_id)');
+        }
+    },
+    {
+        version: 14,
+        name: 'replace_priority_with_rank',
+        up: (db: Database) => {
+            // Lexicographic ranks (see rank.ts) replace integer priorities, which were only
+            // ordered within each feature. The task queue follows the board: features in
+            // order, each feature's tasks in order, ungrouped tasks last.
+            const orders = {
+                features: 'SELECT id FROM features ORDER BY priority, created_at, id',
+                tasks: `SELECT t.id FROM tasks t LEFT JOIN features f ON f.id = t.feature_id
+                        ORDER BY f.id IS NULL, f.priority, t.feature_id, t.priority, t.created_at, t.id`,
+            };
+            // Tasks first: their order reads features.priority
+            for (const table of ['tasks', 'features'] as const) {
+                const result = db.exec(`PRAGMA table_info(${table})`);
+                const columns = result.length > 0 ? result[0].values.map(row => row[1] as string) : [];
+                if (!columns.includes('rank')) {
+                    db.run(`ALTER TABLE ${table} ADD COLUMN rank TEXT NOT NULL DEFAULT ''`);
+                }
+                if (columns.includes('priority')) {
+                    const ordered = db.exec(orders[table]);
+                    const ids = ordered.length > 0 ? ordered[0].values.map(row => row[0] as string) : [];
+                    ranksBetween(null, null, ids.length).forEach((rank, i) => {
+                        db.run(`UPDATE ${table} SET rank = ? WHERE id = ?`, [rank, ids[i]]);
+                    });
+                    db.run(`ALTER TABLE ${table} DROP COLUMN priority`);
+                }
+            }
+            db.run('CREATE INDEX IF NOT EXISTS idx_tasks_rank ON tasks(rank)');
+        }
+    },
+    {
+        version: 15,
+        name: 'key_search_index_by_docid',
+        up: (db: Database) => {
+            // FTS4 can only look rows up by docid; matching on kind and ref_id scanned the
+            // whole index on every task and feature write. search_refs maps them to the docid.
+            db.run(`
+                CREATE TABLE IF NOT EXISTS search_refs (
+                    docid INTEGER PRIMARY KEY,
+                    kind TEXT NOT NULL,
+                    ref_id TEXT NOT NULL,
+                    UNIQUE (kind, ref_id)
+                )
+            `);
+            for (const [table, kind] of [['tasks', 'task'], ['features', 'feature']]) {
+                const docid = `(SELECT docid FROM search_refs WHERE kind = '${kind}' AND ref_id = new.id)`;
+                const oldDocid = `(SELECT docid FROM search_refs WHERE kind = '${kind}' AND ref_id = old.id)`;
+                db.run(`DROP TRIGGER IF EXISTS ${table}_search_insert`);
+                db.run(`DROP TRIGGER IF EXISTS ${table}_search_update`);
+                db.run(`DROP TRIGGER IF EXISTS ${table}_search_delete`);
+                db.run(`
+                    CREATE TRIGGER ${table}_search_insert AFTER INSERT ON ${table} BEGIN
+                        -- INSERT OR REPLACE (restore, sync) doesn't fire the delete trigger
+                        DELETE FROM search_index WHERE docid = ${docid};
+                        INSERT OR IGNORE INTO search_refs (kind, ref_id) VALUES ('${kind}', new.id);
+                        INSERT INTO search_index (docid, kind, ref_id, title, body) VALUES (${docid}, '${kind}', new.id, new.title, new.description);
+                    END
+                `);
+                db.run(`
+                    CREATE TRIGGER ${table}_search_update AFTER UPDATE OF title, description ON ${table} BEGIN
+                        UPDATE search_index SET title = new.title, body = new.description WHERE docid = ${docid};
+                    END
+                `);
+                db.run(`
+                    CREATE TRIGGER ${table}_search_delete AFTER DELETE ON ${table} BEGIN
+                        DELETE FROM search_index WHERE docid = ${oldDocid};
+                        DELETE FROM search_refs WHERE kind = '${kind}' AND ref_id = old.id;
+                    END
+                `);
+            }
+            // Rebuild with docids taken from search_refs; requirement docs are re-read on the next search
+            db.run('DELETE FROM search_index');
+            db.run('DELETE FROM search_refs');
+            for (const [table, kind] of [['tasks', 'task'], ['features', 'feature']]) {
+                db.run(`INSERT INTO search_refs (kind, ref_id) SELECT '${kind}', id FROM ${table}`);
+                db.run(`
+                    INSERT INTO search_index (docid, kind, ref_id, title, body)
+                    SELECT r.docid, '${kind}', t.id, t.title, t.description
+                    FROM ${table} t JOIN search_refs r ON r.kind = '${kind}' AND r.ref_id = t.id
+                `);
+            }
+        }
     }
 ];
 
+/**
+ * Highest schema version this build knows how to use. A database above it was
+ * migrated by a newer Shepherd and is only opened read-only.
+ */
+export const LATEST_SCHEMA_VERSION = Math.max(...MIGRATIONS.map(m => m.version));
+
 /**
  * Create the schema_migrations table if it doesn't exist
  */
@@ -63,10 +386,12 @@ function recordMigration(db: Database, migration: Migration): void {
 }
 
 /**
- * Run all pending migrations in order
- * @returns Array of migration names that were applied
+ * Run all pending migrations in order. Each migration runs in its own savepoint,
+ * so a failing one leaves no partial schema change behind.
+ * @param options.dryRun List the pending migrations without applying them
+ * @returns Array of migration names that were applied (or would be, for a dry run)
  */
-export function runMigrations(db: Database): string[] {
+export function runMigrations(db: Database, options: { dryRun?: boolean } = {}): string[] {
     ensureMigrationsTable(db);
 
     const applied = getAppliedVersions(db);
@@ -76,15 +401,24 @@ export function runMigrations(db: Database): string[] {
     // Sort by version to ensure order
     pending.sort((a, b) => a.version - b.version);
 
+    if (options.dryRun) {
+        return pending.map(m => m.name);
+    }
+
     for (const migration of pending) {
         console.log(`[Database] Running migration ${migration.version}: ${migration.name}`);
+        const savepoint = `migration_${migration.version}`;
+        db.run(`SAVEPOINT ${savepoint}`);
         try {
             migration.up(db);
             recordMigration(db, migration);
+            db.run(`RELEASE ${savepoint}`);
             appliedNames.push(migration.name);
             console.log(`[Database] Migration ${migration.version} complete`);
         } catch (error) {
-            console.error(`[Database] Migration ${migration.version} failed:`, error);
+            db.run(`ROLLBACK TO ${savepoint}`);
+            db.run(`RELEASE ${savepoint}`);
+            console.error(`[Database] Migration ${migration.version} failed and was rolled back:`, error);
             throw error;
         }
     }
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { rankBetween, ranksBetween, planRerank, isValidRank, type RankedItem } from './rank';
+
+describe('rankBetween', () => {
+    it('starts at a0 and appends by incrementing the integer part', () => {
+        expect(rankBetween(null, null)).toBe('a0');
+        expect(rankBetween('a0', null)).toBe('a1');
+        expect(rankBetween('az', null)).toBe('b00');
+        expect(rankBetween(null, 'a0')).toBe('Zz');
+    });
+
+    it('splits between neighbours with a fraction', () => {
+        expect(rankBetween('a0', 'a1')).toBe('a0V');
+        expect(rankBetween('a0', 'a0V')).toBe('a0G');
+        expect(rankBetween('a0V', 'a1')).toBe('a0l');
+    });
+
+    it('keeps finding room between the same two ranks', () => {
+        let low = 'a0';
+        const high = 'a1';
+        for (let i = 0; i < 200; i++) {
+            const next = rankBetween(low, high);
+            expect(next > low && next < high).toBe(true);
+            expect(isValidRank(next)).toBe(true);
+            low = next;
+        }
+    });
+
+    it('keeps appended ranks short', () => {
+        let rank = rankBetween(null, null);
+        for (let i = 0; i < 5000; i++) rank = rankBetween(rank, null);
+        expect(rank.length).toBeLessThanOrEqual(4);
+    });
+
+    it('rejects bounds in the wrong order', () => {
+        expect(() => rankBetween('a1', 'a0')).toThrow();
+        expect(() => rankBetween('a1', 'a1')).toThrow();
+    });
+});
+
+describe('ranksBetween', () => {
+    it('returns ascending ranks inside the bounds', () => {
+        for (const [a, b] of [[null, null], ['a0', null], [null, 'a0'], ['a0', 'a1']] as const) {
+            const ranks = ranksBetween(a, b, 7);
+            expect(ranks).toHaveLength(7);
+            expect([...ranks].sort()).toEqual(ranks);
+            expect(new Set(ranks).size).toBe(7);
+            if (a) expect(ranks[0] > a).toBe(true);
+            if (b) expect(ranks[6] < b).toBe(true);
+        }
+    });
+});
+
+describe('planRerank', () => {
+    // The whole queue; the slice being reordered is a subset of it
+    const queue = ['a0', 'a1', 'a2', 'a3', 'a4', 'a5'];
+    const below = (rank: string) => [...queue].reverse().find(r => r < rank) ?? null;
+    const above = (rank: string) => queue.find(r => r > rank) ?? null;
+    const apply = (items: RankedItem[], changes: RankedItem[]) => {
+        const ranks = new Map(items.map(i => [i.id, i.rank]));
+        changes.forEach(c => ranks.set(c.id, c.rank));
+        return [...ranks.entries()].sort((x, y) => (x[1] < y[1] ? -1 : 1)).map(([id]) => id);
+    };
+
+    it('rewrites only the moved item', () => {
+        const items = [{ id: 'c', rank: 'a4' }, { id: 'a', rank: 'a0' }, { id: 'b', rank: 'a2' }];
+        const changes = planRerank(items, below, above);
+        expect(changes).toHaveLength(1);
+        expect(changes[0].id).toBe('c');
+        // Placed right before a, ahead of every other row
+        expect(changes[0].rank < 'a0').toBe(true);
+        expect(apply(items, changes)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('places an item moved to the end right after the last one', () => {
+        const items = [{ id: 'b', rank: 'a2' }, { id: 'c', rank: 'a4' }, { id: 'a', rank: 'a0' }];
+        const changes = planRerank(items, below, above);
+        expect(changes).toEqual([{ id: 'a', rank: expect.any(String) }]);
+        expect(changes[0].rank > 'a4' && changes[0].rank < 'a5').toBe(true);
+    });
+
+    it('changes nothing when the order is unchanged', () => {
+        expect(planRerank([{ id: 'a', rank: 'a0' }, { id: 'b', rank: 'a3' }], below, above)).toEqual([]);
+    });
+
+    it('separates items that share a rank', () => {
+        const items = [{ id: 'a', rank: 'a1' }, { id: 'b', rank: 'a1' }, { id: 'c', rank: 'a1' }];
+        const changes = planRerank(items, below, above);
+        expect(changes).toHaveLength(2);
+        expect(apply(items, changes)).toEqual(['a', 'b', 'c']);
+    });
+});
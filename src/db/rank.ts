@@ -0,0 +1,207 @@
+/**
+ * Lexicographic ranks for ordering tasks and features (fractional indexing).
+ *
+ * A rank is a base-62 string that sorts with plain string comparison (SQLite's BINARY
+ * collation, JS `<`). There is always room for another rank between two others, so
+ * moving a row only rewrites that row. Ranks are an integer part, whose first character
+ * encodes its length ('a0'..'az', 'b10'..'bzz', ...), followed by an optional fraction
+ * that never ends in '0'. Appending keeps keys short; inserting between two neighbours
+ * grows the fraction by about one character per split.
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+const SMALLEST_INTEGER = 'A' + '0'.repeat(26);
+
+export interface RankedItem {
+    id: string;
+    rank: string;
+}
+
+function integerLength(head: string): number {
+    if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+    if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+    throw new Error(`Invalid rank head: ${head}`);
+}
+
+function integerPart(rank: string): string {
+    const length = integerLength(rank[0]);
+    if (length > rank.length) throw new Error(`Invalid rank: ${rank}`);
+    return rank.slice(0, length);
+}
+
+export function isValidRank(rank: string): boolean {
+    if (!rank || rank === SMALLEST_INTEGER) return false;
+    try {
+        const integer = integerPart(rank);
+        const fraction = rank.slice(integer.length);
+        return [...rank].every(c => DIGITS.includes(c)) && !fraction.endsWith('0');
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * A string between a and b (b null = no upper bound). Neither may end in '0'.
+ */
+function midpoint(a: string, b: string | null): string {
+    if (b !== null) {
+        // Skip the common prefix; a is padded with zeros
+        let n = 0;
+        while ((a[n] || '0') === b[n]) n++;
+        if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+    const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+    const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+    if (digitB - digitA > 1) {
+        return DIGITS[Math.round((digitA + digitB) / 2)];
+    }
+    // Adjacent digits: the first digit of a longer b is already between
+    if (b !== null && b.length > 1) return b.slice(0, 1);
+    return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function incrementInteger(integer: string): string | null {
+    const [head, ...digits] = integer.split('');
+    for (let i = digits.length - 1; i >= 0; i--) {
+        const digit = DIGITS.indexOf(digits[i]) + 1;
+        if (digit < BASE) {
+            digits[i] = DIGITS[digit];
+            return head + digits.join('');
+        }
+        digits[i] = '0';
+    }
+    // Carried out of every digit: switch to the next length
+    if (head === 'Z') return 'a0';
+    if (head === 'z') return null;
+    const next = String.fromCharCode(head.charCodeAt(0) + 1);
+    if (next > 'a') digits.push('0'); else digits.pop();
+    return next + digits.join('');
+}
+
+function decrementInteger(integer: string): string | null {
+    const [head, ...digits] = integer.split('');
+    for (let i = digits.length - 1; i >= 0; i--) {
+        const digit = DIGITS.indexOf(digits[i]) - 1;
+        if (digit >= 0) {
+            digits[i] = DIGITS[digit];
+            return head + digits.join('');
+        }
+        digits[i] = DIGITS[BASE - 1];
+    }
+    if (head === 'a') return 'Z' + DIGITS[BASE - 1];
+    if (head === 'A') return null;
+    const previous = String.fromCharCode(head.charCodeAt(0) - 1);
+    if (previous < 'Z') digits.push(DIGITS[BASE - 1]); else digits.pop();
+    return previous + digits.join('');
+}
+
+/**
+ * A rank that sorts after `a` and before `b`. Null means no bound on that side.
+ * @throws if a is not below b
+ */
+export function rankBetween(a: string | null, b: string | null): string {
+    if (a !== null && b !== null && a >= b) {
+        throw new Error(`Rank ${a} is not below ${b}`);
+    }
+    if (a === null && b === null) return 'a0';
+    if (a === null) {
+        const integer = integerPart(b!);
+        const fraction = b!.slice(integer.length);
+        if (integer === SMALLEST_INTEGER) return integer + midpoint('', fraction);
+        if (integer < b!) return integer;
+        const decremented = decrementInteger(integer);
+        if (decremented === null) throw new Error('No rank below the smallest one');
+        return decremented;
+    }
+    const integerA = integerPart(a);
+    const fractionA = a.slice(integerA.length);
+    if (b === null) {
+        return incrementInteger(integerA) ?? integerA + midpoint(fractionA, null);
+    }
+    const integerB = integerPart(b);
+    if (integerA === integerB) {
+        return integerA + midpoint(fractionA, b.slice(integerB.length));
+    }
+    const incremented = incrementInteger(integerA);
+    if (incremented !== null && incremented < b) return incremented;
+    return integerA + midpoint(fractionA, null);
+}
+
+/**
+ * `count` ascending ranks between a and b, spread so later inserts stay short
+ */
+export function ranksBetween(a: string | null, b: string | null, count: number): string[] {
+    if (count <= 0) return [];
+    if (count === 1) return [rankBetween(a, b)];
+    if (b === null) {
+        const ranks = [rankBetween(a, null)];
+        while (ranks.length < count) ranks.push(rankBetween(ranks[ranks.length - 1], null));
+        return ranks;
+    }
+    if (a === null) {
+        const ranks = [rankBetween(null, b)];
+        while (ranks.length < count) ranks.unshift(rankBetween(null, ranks[0]));
+        return ranks;
+    }
+    const half = Math.floor(count / 2);
+    const middle = rankBetween(a, b);
+    return [...ranksBetween(a, middle, half), middle, ...ranksBetween(middle, b, count - half - 1)];
+}
+
+/**
+ * Indexes of a longest strictly increasing run of ranks (not necessarily adjacent)
+ */
+function longestIncreasing(ranks: string[]): Set<number> {
+    const tails: number[] = [];
+    const previous: number[] = new Array(ranks.length).fill(-1);
+    ranks.forEach((rank, i) => {
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (ranks[tails[mid]] < rank) low = mid + 1; else high = mid;
+        }
+        previous[i] = low > 0 ? tails[low - 1] : -1;
+        tails[low] = i;
+    });
+    const kept = new Set<number>();
+    for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+        kept.add(i);
+    }
+    return kept;
+}
+
+/**
+ * New ranks that put `items` in the given order, for as few of them as possible:
+ * the longest run already in order keeps its ranks, so moving one item rewrites one.
+ *
+ * The items may be a slice of a longer list (the tasks of one feature in the global
+ * queue). Items that move are placed right before the next item that stays, or right
+ * after the last one, using `below` / `above` to find the nearest rank of any row on
+ * the other side so the new ranks don't collide with rows outside the slice.
+ */
+export function planRerank(
+    items: RankedItem[],
+    below: (rank: string) => string | null,
+    above: (rank: string) => string | null
+): RankedItem[] {
+    const kept = longestIncreasing(items.map(item => item.rank));
+    const changes: RankedItem[] = [];
+    let start = 0;
+    while (start < items.length) {
+        if (kept.has(start)) {
+            start++;
+            continue;
+        }
+        let end = start;
+        while (end < items.length && !kept.has(end)) end++;
+        const run = items.slice(start, end);
+        const ranks = end < items.length
+            ? ranksBetween(below(items[end].rank), items[end].rank, run.length)
+            : ranksBetween(items[start - 1].rank, above(items[start - 1].rank), run.length);
+        run.forEach((item, i) => changes.push({ id: item.id, rank: ranks[i] }));
+        start = end;
+    }
+    return changes;
+}
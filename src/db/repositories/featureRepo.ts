@@ -1,7 +1,9 @@
 import type { SqlValue } from 'sql.js';
 import { v4 as uuid } from 'uuid';
-import { getDatabase, saveDatabase } from '../database';
+import { getDatabase, saveDatabase, transaction } from '../database';
 import { Feature, NewFeature, FeatureStatus } from '../types';
+import { isValidRank, type RankedItem } from '../rank';
+import { nextRank, rerank, setRanks } from './ranking';
 
 function rowToFeature(row: SqlValue[]): Feature {
     return {
@@ -10,19 +12,22 @@ function rowToFeature(row: SqlValue[]): Feature {
         description: row[2] as string | null,
         requirement_path: row[3] as string | null,
         status: (row[4] as FeatureStatus) || 'active',
-        priority: row[5] as number,
+        rank: row[5] as string,
         created_at: row[6] as string,
         updated_at: row[7] as string,
+        milestone_id: (row[8] as string | null) ?? null,
     };
 }
 
 // Explicit column order to ensure correct mapping regardless of migration history
-const FEATURE_COLUMNS = 'id, title, description, requirement_path, status, priority, created_at, updated_at';
+const FEATURE_COLUMNS = 'id, title, description, requirement_path, status, rank, created_at, updated_at, milestone_id';
+// Upsert rather than INSERT OR REPLACE, which would delete the row and ungroup its tasks
+const FEATURE_UPSERT = FEATURE_COLUMNS.split(', ').slice(1).map(c => `${c} = excluded.${c}`).join(', ');
 
 export const FeatureRepo = {
     list(): Feature[] {
         const db = getDatabase();
-        const result = db.exec(`SELECT ${FEATURE_COLUMNS} FROM features ORDER BY priority ASC`);
+        const result = db.exec(`SELECT ${FEATURE_COLUMNS} FROM features ORDER BY rank ASC, id ASC`);
         if (result.length === 0) return [];
         return result[0].values.map(rowToFeature);
     },
@@ -45,16 +50,12 @@ export const FeatureRepo = {
         const id = uuid();
         const now = new Date().toISOString();
 
-        // Get max priority
-        const maxResult = db.exec('SELECT MAX(priority) FROM features');
-        const maxPriority = maxResult.length > 0 && maxResult[0].values[0][0] !== null
-            ? (maxResult[0].values[0][0] as number) + 1
-            : 0;
+        const rank = nextRank('features');
 
         db.run(
-            `INSERT INTO features (id, title, description, requirement_path, status, priority, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [id, data.title, data.description || null, data.requirement_path || null, 'active', maxPriority, now, now]
+            `INSERT INTO features (id, title, description, requirement_path, status, rank, created_at, updated_at, milestone_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, data.title, data.description || null, data.requirement_path || null, 'active', rank, now, now, data.milestone_id || null]
         );
         saveDatabase();
 
@@ -82,9 +83,13 @@ export const FeatureRepo = {
             sets.push('status = ?');
             values.push(data.status);
         }
-        if (data.priority !== undefined) {
-            sets.push('priority = ?');
-            values.push(data.priority);
+        if (data.rank !== undefined) {
+            sets.push('rank = ?');
+            values.push(data.rank);
+        }
+        if (data.milestone_id !== undefined) {
+            sets.push('milestone_id = ?');
+            values.push(data.milestone_id);
         }
 
         if (sets.length === 0) return this.get(id);
@@ -98,19 +103,43 @@ export const FeatureRepo = {
         return this.get(id);
     },
 
-    delete(id: string): void {
+    /**
+     * Re-insert a deleted feature exactly as it was, e.g. when undoing a delete
+     */
+    restore(feature: Feature): Feature {
         const db = getDatabase();
-        // Tasks with this feature_id will have it set to NULL (ON DELETE SET NULL)
-        db.run('DELETE FROM features WHERE id = ?', [id]);
+        const milestoneExists = !!feature.milestone_id && db.exec('SELECT 1 FROM milestones WHERE id = ?', [feature.milestone_id]).length > 0;
+        // Records mirrored by older versions carry a priority instead of a rank
+        const rank = isValidRank(feature.rank ?? '') ? feature.rank : this.get(feature.id)?.rank ?? nextRank('features');
+        db.run(
+            `INSERT INTO features (${FEATURE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET ${FEATURE_UPSERT}`,
+            [feature.id, feature.title, feature.description, feature.requirement_path, feature.status, rank, feature.created_at, feature.updated_at, milestoneExists ? feature.milestone_id : null]
+        );
         saveDatabase();
+
+        return this.get(feature.id)!;
     },
 
-    reorder(ids: string[]): void {
+    delete(id: string): void {
         const db = getDatabase();
-        ids.forEach((id, index) => {
-            db.run('UPDATE features SET priority = ? WHERE id = ?', [index, id]);
+        // Ungroup the tasks explicitly: ON DELETE SET NULL only applies where foreign keys are enforced,
+        // and this also stamps updated_at so the backlog mirror picks the change up
+        transaction(() => {
+            db.run("UPDATE tasks SET feature_id = NULL, updated_at = datetime('now') WHERE feature_id = ?", [id]);
+            db.run('DELETE FROM features WHERE id = ?', [id]);
         });
-        saveDatabase();
+    },
+
+    /**
+     * Put features in the given order; only the ones that move get a new rank
+     */
+    reorder(ids: string[]): void {
+        rerank('features', ids);
+    },
+
+    setRanks(ranks: RankedItem[]): void {
+        setRanks('features', ranks);
     },
 
     /**
@@ -119,19 +148,20 @@ export const FeatureRepo = {
     markDone(id: string): Feature | null {
         const db = getDatabase();
 
-        // Mark all tasks in this feature as done
-        db.run(
-            "UPDATE tasks SET status = 'done', updated_at = datetime('now') WHERE feature_id = ?",
-            [id]
-        );
-
-        // Mark the feature as done
-        db.run(
-            "UPDATE features SET status = 'done', updated_at = datetime('now') WHERE id = ?",
-            [id]
-        );
+        transaction(() => {
+            // Mark all tasks in this feature as done
+            db.run(
+                "UPDATE tasks SET status = 'done', updated_at = datetime('now') WHERE feature_id = ?",
+                [id]
+            );
+
+            // Mark the feature as done
+            db.run(
+                "UPDATE features SET status = 'done', updated_at = datetime('now') WHERE id = ?",
+                [id]
+            );
+        });
 
-        saveDatabase();
         return this.get(id);
     },
 };
@@ -1,4 +1,12 @@
 export { ProjectRepo } from './projectRepo';
 export { FeatureRepo } from './featureRepo';
+export { MilestoneRepo } from './milestoneRepo';
 export { TaskRepo } from './taskRepo';
 export { SessionRepo } from './sessionRepo';
+export { TaskEventRepo } from './taskEventRepo';
+export { TaskDependencyRepo } from './taskDependencyRepo';
+export { TaskCommentRepo } from './taskCommentRepo';
+export { TaskCommitRepo } from './taskCommitRepo';
+export { TaskLocationRepo } from './taskLocationRepo';
+export { SearchRepo, SEARCH_MATCH_START, SEARCH_MATCH_END } from './searchRepo';
+export { IntegrityRepo } from './integrityRepo';
@@ -0,0 +1,92 @@
+import { getDatabase, saveDatabase } from '../database';
+import { ForeignKeyViolation, RankCollision } from '../types';
+import { ranksBetween } from '../rank';
+import { rankAbove, setRanks, type RankedTable } from './ranking';
+
+// Tables whose rows can be reported and repaired, with the column that identifies a row to the user
+const ROW_IDS: Record<string, string> = {
+    tasks: 'id',
+    features: 'id',
+    task_criteria: 'task_id',
+    task_comments: 'task_id',
+    task_dependencies: 'task_id',
+    task_commits: 'task_id',
+    task_locations: 'task_id',
+};
+
+// Optional references are cleared when they dangle; rows of per-task tables are deleted instead
+const NULLABLE_REFERENCES = ['tasks.feature_id', 'features.milestone_id'];
+
+export const IntegrityRepo = {
+    /**
+     * Rows pointing at deleted parents. Works whether or not foreign keys are enforced.
+     */
+    foreignKeyViolations(): ForeignKeyViolation[] {
+        const db = getDatabase();
+        const result = db.exec('PRAGMA foreign_key_check');
+        if (result.length === 0) return [];
+        return result[0].values.flatMap(([table, rowid, parent, fkid]) => {
+            const name = table as string;
+            if (!ROW_IDS[name]) return [];
+            const keys = db.exec(`PRAGMA foreign_key_list(${name})`);
+            // Columns: id, seq, table, from, to, on_update, on_delete, match
+            const key = keys[0]?.values.find(row => row[0] === fkid);
+            if (!key) return [];
+            const column = key[3] as string;
+            const row = db.exec(`SELECT ${ROW_IDS[name]}, ${column} FROM ${name} WHERE rowid = ?`, [rowid as number]);
+            const [rowId, value] = row[0]?.values[0] ?? [null, null];
+            return [{
+                table: name,
+                rowid: rowid as number,
+                column,
+                parent: parent as string,
+                value: value as string | null,
+                row_id: rowId as string | null,
+            }];
+        });
+    },
+
+    /**
+     * Ranks used by more than one row. Two clones appending at the same time pick the same
+     * rank, so ties can arrive through the backlog mirror; their order is then arbitrary.
+     */
+    rankCollisions(): RankCollision[] {
+        const db = getDatabase();
+        return (['tasks', 'features'] as const).flatMap(table => {
+            const result = db.exec(`SELECT rank, group_concat(id) FROM ${table} GROUP BY rank HAVING COUNT(*) > 1`);
+            return result[0]?.values.map(row => ({
+                table,
+                rank: row[0] as string,
+                ids: (row[1] as string).split(','),
+            })) ?? [];
+        });
+    },
+
+    /**
+     * Clear a dangling optional reference, or delete a per-task row whose task is gone
+     */
+    repairViolation(violation: ForeignKeyViolation): void {
+        const db = getDatabase();
+        if (!ROW_IDS[violation.table]) return;
+        if (NULLABLE_REFERENCES.includes(`${violation.table}.${violation.column}`)) {
+            db.run(
+                `UPDATE ${violation.table} SET ${violation.column} = NULL, updated_at = datetime('now') WHERE rowid = ?`,
+                [violation.rowid]
+            );
+        } else {
+            db.run(`DELETE FROM ${violation.table} WHERE rowid = ?`, [violation.rowid]);
+        }
+        saveDatabase();
+    },
+
+    /**
+     * Give rows tied on a rank their own ranks right where they are, oldest first
+     */
+    spreadTies(table: RankedTable, rank: string): void {
+        const db = getDatabase();
+        const result = db.exec(`SELECT id FROM ${table} WHERE rank = ? ORDER BY created_at ASC, id ASC`, [rank]);
+        const [, ...later] = result[0]?.values.map(row => row[0] as string) ?? [];
+        const ranks = ranksBetween(rank, rankAbove(table, rank), later.length);
+        setRanks(table, later.map((id, i) => ({ id, rank: ranks[i] })));
+    },
+};
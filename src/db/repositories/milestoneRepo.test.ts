@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase, closeDatabase } from '../database';
+import { MilestoneRepo } from './milestoneRepo';
+import { FeatureRepo } from './featureRepo';
+
+let root: string;
+
+beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-milestones-'));
+    await initDatabase(root);
+});
+
+afterEach(() => {
+    closeDatabase();
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('MilestoneRepo', () => {
+    it('unassigns the features of a deleted milestone and stamps them for the mirror', () => {
+        const milestone = MilestoneRepo.create({ title: '1.0' });
+        const stale = '2020-01-01T00:00:00.000Z';
+        const assigned = FeatureRepo.restore({ ...FeatureRepo.create({ title: 'Login' }), milestone_id: milestone.id, updated_at: stale });
+        const other = FeatureRepo.restore({ ...FeatureRepo.create({ title: 'Search' }), updated_at: stale });
+
+        MilestoneRepo.delete(milestone.id);
+
+        expect(MilestoneRepo.get(milestone.id)).toBeNull();
+        expect(FeatureRepo.get(assigned.id)?.milestone_id).toBeNull();
+        expect(FeatureRepo.get(assigned.id)?.updated_at).not.toBe(stale);
+        expect(FeatureRepo.get(other.id)?.updated_at).toBe(stale);
+    });
+
+    it('restores a deleted milestone as it was', () => {
+        const milestone = MilestoneRepo.update(MilestoneRepo.create({ title: '1.0', target_date: '2025-06-01' }).id, { status: 'released' })!;
+        MilestoneRepo.delete(milestone.id);
+
+        expect(MilestoneRepo.restore(milestone)).toEqual(milestone);
+        expect(MilestoneRepo.list()).toEqual([milestone]);
+    });
+});
@@ -0,0 +1,121 @@
+import type { SqlValue } from 'sql.js';
+import { v4 as uuid } from 'uuid';
+import { getDatabase, saveDatabase, transaction } from '../database';
+import { Milestone, NewMilestone, MilestoneStatus } from '../types';
+
+function rowToMilestone(row: SqlValue[]): Milestone {
+    return {
+        id: row[0] as string,
+        title: row[1] as string,
+        description: row[2] as string | null,
+        target_date: row[3] as string | null,
+        status: (row[4] as MilestoneStatus) || 'open',
+        created_at: row[5] as string,
+        updated_at: row[6] as string,
+    };
+}
+
+const MILESTONE_COLUMNS = 'id, title, description, target_date, status, created_at, updated_at';
+// Upsert rather than INSERT OR REPLACE, which would delete the row and unassign its features
+const MILESTONE_UPSERT = MILESTONE_COLUMNS.split(', ').slice(1).map(c => `${c} = excluded.${c}`).join(', ');
+
+export const MilestoneRepo = {
+    /**
+     * Milestones by target date, undated ones last
+     */
+    list(): Milestone[] {
+        const db = getDatabase();
+        const result = db.exec(
+            `SELECT ${MILESTONE_COLUMNS} FROM milestones ORDER BY target_date IS NULL, target_date ASC, created_at ASC`
+        );
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToMilestone);
+    },
+
+    get(id: string): Milestone | null {
+        const db = getDatabase();
+        const stmt = db.prepare(`SELECT ${MILESTONE_COLUMNS} FROM milestones WHERE id = ?`);
+        stmt.bind([id]);
+        if (stmt.step()) {
+            const row = stmt.get();
+            stmt.free();
+            return rowToMilestone(row);
+        }
+        stmt.free();
+        return null;
+    },
+
+    create(data: NewMilestone): Milestone {
+        const db = getDatabase();
+        const id = uuid();
+        const now = new Date().toISOString();
+
+        db.run(
+            `INSERT INTO milestones (${MILESTONE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, data.title, data.description || null, data.target_date || null, 'open', now, now]
+        );
+        saveDatabase();
+
+        return this.get(id)!;
+    },
+
+    update(id: string, data: Partial<Omit<Milestone, 'id' | 'created_at'>>): Milestone | null {
+        const db = getDatabase();
+        const sets: string[] = [];
+        const values: SqlValue[] = [];
+
+        if (data.title !== undefined) {
+            sets.push('title = ?');
+            values.push(data.title);
+        }
+        if (data.description !== undefined) {
+            sets.push('description = ?');
+            values.push(data.description);
+        }
+        if (data.target_date !== undefined) {
+            sets.push('target_date = ?');
+            values.push(data.target_date || null);
+        }
+        if (data.status !== undefined) {
+            sets.push('status = ?');
+            values.push(data.status);
+        }
+
+        if (sets.length === 0) return this.get(id);
+
+        sets.push("updated_at = datetime('now')");
+        values.push(id);
+
+        db.run(`UPDATE milestones SET ${sets.join(', ')} WHERE id = ?`, values);
+        saveDatabase();
+
+        return this.get(id);
+    },
+
+    /**
+     * Re-insert a deleted milestone exactly as it was, e.g. when undoing a delete
+     */
+    restore(milestone: Milestone): Milestone {
+        const db = getDatabase();
+        db.run(
+            `INSERT INTO milestones (${MILESTONE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET ${MILESTONE_UPSERT}`,
+            [milestone.id, milestone.title, milestone.description, milestone.target_date, milestone.status, milestone.created_at, milestone.updated_at]
+        );
+        saveDatabase();
+
+        return this.get(milestone.id)!;
+    },
+
+    /**
+     * Delete a milestone. Its features stay on the board without a milestone.
+     */
+    delete(id: string): void {
+        const db = getDatabase();
+        // Unassign explicitly rather than via ON DELETE SET NULL, so updated_at is stamped for the backlog mirror
+        transaction(() => {
+            db.run("UPDATE features SET milestone_id = NULL, updated_at = datetime('now') WHERE milestone_id = ?", [id]);
+            db.run('DELETE FROM milestones WHERE id = ?', [id]);
+        });
+    },
+};
@@ -48,4 +48,19 @@ export const ProjectRepo = {
 
         return this.get()!;
     },
+
+    /**
+     * Overwrite the project row with a copy from elsewhere (e.g. the backlog mirror), keeping its timestamps
+     */
+    restore(project: Project): Project {
+        const db = getDatabase();
+        db.run(
+            `INSERT OR REPLACE INTO project (id, title, description, requirement_path, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [project.id, project.title, project.description, project.requirement_path, project.created_at, project.updated_at]
+        );
+        saveDatabase();
+
+        return this.get()!;
+    },
 };
@@ -0,0 +1,54 @@
+import { getDatabase, transaction } from '../database';
+import { rankBetween, planRerank, type RankedItem } from '../rank';
+
+// Tables ordered by a `rank` column
+export type RankedTable = 'tasks' | 'features';
+
+function firstValue(sql: string, params: string[] = []): string | null {
+    const result = getDatabase().exec(sql, params);
+    return (result[0]?.values[0]?.[0] as string | null | undefined) ?? null;
+}
+
+export function lastRank(table: RankedTable): string | null {
+    return firstValue(`SELECT MAX(rank) FROM ${table}`);
+}
+
+/**
+ * Rank for a row added at the end
+ */
+export function nextRank(table: RankedTable): string {
+    return rankBetween(lastRank(table), null);
+}
+
+export function rankBelow(table: RankedTable, rank: string): string | null {
+    return firstValue(`SELECT MAX(rank) FROM ${table} WHERE rank < ?`, [rank]);
+}
+
+export function rankAbove(table: RankedTable, rank: string): string | null {
+    return firstValue(`SELECT MIN(rank) FROM ${table} WHERE rank > ?`, [rank]);
+}
+
+/**
+ * Put the rows in the given order, rewriting as few ranks as possible. Unknown ids are skipped.
+ * Only rows that actually move get a new updated_at, which the backlog mirror merges on.
+ */
+export function rerank(table: RankedTable, ids: string[]): void {
+    const items = ids.flatMap(id => {
+        const rank = firstValue(`SELECT rank FROM ${table} WHERE id = ?`, [id]);
+        return rank === null ? [] : [{ id, rank }];
+    });
+    const changes = planRerank(items, rank => rankBelow(table, rank), rank => rankAbove(table, rank));
+    setRanks(table, changes);
+}
+
+/**
+ * Write ranks back as they were, e.g. when undoing a reorder
+ */
+export function setRanks(table: RankedTable, items: RankedItem[]): void {
+    const db = getDatabase();
+    transaction(() => {
+        items.forEach(({ id, rank }) => {
+            db.run(`UPDATE ${table} SET rank = ?, updated_at = datetime('now') WHERE id = ? AND rank != ?`, [rank, id, rank]);
+        });
+    });
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase, getDatabase, closeDatabase } from '../database';
+import { buildMatchQuery, SearchRepo, SEARCH_MATCH_START, SEARCH_MATCH_END } from './searchRepo';
+import { TaskRepo } from './taskRepo';
+import { FeatureRepo } from './featureRepo';
+
+describe('buildMatchQuery', () => {
+    it('turns words into prefix terms that must all match', () => {
+        expect(buildMatchQuery('Login  redirect')).toBe('login* redirect*');
+        expect(buildMatchQuery('café')).toBe('café*');
+    });
+
+    it('drops FTS syntax from user input', () => {
+        expect(buildMatchQuery('"fix" OR (NEAR -bug*)')).toBe('fix* or* near* bug*');
+        expect(buildMatchQuery('  ?! ')).toBeNull();
+    });
+});
+
+describe('SearchRepo', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-search-'));
+        await initDatabase(root);
+    });
+
+    afterEach(() => {
+        closeDatabase();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    const found = (query: string) => SearchRepo.search(query).map(r => [r.kind, r.id]);
+
+    function indexSize(): number {
+        return getDatabase().exec('SELECT COUNT(*) FROM search_index')[0].values[0][0] as number;
+    }
+
+    it('finds tasks, features and requirement docs, title hits first', () => {
+        const feature = FeatureRepo.create({ title: 'Checkout', description: 'Pay for the cart' });
+        const task = TaskRepo.create({ feature_id: feature.id, title: 'Show the cart total', description: 'Sum the checkout lines' });
+        SearchRepo.updateDocuments([{ path: 'docs/requirements/checkout.md', title: 'Checkout flow', body: 'The cart is paid in one step', stamp: '1' }], []);
+
+        expect(found('checkout')).toEqual([
+            ['feature', feature.id],
+            ['requirement', 'docs/requirements/checkout.md'],
+            ['task', task.id],
+        ]);
+        const [hit] = SearchRepo.search('total');
+        expect(hit).toMatchObject({ id: task.id, status: 'todo', feature_id: feature.id, archived: false });
+        expect(hit.title).toBe(`Show the cart ${SEARCH_MATCH_START}total${SEARCH_MATCH_END}`);
+        expect(SearchRepo.getDocumentStamps()).toEqual(new Map([['docs/requirements/checkout.md', '1']]));
+    });
+
+    it('keeps the index in step with edits, restores and deletes', () => {
+        const task = TaskRepo.create({ title: 'Draft release notes' });
+        const feature = FeatureRepo.create({ title: 'Onboarding' });
+
+        TaskRepo.update(task.id, { title: 'Publish release notes' });
+        expect(found('draft')).toEqual([]);
+        expect(found('publish')).toEqual([['task', task.id]]);
+
+        // Restoring over the existing row replaces its entry rather than adding one
+        TaskRepo.restore({ ...TaskRepo.get(task.id)!, title: 'Archive release notes' });
+        expect(found('release')).toEqual([['task', task.id]]);
+        expect(indexSize()).toBe(2);
+
+        TaskRepo.delete(task.id);
+        FeatureRepo.delete(feature.id);
+        expect(found('release')).toEqual([]);
+        expect(found('onboarding')).toEqual([]);
+        expect(indexSize()).toBe(0);
+    });
+
+    it('replaces changed requirement docs and drops removed ones', () => {
+        const doc = { path: 'docs/requirements/login.md', title: 'Login', body: 'Password sign-in', stamp: '1' };
+        SearchRepo.updateDocuments([doc, { ...doc, path: 'docs/requirements/old.md', title: 'Old' }], []);
+        SearchRepo.updateDocuments([{ ...doc, body: 'Passkey sign-in', stamp: '2' }], ['docs/requirements/old.md']);
+
+        expect(found('password')).toEqual([]);
+        expect(found('passkey')).toEqual([['requirement', doc.path]]);
+        expect(SearchRepo.getDocumentStamps()).toEqual(new Map([[doc.path, '2']]));
+        expect(indexSize()).toBe(1);
+    });
+});
@@ -0,0 +1,108 @@
+import { getDatabase, transaction } from '../database';
+import { SearchResult, SearchResultKind, SearchDocument } from '../types';
+
+// Private-use control characters that can't clash with task text or markdown
+export const SEARCH_MATCH_START = '\u0002';
+export const SEARCH_MATCH_END = '\u0003';
+
+const MAX_TERMS = 8;
+const DEFAULT_LIMIT = 50;
+
+const KIND_ORDER: Record<SearchResultKind, number> = { task: 0, feature: 1, requirement: 2 };
+
+/**
+ * Turn free text into an FTS query: every word must match, each as a prefix.
+ * Punctuation and FTS operators are dropped so user input can't cause a syntax error.
+ * Returns null when there is nothing to search for.
+ */
+export function buildMatchQuery(input: string): string | null {
+    // Lowercase so AND/OR/NOT/NEAR are plain words
+    const terms = input.toLowerCase().match(/[\p{L}\p{N}_]+/gu);
+    if (!terms) return null;
+    return terms.slice(0, MAX_TERMS).map(term => `${term}*`).join(' ');
+}
+
+function countMatches(text: string): number {
+    return text.split(SEARCH_MATCH_START).length - 1;
+}
+
+export const SearchRepo = {
+    /**
+     * Search task and feature titles and descriptions and indexed requirement docs.
+     * Title hits rank first; archived tasks are left out unless include_archived is set.
+     */
+    search(query: string, options: { include_archived?: boolean; limit?: number } = {}): SearchResult[] {
+        const match = buildMatchQuery(query);
+        if (!match) return [];
+
+        const db = getDatabase();
+        const result = db.exec(
+            `SELECT search_index.kind, search_index.ref_id,
+                    snippet(search_index, ?, ?, '…', 2, 64),
+                    snippet(search_index, ?, ?, '…', 3, 16),
+                    COALESCE(tasks.status, features.status), tasks.feature_id, tasks.archived_at
+             FROM search_index
+             LEFT JOIN tasks ON search_index.kind = 'task' AND tasks.id = search_index.ref_id
+             LEFT JOIN features ON search_index.kind = 'feature' AND features.id = search_index.ref_id
+             WHERE search_index MATCH ?`,
+            [SEARCH_MATCH_START, SEARCH_MATCH_END, SEARCH_MATCH_START, SEARCH_MATCH_END, match]
+        );
+        if (result.length === 0) return [];
+
+        return result[0].values
+            .map((row): SearchResult => ({
+                kind: row[0] as SearchResultKind,
+                id: row[1] as string,
+                title: row[2] as string,
+                snippet: row[3] as string,
+                status: row[4] as string | null,
+                feature_id: row[5] as string | null,
+                archived: row[6] !== null,
+            }))
+            .filter(r => options.include_archived || !r.archived)
+            .sort((a, b) =>
+                countMatches(b.title) - countMatches(a.title)
+                || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]
+                || countMatches(b.snippet) - countMatches(a.snippet))
+            .slice(0, options.limit ?? DEFAULT_LIMIT);
+    },
+
+    /**
+     * Path -> stamp of the requirement docs currently in the index
+     */
+    getDocumentStamps(): Map<string, string> {
+        const db = getDatabase();
+        const result = db.exec(
+            `SELECT search_refs.ref_id, search_index.stamp FROM search_refs
+             JOIN search_index ON search_index.docid = search_refs.docid
+             WHERE search_refs.kind = 'requirement'`
+        );
+        if (result.length === 0) return new Map();
+        return new Map(result[0].values.map(row => [row[0] as string, row[1] as string]));
+    },
+
+    /**
+     * (Re)index changed requirement docs and drop the ones that no longer exist
+     */
+    updateDocuments(changed: SearchDocument[], removedPaths: string[]): void {
+        if (changed.length === 0 && removedPaths.length === 0) return;
+        const db = getDatabase();
+        transaction(() => {
+            [...removedPaths, ...changed.map(d => d.path)].forEach(docPath => {
+                db.run(
+                    "DELETE FROM search_index WHERE docid = (SELECT docid FROM search_refs WHERE kind = 'requirement' AND ref_id = ?)",
+                    [docPath]
+                );
+                db.run("DELETE FROM search_refs WHERE kind = 'requirement' AND ref_id = ?", [docPath]);
+            });
+            changed.forEach(d => {
+                db.run("INSERT INTO search_refs (kind, ref_id) VALUES ('requirement', ?)", [d.path]);
+                db.run(
+                    `INSERT INTO search_index (docid, kind, ref_id, title, body, stamp)
+                     VALUES (last_insert_rowid(), 'requirement', ?, ?, ?, ?)`,
+                    [d.path, d.title, d.body, d.stamp]
+                );
+            });
+        });
+    },
+};
@@ -13,6 +13,7 @@ function rowToSession(row: SqlValue[]): RequirementSession {
         proposed_output: row[5] as string | null,
         created_at: row[6] as string,
         updated_at: row[7] as string,
+        rejected_proposals: row[8] as string | null,
     };
 }
 
@@ -30,6 +31,16 @@ export const SessionRepo = {
         return null;
     },
 
+    /**
+     * Every session, most recently touched first
+     */
+    list(): RequirementSession[] {
+        const db = getDatabase();
+        const result = db.exec('SELECT * FROM requirement_sessions ORDER BY updated_at DESC');
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToSession);
+    },
+
     getActive(): RequirementSession[] {
         const db = getDatabase();
         const result = db.exec("SELECT * FROM requirement_sessions WHERE status != 'complete' ORDER BY updated_at DESC");
@@ -69,6 +80,10 @@ export const SessionRepo = {
             sets.push('proposed_output = ?');
             values.push(data.proposed_output);
         }
+        if (data.rejected_proposals !== undefined) {
+            sets.push('rejected_proposals = ?');
+            values.push(data.rejected_proposals);
+        }
 
         if (sets.length === 0) return this.get(id);
 
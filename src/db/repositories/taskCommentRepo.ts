@@ -0,0 +1,72 @@
+import type { SqlValue } from 'sql.js';
+import { v4 as uuid } from 'uuid';
+import { getDatabase, saveDatabase, transaction } from '../database';
+import { TaskComment, NewTaskComment, CommentAuthor, CommentKind } from '../types';
+
+function rowToComment(row: SqlValue[]): TaskComment {
+    return {
+        id: row[0] as string,
+        task_id: row[1] as string,
+        author: row[2] as CommentAuthor,
+        kind: row[3] as CommentKind,
+        body: row[4] as string,
+        created_at: row[5] as string,
+        updated_at: row[6] as string,
+    };
+}
+
+const COMMENT_COLUMNS = 'id, task_id, author, kind, body, created_at, updated_at';
+
+export const TaskCommentRepo = {
+    list(taskId?: string): TaskComment[] {
+        const db = getDatabase();
+        const result = taskId
+            ? db.exec(`SELECT ${COMMENT_COLUMNS} FROM task_comments WHERE task_id = ? ORDER BY created_at ASC, rowid ASC`, [taskId])
+            : db.exec(`SELECT ${COMMENT_COLUMNS} FROM task_comments ORDER BY created_at ASC, rowid ASC`);
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToComment);
+    },
+
+    create(taskId: string, data: NewTaskComment): TaskComment {
+        const db = getDatabase();
+        const id = uuid();
+        const now = new Date().toISOString();
+
+        db.run(
+            `INSERT INTO task_comments (${COMMENT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, taskId, data.author, data.kind || 'note', data.body, now, now]
+        );
+        saveDatabase();
+
+        return {
+            id,
+            task_id: taskId,
+            author: data.author,
+            kind: data.kind || 'note',
+            body: data.body,
+            created_at: now,
+            updated_at: now,
+        };
+    },
+
+    /**
+     * Re-insert previously deleted comments, keeping their ids and timestamps
+     */
+    restore(comments: TaskComment[]): void {
+        const db = getDatabase();
+        transaction(() => {
+            comments.forEach(c => {
+                db.run(
+                    `INSERT OR REPLACE INTO task_comments (${COMMENT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                    [c.id, c.task_id, c.author, c.kind, c.body, c.created_at, c.updated_at]
+                );
+            });
+        });
+    },
+
+    deleteForTask(taskId: string): void {
+        const db = getDatabase();
+        db.run('DELETE FROM task_comments WHERE task_id = ?', [taskId]);
+        saveDatabase();
+    },
+};
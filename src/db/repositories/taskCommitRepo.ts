@@ -0,0 +1,57 @@
+import type { SqlValue } from 'sql.js';
+import { getDatabase, saveDatabase, transaction } from '../database';
+import { TaskCommit } from '../types';
+
+function rowToCommit(row: SqlValue[]): TaskCommit {
+    return {
+        task_id: row[0] as string,
+        sha: row[1] as string,
+        subject: row[2] as string,
+        author: row[3] as string,
+        branch: row[4] as string | null,
+        committed_at: row[5] as string,
+        created_at: row[6] as string,
+    };
+}
+
+const COMMIT_COLUMNS = 'task_id, sha, subject, author, branch, committed_at, created_at';
+
+export const TaskCommitRepo = {
+    /**
+     * Linked commits, newest first
+     */
+    list(taskId?: string): TaskCommit[] {
+        const db = getDatabase();
+        const result = taskId
+            ? db.exec(`SELECT ${COMMIT_COLUMNS} FROM task_commits WHERE task_id = ? ORDER BY committed_at DESC, rowid DESC`, [taskId])
+            : db.exec(`SELECT ${COMMIT_COLUMNS} FROM task_commits ORDER BY committed_at DESC, rowid DESC`);
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToCommit);
+    },
+
+    /**
+     * Store commit links. A commit already linked to the same task keeps its original link;
+     * `restore` replaces instead, e.g. when undoing a task delete.
+     */
+    add(commits: TaskCommit[], replace = false): void {
+        const db = getDatabase();
+        transaction(() => {
+            commits.forEach(c => {
+                db.run(
+                    `INSERT OR ${replace ? 'REPLACE' : 'IGNORE'} INTO task_commits (${COMMIT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                    [c.task_id, c.sha, c.subject, c.author, c.branch, c.committed_at, c.created_at]
+                );
+            });
+        });
+    },
+
+    restore(commits: TaskCommit[]): void {
+        this.add(commits, true);
+    },
+
+    deleteForTask(taskId: string): void {
+        const db = getDatabase();
+        db.run('DELETE FROM task_commits WHERE task_id = ?', [taskId]);
+        saveDatabase();
+    },
+};
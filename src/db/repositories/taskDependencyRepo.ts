@@ -0,0 +1,59 @@
+import type { SqlValue } from 'sql.js';
+import { getDatabase, saveDatabase, transaction } from '../database';
+import { TaskDependency } from '../types';
+
+function rowToDependency(row: SqlValue[]): TaskDependency {
+    return {
+        task_id: row[0] as string,
+        blocked_by_id: row[1] as string,
+        created_at: row[2] as string,
+    };
+}
+
+export const TaskDependencyRepo = {
+    list(): TaskDependency[] {
+        const db = getDatabase();
+        const result = db.exec('SELECT task_id, blocked_by_id, created_at FROM task_dependencies ORDER BY created_at ASC');
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToDependency);
+    },
+
+    add(taskId: string, blockedById: string): void {
+        const db = getDatabase();
+        db.run(
+            'INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id, created_at) VALUES (?, ?, ?)',
+            [taskId, blockedById, new Date().toISOString()]
+        );
+        saveDatabase();
+    },
+
+    /**
+     * Re-insert previously removed dependencies, keeping their timestamps
+     */
+    restore(dependencies: TaskDependency[]): void {
+        const db = getDatabase();
+        transaction(() => {
+            dependencies.forEach(d => {
+                db.run(
+                    'INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id, created_at) VALUES (?, ?, ?)',
+                    [d.task_id, d.blocked_by_id, d.created_at]
+                );
+            });
+        });
+    },
+
+    remove(taskId: string, blockedById: string): void {
+        const db = getDatabase();
+        db.run('DELETE FROM task_dependencies WHERE task_id = ? AND blocked_by_id = ?', [taskId, blockedById]);
+        saveDatabase();
+    },
+
+    /**
+     * Remove every dependency a task participates in (either side), before the task itself is deleted
+     */
+    removeAllForTask(taskId: string): void {
+        const db = getDatabase();
+        db.run('DELETE FROM task_dependencies WHERE task_id = ? OR blocked_by_id = ?', [taskId, taskId]);
+        saveDatabase();
+    },
+};
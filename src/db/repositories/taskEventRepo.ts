@@ -0,0 +1,99 @@
+import type { SqlValue } from 'sql.js';
+import { v4 as uuid } from 'uuid';
+import { getDatabase, saveDatabase } from '../database';
+import { TaskEvent, TaskEventType, ChangeActor, ChangeSource, ChangeOrigin } from '../types';
+
+function rowToEvent(row: SqlValue[]): TaskEvent {
+    return {
+        id: row[0] as string,
+        task_id: row[1] as string,
+        event: row[2] as TaskEventType,
+        from_value: row[3] as string | null,
+        to_value: row[4] as string | null,
+        changes: row[5] ? JSON.parse(row[5] as string) : null,
+        actor: row[6] as ChangeActor,
+        source: row[7] as ChangeSource,
+        created_at: row[8] as string,
+    };
+}
+
+const EVENT_COLUMNS = 'id, task_id, event, from_value, to_value, changes, actor, source, created_at';
+
+export interface NewTaskEvent {
+    task_id: string;
+    event: TaskEventType;
+    from_value?: string | null;
+    to_value?: string | null;
+    changes?: TaskEvent['changes'];
+}
+
+export const TaskEventRepo = {
+    listForTask(taskId: string): TaskEvent[] {
+        const db = getDatabase();
+        const result = db.exec(
+            `SELECT ${EVENT_COLUMNS} FROM task_events WHERE task_id = ? ORDER BY created_at ASC, rowid ASC`,
+            [taskId]
+        );
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToEvent);
+    },
+
+    /**
+     * Every transition into the given status, across all tasks (including deleted ones), oldest first
+     */
+    listStatusChanges(toStatus: string): TaskEvent[] {
+        const db = getDatabase();
+        const result = db.exec(
+            `SELECT ${EVENT_COLUMNS} FROM task_events WHERE event = 'status_changed' AND to_value = ? ORDER BY created_at ASC, rowid ASC`,
+            [toStatus]
+        );
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToEvent);
+    },
+
+    /**
+     * Creation and status change events of every task, oldest first
+     */
+    listStatusHistory(): TaskEvent[] {
+        const db = getDatabase();
+        const result = db.exec(
+            `SELECT ${EVENT_COLUMNS} FROM task_events WHERE event IN ('created', 'status_changed') ORDER BY created_at ASC, rowid ASC`
+        );
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToEvent);
+    },
+
+    record(data: NewTaskEvent, origin: ChangeOrigin): TaskEvent {
+        const db = getDatabase();
+        const id = uuid();
+        const now = new Date().toISOString();
+
+        db.run(
+            `INSERT INTO task_events (${EVENT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                id,
+                data.task_id,
+                data.event,
+                data.from_value ?? null,
+                data.to_value ?? null,
+                data.changes ? JSON.stringify(data.changes) : null,
+                origin.actor,
+                origin.source,
+                now,
+            ]
+        );
+        saveDatabase();
+
+        return {
+            id,
+            task_id: data.task_id,
+            event: data.event,
+            from_value: data.from_value ?? null,
+            to_value: data.to_value ?? null,
+            changes: data.changes ?? null,
+            actor: origin.actor,
+            source: origin.source,
+            created_at: now,
+        };
+    },
+};
@@ -0,0 +1,80 @@
+import type { SqlValue } from 'sql.js';
+import { v4 as uuid } from 'uuid';
+import { getDatabase, saveDatabase, transaction } from '../database';
+import { TaskLocation, NewTaskLocation } from '../types';
+
+function rowToLocation(row: SqlValue[]): TaskLocation {
+    return {
+        id: row[0] as string,
+        task_id: row[1] as string,
+        path: row[2] as string,
+        start_line: row[3] as number,
+        end_line: row[4] as number,
+        created_at: row[5] as string,
+    };
+}
+
+const LOCATION_COLUMNS = 'id, task_id, path, start_line, end_line, created_at';
+
+export const TaskLocationRepo = {
+    list(taskId?: string): TaskLocation[] {
+        const db = getDatabase();
+        const result = taskId
+            ? db.exec(`SELECT ${LOCATION_COLUMNS} FROM task_locations WHERE task_id = ? ORDER BY created_at ASC, rowid ASC`, [taskId])
+            : db.exec(`SELECT ${LOCATION_COLUMNS} FROM task_locations ORDER BY created_at ASC, rowid ASC`);
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToLocation);
+    },
+
+    get(id: string): TaskLocation | null {
+        const db = getDatabase();
+        const result = db.exec(`SELECT ${LOCATION_COLUMNS} FROM task_locations WHERE id = ?`, [id]);
+        if (result.length === 0 || result[0].values.length === 0) return null;
+        return rowToLocation(result[0].values[0]);
+    },
+
+    create(taskId: string, data: NewTaskLocation): TaskLocation {
+        const db = getDatabase();
+        const location: TaskLocation = {
+            id: uuid(),
+            task_id: taskId,
+            path: data.path,
+            start_line: data.start_line,
+            end_line: data.end_line,
+            created_at: new Date().toISOString(),
+        };
+        db.run(
+            `INSERT INTO task_locations (${LOCATION_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?)`,
+            [location.id, location.task_id, location.path, location.start_line, location.end_line, location.created_at]
+        );
+        saveDatabase();
+        return location;
+    },
+
+    /**
+     * Re-insert previously deleted locations, keeping their ids and timestamps
+     */
+    restore(locations: TaskLocation[]): void {
+        const db = getDatabase();
+        transaction(() => {
+            locations.forEach(l => {
+                db.run(
+                    `INSERT OR REPLACE INTO task_locations (${LOCATION_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?)`,
+                    [l.id, l.task_id, l.path, l.start_line, l.end_line, l.created_at]
+                );
+            });
+        });
+    },
+
+    delete(id: string): void {
+        const db = getDatabase();
+        db.run('DELETE FROM task_locations WHERE id = ?', [id]);
+        saveDatabase();
+    },
+
+    deleteForTask(taskId: string): void {
+        const db = getDatabase();
+        db.run('DELETE FROM task_locations WHERE task_id = ?', [taskId]);
+        saveDatabase();
+    },
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase, closeDatabase } from '../database';
+import { TaskRepo } from './taskRepo';
+import { FeatureRepo } from './featureRepo';
+
+let root: string;
+
+beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-tasks-'));
+    await initDatabase(root);
+});
+
+afterEach(() => {
+    closeDatabase();
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('TaskRepo with features', () => {
+    it('returns every task field next to the linked feature', () => {
+        const feature = FeatureRepo.create({ title: 'Checkout' });
+        const bug = TaskRepo.create({
+            feature_id: feature.id,
+            type: 'bug',
+            title: 'Total is off by one',
+            estimate: 3,
+            severity: 'high',
+            repro_steps: 'Add two items',
+            expected_result: '2',
+            actual_result: '3',
+            environment: 'Safari 17',
+        });
+        const ungrouped = TaskRepo.create({ title: 'Write docs', estimate: 1 });
+
+        const withFeature = TaskRepo.getWithFeature(bug.id)!;
+        expect(withFeature).toEqual({ ...TaskRepo.get(bug.id), feature: { id: feature.id, title: 'Checkout' } });
+        expect(withFeature).toMatchObject({ estimate: 3, severity: 'high', repro_steps: 'Add two items', environment: 'Safari 17' });
+
+        expect(TaskRepo.getWithFeature(ungrouped.id)).toEqual({ ...TaskRepo.get(ungrouped.id), feature: null });
+        expect(TaskRepo.listWithFeatures().map(t => [t.id, t.estimate, t.feature?.id ?? null])).toEqual([
+            [bug.id, 3, feature.id],
+            [ungrouped.id, 1, null],
+        ]);
+    });
+});
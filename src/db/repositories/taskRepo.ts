@@ -1,7 +1,9 @@
 import type { SqlValue } from 'sql.js';
 import { v4 as uuid } from 'uuid';
-import { getDatabase, saveDatabase } from '../database';
-import { Task, TaskWithFeature, NewTask, TaskStatus, TaskType } from '../types';
+import { getDatabase, saveDatabase, transaction } from '../database';
+import { Task, TaskWithFeature, NewTask, TaskStatus, TaskType, BugSeverity, AcceptanceCriterion } from '../types';
+import { isValidRank, rankBetween, type RankedItem } from '../rank';
+import { nextRank, rankAbove, rerank, setRanks } from './ranking';
 
 function rowToTask(row: SqlValue[]): Task {
     return {
@@ -11,19 +13,66 @@ function rowToTask(row: SqlValue[]): Task {
         title: row[3] as string,
         description: row[4] as string | null,
         status: row[5] as TaskStatus,
-        priority: row[6] as number,
+        rank: row[6] as string,
         created_at: row[7] as string,
         updated_at: row[8] as string,
+        archived_at: row[9] as string | null,
+        estimate: row[10] as number | null,
+        severity: row[11] as BugSeverity | null,
+        repro_steps: row[12] as string | null,
+        expected_result: row[13] as string | null,
+        actual_result: row[14] as string | null,
+        environment: row[15] as string | null,
     };
 }
 
+// Explicit column order - archived_at, estimate and the bug fields were added by migration, so SELECT * order differs between databases
+const TASK_COLUMNS = 'id, feature_id, type, title, description, status, rank, created_at, updated_at, archived_at, estimate, severity, repro_steps, expected_result, actual_result, environment';
+// Restores update rows in place: with foreign keys on, INSERT OR REPLACE would delete the old row
+// and cascade to its criteria, comments, dependencies, commits and locations
+const TASK_UPSERT = TASK_COLUMNS.split(', ').slice(1).map(c => `${c} = excluded.${c}`).join(', ');
+const TASK_COLUMNS_T = TASK_COLUMNS.split(', ').map(c => `t.${c}`).join(', ');
+// Joined queries select the feature's id and title after the task columns
+const FEATURE_OFFSET = TASK_COLUMNS.split(', ').length;
+
+function rowToTaskWithFeature(row: SqlValue[]): TaskWithFeature {
+    const featureId = row[FEATURE_OFFSET] as string | null;
+    return {
+        ...rowToTask(row.slice(0, FEATURE_OFFSET)),
+        feature: featureId ? { id: featureId, title: row[FEATURE_OFFSET + 1] as string } : null,
+    };
+}
+
+const BUG_FIELDS = ['severity', 'repro_steps', 'expected_result', 'actual_result', 'environment'] as const;
+
+function rowToCriterion(row: SqlValue[]): AcceptanceCriterion {
+    return {
+        id: row[0] as string,
+        task_id: row[1] as string,
+        text: row[2] as string,
+        checked: row[3] === 1,
+        position: row[4] as number,
+        created_at: row[5] as string,
+        updated_at: row[6] as string,
+    };
+}
+
+const CRITERION_COLUMNS = 'id, task_id, text, checked, position, created_at, updated_at';
+
 export const TaskRepo = {
-    list(options?: { feature_id?: string | null; status?: TaskStatus; limit?: number }): Task[] {
+    /**
+     * List tasks in queue order. Archived tasks are excluded unless include_archived is set.
+     */
+    list(options?: { feature_id?: string | null; status?: TaskStatus; limit?: number; include_archived?: boolean }): Task[] {
         const db = getDatabase();
-        let sql = 'SELECT * FROM tasks';
+        let sql = `SELECT ${TASK_COLUMNS} FROM tasks`;
         const conditions: string[] = [];
         const values: SqlValue[] = [];
 
+        if (!options?.include_archived) {
+            conditions.push('archived_at IS NULL');
+        }
+
         if (options?.feature_id !== undefined) {
             if (options.feature_id === null) {
                 conditions.push('feature_id IS NULL');
@@ -40,7 +89,7 @@ export const TaskRepo = {
         if (conditions.length > 0) {
             sql += ' WHERE ' + conditions.join(' AND ');
         }
-        sql += ' ORDER BY priority ASC';
+        sql += ' ORDER BY rank ASC, id ASC';
 
         if (options?.limit) {
             sql += ' LIMIT ?';
@@ -55,17 +104,18 @@ export const TaskRepo = {
     listWithFeatures(options?: { status?: TaskStatus; limit?: number }): TaskWithFeature[] {
         const db = getDatabase();
         let sql = `
-            SELECT t.*, f.id as f_id, f.title as f_title
+            SELECT ${TASK_COLUMNS_T}, f.id as f_id, f.title as f_title
             FROM tasks t
             LEFT JOIN features f ON t.feature_id = f.id
+            WHERE t.archived_at IS NULL
         `;
         const values: SqlValue[] = [];
 
         if (options?.status) {
-            sql += ' WHERE t.status = ?';
+            sql += ' AND t.status = ?';
             values.push(options.status);
         }
-        sql += ' ORDER BY t.priority ASC';
+        sql += ' ORDER BY t.rank ASC, t.id ASC';
 
         if (options?.limit) {
             sql += ' LIMIT ?';
@@ -75,15 +125,12 @@ export const TaskRepo = {
         const result = db.exec(sql, values);
         if (result.length === 0) return [];
 
-        return result[0].values.map((row: SqlValue[]) => ({
-            ...rowToTask(row.slice(0, 9)),
-            feature: row[9] ? { id: row[9] as string, title: row[10] as string } : null,
-        }));
+        return result[0].values.map(rowToTaskWithFeature);
     },
 
     get(id: string): Task | null {
         const db = getDatabase();
-        const stmt = db.prepare('SELECT * FROM tasks WHERE id = ?');
+        const stmt = db.prepare(`SELECT ${TASK_COLUMNS} FROM tasks WHERE id = ?`);
         stmt.bind([id]);
         if (stmt.step()) {
             const row = stmt.get();
@@ -97,7 +144,7 @@ export const TaskRepo = {
     getWithFeature(id: string): TaskWithFeature | null {
         const db = getDatabase();
         const result = db.exec(`
-            SELECT t.*, f.id as f_id, f.title as f_title
+            SELECT ${TASK_COLUMNS_T}, f.id as f_id, f.title as f_title
             FROM tasks t
             LEFT JOIN features f ON t.feature_id = f.id
             WHERE t.id = ?
@@ -105,11 +152,7 @@ export const TaskRepo = {
 
         if (result.length === 0 || result[0].values.length === 0) return null;
 
-        const row = result[0].values[0];
-        return {
-            ...rowToTask(row.slice(0, 9)),
-            feature: row[9] ? { id: row[9] as string, title: row[10] as string } : null,
-        };
+        return rowToTaskWithFeature(result[0].values[0]);
     },
 
     create(data: NewTask): Task {
@@ -117,23 +160,25 @@ export const TaskRepo = {
         const id = uuid();
         const now = new Date().toISOString();
 
-        // Get max priority within feature (or globally for ungrouped)
-        let maxResult;
-        if (data.feature_id) {
-            maxResult = db.exec('SELECT MAX(priority) FROM tasks WHERE feature_id = ?', [data.feature_id]);
-        } else {
-            maxResult = db.exec('SELECT MAX(priority) FROM tasks WHERE feature_id IS NULL');
-        }
-        const maxPriority = maxResult.length > 0 && maxResult[0].values[0][0] !== null
-            ? (maxResult[0].values[0][0] as number) + 1
-            : 0;
-
-        db.run(
-            `INSERT INTO tasks (id, feature_id, type, title, description, status, priority, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, 'todo', ?, ?, ?)`,
-            [id, data.feature_id || null, data.type || 'task', data.title, data.description || null, maxPriority, now, now]
-        );
-        saveDatabase();
+        // New tasks join the end of the queue, whatever their feature
+        const rank = nextRank('tasks');
+
+        transaction(() => {
+            db.run(
+                `INSERT INTO tasks (id, feature_id, type, title, description, status, rank, created_at, updated_at, estimate, ${BUG_FIELDS.join(', ')})
+                 VALUES (?, ?, ?, ?, ?, 'todo', ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    id, data.feature_id || null, data.type || 'task', data.title, data.description || null, rank, now, now, data.estimate ?? null,
+                    ...BUG_FIELDS.map(field => data[field] || null)
+                ]
+            );
+            data.acceptance_criteria?.forEach((text, position) => {
+                db.run(
+                    `INSERT INTO task_criteria (${CRITERION_COLUMNS}) VALUES (?, ?, ?, 0, ?, ?, ?)`,
+                    [uuid(), id, text, position, now, now]
+                );
+            });
+        });
 
         return this.get(id)!;
     },
@@ -163,9 +208,19 @@ export const TaskRepo = {
             sets.push('status = ?');
             values.push(data.status);
         }
-        if (data.priority !== undefined) {
-            sets.push('priority = ?');
-            values.push(data.priority);
+        if (data.rank !== undefined) {
+            sets.push('rank = ?');
+            values.push(data.rank);
+        }
+        if (data.estimate !== undefined) {
+            sets.push('estimate = ?');
+            values.push(data.estimate);
+        }
+        for (const field of BUG_FIELDS) {
+            if (data[field] !== undefined) {
+                sets.push(`${field} = ?`);
+                values.push(data[field]);
+            }
         }
 
         if (sets.length === 0) return this.get(id);
@@ -179,50 +234,104 @@ export const TaskRepo = {
         return this.get(id);
     },
 
+    /**
+     * Re-insert a deleted task (and its checklist) exactly as it was, e.g. when undoing a delete
+     */
+    restore(task: Task, criteria: AcceptanceCriterion[] = []): Task {
+        const db = getDatabase();
+        transaction(() => {
+            // The feature may have been deleted since (undo) or never arrived here (sync)
+            const featureExists = task.feature_id !== null && db.exec('SELECT 1 FROM features WHERE id = ?', [task.feature_id]).length > 0;
+            // Records mirrored by older versions carry a priority instead of a rank
+            const rank = isValidRank(task.rank ?? '') ? task.rank : this.get(task.id)?.rank ?? nextRank('tasks');
+            db.run(
+                `INSERT INTO tasks (${TASK_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                 ON CONFLICT(id) DO UPDATE SET ${TASK_UPSERT}`,
+                // Mirror records written before estimates or bug fields existed don't have them
+                [
+                    task.id, featureExists ? task.feature_id : null, task.type, task.title, task.description, task.status, rank, task.created_at, task.updated_at, task.archived_at, task.estimate ?? null,
+                    ...BUG_FIELDS.map(field => task[field] ?? null)
+                ]
+            );
+            criteria.forEach(c => {
+                db.run(
+                    `INSERT OR REPLACE INTO task_criteria (${CRITERION_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                    [c.id, c.task_id, c.text, c.checked ? 1 : 0, c.position, c.created_at, c.updated_at]
+                );
+            });
+        });
+
+        return this.get(task.id)!;
+    },
+
     updateStatus(id: string, status: TaskStatus): Task | null {
         return this.update(id, { status });
     },
 
     delete(id: string): void {
         const db = getDatabase();
-        db.run('DELETE FROM tasks WHERE id = ?', [id]);
+        // Would cascade with foreign keys on; explicit so the order doesn't depend on it
+        transaction(() => {
+            db.run('DELETE FROM task_criteria WHERE task_id = ?', [id]);
+            db.run('DELETE FROM tasks WHERE id = ?', [id]);
+        });
+    },
+
+    archive(id: string): Task | null {
+        const db = getDatabase();
+        const now = new Date().toISOString();
+        db.run('UPDATE tasks SET archived_at = ?, updated_at = ? WHERE id = ? AND archived_at IS NULL', [now, now, id]);
         saveDatabase();
+        return this.get(id);
     },
 
+    unarchive(id: string): Task | null {
+        const db = getDatabase();
+        db.run("UPDATE tasks SET archived_at = NULL, updated_at = datetime('now') WHERE id = ?", [id]);
+        saveDatabase();
+        return this.get(id);
+    },
+
+    /**
+     * Move a task to the bottom of another feature (or the ungrouped tasks). It is placed right
+     * after the target's last task, so its place in the queue relative to other features' tasks
+     * changes as little as possible; into an empty target it keeps its rank.
+     */
     moveToFeature(taskId: string, featureId: string | null): Task | null {
         const db = getDatabase();
+        const task = this.get(taskId);
+        if (!task) return null;
 
-        // Get max priority in target
-        let maxResult;
-        if (featureId) {
-            maxResult = db.exec('SELECT MAX(priority) FROM tasks WHERE feature_id = ?', [featureId]);
-        } else {
-            maxResult = db.exec('SELECT MAX(priority) FROM tasks WHERE feature_id IS NULL');
-        }
-        const maxPriority = maxResult.length > 0 && maxResult[0].values[0][0] !== null
-            ? (maxResult[0].values[0][0] as number) + 1
-            : 0;
+        const lastResult = featureId
+            ? db.exec('SELECT MAX(rank) FROM tasks WHERE feature_id = ? AND id != ?', [featureId, taskId])
+            : db.exec('SELECT MAX(rank) FROM tasks WHERE feature_id IS NULL AND id != ?', [taskId]);
+        const last = (lastResult[0]?.values[0]?.[0] as string | null | undefined) ?? null;
+        const rank = last === null || last < task.rank ? task.rank : rankBetween(last, rankAbove('tasks', last));
 
         db.run(
-            "UPDATE tasks SET feature_id = ?, priority = ?, updated_at = datetime('now') WHERE id = ?",
-            [featureId, maxPriority, taskId]
+            "UPDATE tasks SET feature_id = ?, rank = ?, updated_at = datetime('now') WHERE id = ?",
+            [featureId, rank, taskId]
         );
         saveDatabase();
 
         return this.get(taskId);
     },
 
+    /**
+     * Put tasks in the given order, e.g. one feature's tasks after a drag. Only the tasks
+     * that move get a new rank; they land next to their neighbours in the global queue.
+     */
     reorder(ids: string[]): void {
-        const db = getDatabase();
-        ids.forEach((id, index) => {
-            db.run('UPDATE tasks SET priority = ? WHERE id = ?', [index, id]);
-        });
-        saveDatabase();
+        rerank('tasks', ids);
+    },
+
+    setRanks(ranks: RankedItem[]): void {
+        setRanks('tasks', ranks);
     },
 
     countByStatus(): Record<TaskStatus, number> {
         const db = getDatabase();
-        const result = db.exec('SELECT status, COUNT(*) FROM tasks GROUP BY status');
+        const result = db.exec('SELECT status, COUNT(*) FROM tasks WHERE archived_at IS NULL GROUP BY status');
         const counts: Record<TaskStatus, number> = {
             'todo': 0,
             'in-progress': 0,
@@ -237,4 +346,72 @@ export const TaskRepo = {
         }
         return counts;
     },
+
+    // Acceptance criteria
+    listCriteria(taskId?: string): AcceptanceCriterion[] {
+        const db = getDatabase();
+        const result = taskId
+            ? db.exec(`SELECT ${CRITERION_COLUMNS} FROM task_criteria WHERE task_id = ? ORDER BY position ASC`, [taskId])
+            : db.exec(`SELECT ${CRITERION_COLUMNS} FROM task_criteria ORDER BY task_id, position ASC`);
+        if (result.length === 0) return [];
+        return result[0].values.map(rowToCriterion);
+    },
+
+    getCriterion(id: string): AcceptanceCriterion | null {
+        const db = getDatabase();
+        const result = db.exec(`SELECT ${CRITERION_COLUMNS} FROM task_criteria WHERE id = ?`, [id]);
+        if (result.length === 0 || result[0].values.length === 0) return null;
+        return rowToCriterion(result[0].values[0]);
+    },
+
+    addCriterion(taskId: string, text: string): AcceptanceCriterion {
+        const db = getDatabase();
+        const id = uuid();
+        const now = new Date().toISOString();
+
+        const maxResult = db.exec('SELECT MAX(position) FROM task_criteria WHERE task_id = ?', [taskId]);
+        const position = maxResult.length > 0 && maxResult[0].values[0][0] !== null
+            ? (maxResult[0].values[0][0] as number) + 1
+            : 0;
+
+        db.run(
+            `INSERT INTO task_criteria (${CRITERION_COLUMNS}) VALUES (?, ?, ?, 0, ?, ?, ?)`,
+            [id, taskId, text, position, now, now]
+        );
+        saveDatabase();
+
+        return this.getCriterion(id)!;
+    },
+
+    updateCriterion(id: string, data: { text?: string; checked?: boolean }): AcceptanceCriterion | null {
+        const db = getDatabase();
+        const sets: string[] = [];
+        const values: SqlValue[] = [];
+
+        if (data.text !== undefined) {
+            sets.push('text = ?');
+            values.push(data.text);
+        }
+        if (data.checked !== undefined) {
+            sets.push('checked = ?');
+            values.push(data.checked ? 1 : 0);
+        }
+
+        if (sets.length === 0) return this.getCriterion(id);
+
+        sets.push('updated_at = ?');
+        values.push(new Date().toISOString());
+        values.push(id);
+
+        db.run(`UPDATE task_criteria SET ${sets.join(', ')} WHERE id = ?`, values);
+        saveDatabase();
+
+        return this.getCriterion(id);
+    },
+
+    deleteCriterion(id: string): void {
+        const db = getDatabase();
+        db.run('DELETE FROM task_criteria WHERE id = ?', [id]);
+        saveDatabase();
+    },
 };
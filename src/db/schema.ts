@@ -8,15 +8,27 @@ CREATE TABLE IF NOT EXISTS project (
   updated_at TEXT NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS milestones (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  target_date TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS features (
   id TEXT PRIMARY KEY,
   title TEXT NOT NULL,
   description TEXT,
   requirement_path TEXT,
   status TEXT NOT NULL DEFAULT 'active',
-  priority INTEGER NOT NULL,
+  rank TEXT NOT NULL,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  milestone_id TEXT,
+  FOREIGN KEY (milestone_id) REFERENCES milestones(id) ON DELETE SET NULL
 );
 
 CREATE TABLE IF NOT EXISTS tasks (
@@ -26,12 +38,21 @@ CREATE TABLE IF NOT EXISTS tasks (
   title TEXT NOT NULL,
   description TEXT,
   status TEXT NOT NULL DEFAULT 'todo',
-  priority INTEGER NOT NULL,
+  rank TEXT NOT NULL,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  archived_at TEXT,
+  estimate INTEGER,
+  severity TEXT,
+  repro_steps TEXT,
+  expected_result TEXT,
+  actual_result TEXT,
+  environment TEXT,
   FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE SET NULL
 );
 
+CREATE INDEX IF NOT EXISTS idx_tasks_rank ON tasks(rank);
+
 CREATE TABLE IF NOT EXISTS requirement_sessions (
   id TEXT PRIMARY KEY,
   scope TEXT NOT NULL,
@@ -40,9 +61,83 @@ CREATE TABLE IF NOT EXISTS requirement_sessions (
   conversation TEXT,
   proposed_output TEXT,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  rejected_proposals TEXT
+);
+
+CREATE TABLE IF NOT EXISTS task_events (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  from_value TEXT,
+  to_value TEXT,
+  changes TEXT,
+  actor TEXT NOT NULL,
+  source TEXT NOT NULL,
+  created_at TEXT NOT NULL
 );
 
+CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id, created_at);
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id TEXT NOT NULL,
+  blocked_by_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (task_id, blocked_by_id),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (blocked_by_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS task_criteria (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  checked INTEGER NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_criteria_task ON task_criteria(task_id, position);
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  author TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'note',
+  body TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+
+CREATE TABLE IF NOT EXISTS task_commits (
+  task_id TEXT NOT NULL,
+  sha TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  author TEXT NOT NULL,
+  branch TEXT,
+  committed_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (task_id, sha),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS task_locations (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_locations_task ON task_locations(task_id);
+
 -- Initialize singleton project row
 INSERT OR IGNORE INTO project (id, title, created_at, updated_at)
 VALUES ('main', NULL, datetime('now'), datetime('now'));
@@ -1,7 +1,22 @@
 export type TaskType = 'task' | 'bug';
+export type BugSeverity = 'critical' | 'high' | 'medium' | 'low';
 export type TaskStatus = 'todo' | 'in-progress' | 'ready-for-signoff' | 'done' | 'rework';
 export type FeatureStatus = 'active' | 'done';
+export type MilestoneStatus = 'open' | 'released';
 export type SessionStatus = 'drafting' | 'clarifying' | 'proposed' | 'complete' | 'cancelled';
+export type TaskEventType = 'created' | 'updated' | 'status_changed' | 'moved' | 'deleted' | 'archived' | 'restored';
+export type ChangeActor = 'pm' | 'agent' | 'system';
+export type ChangeSource = 'webview' | 'bridge' | 'interview' | 'extension' | 'sync' | 'editor';
+export type CommentAuthor = 'pm' | 'agent';
+export type CommentKind = 'note' | 'rework' | 'question' | 'signoff';
+
+/**
+ * Who made a change and through which entry point
+ */
+export interface ChangeOrigin {
+    actor: ChangeActor;
+    source: ChangeSource;
+}
 
 export interface Project {
     id: string;
@@ -12,15 +27,26 @@ export interface Project {
     updated_at: string;
 }
 
+export interface Milestone {
+    id: string;
+    title: string;
+    description: string | null;
+    target_date: string | null;   // YYYY-MM-DD; milestones without one sort last
+    status: MilestoneStatus;
+    created_at: string;
+    updated_at: string;
+}
+
 export interface Feature {
     id: string;
     title: string;
     description: string | null;
     requirement_path: string | null;
     status: FeatureStatus;
-    priority: number;
+    rank: string;                 // Position in the feature list (see db/rank.ts)
     created_at: string;
     updated_at: string;
+    milestone_id: string | null;  // Release the feature ships in
 }
 
 export interface Task {
@@ -30,9 +56,17 @@ export interface Task {
     title: string;
     description: string | null;
     status: TaskStatus;
-    priority: number;
+    rank: string;                 // Position in the queue across all features (see db/rank.ts)
     created_at: string;
     updated_at: string;
+    archived_at: string | null;   // Set when archived; archived tasks are hidden from the board
+    estimate: number | null;      // Story points (1, 2, 3, 5, 8 - shown as XS to XL); null = not estimated
+    // Bug report fields, only filled in for bugs
+    severity: BugSeverity | null;
+    repro_steps: string | null;
+    expected_result: string | null;
+    actual_result: string | null;
+    environment: string | null;
 }
 
 export interface TaskWithFeature extends Task {
@@ -51,12 +85,96 @@ export interface RequirementSession {
     proposed_output: string | null;
     created_at: string;
     updated_at: string;
+    rejected_proposals: string | null;  // JSON list of proposals the PM sent back for revision
+}
+
+export interface TaskEvent {
+    id: string;
+    task_id: string;
+    event: TaskEventType;
+    from_value: string | null;    // Previous status (status_changed) or feature_id (moved)
+    to_value: string | null;      // New status (status_changed, created) or feature_id (moved)
+    changes: Record<string, { from: unknown; to: unknown }> | null;  // Field diffs for 'updated'
+    actor: ChangeActor;
+    source: ChangeSource;
+    created_at: string;
+}
+
+export interface TaskDependency {
+    task_id: string;         // The task that is blocked
+    blocked_by_id: string;   // The task that must land first
+    created_at: string;
+}
+
+export interface AcceptanceCriterion {
+    id: string;
+    task_id: string;
+    text: string;
+    checked: boolean;
+    position: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface TaskComment {
+    id: string;
+    task_id: string;
+    author: CommentAuthor;
+    kind: CommentKind;
+    body: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface NewTaskComment {
+    author: CommentAuthor;
+    kind?: CommentKind;
+    body: string;
+}
+
+/**
+ * A git commit that implemented (part of) a task, linked after a build
+ */
+export interface TaskCommit {
+    task_id: string;
+    sha: string;                  // Full commit hash
+    subject: string;              // First line of the commit message
+    author: string;
+    branch: string | null;        // Branch checked out when the link was recorded
+    committed_at: string;
+    created_at: string;           // When the link was recorded
+}
+
+/**
+ * A range of lines in a workspace file that a task is about, e.g. the code the PM
+ * had selected when filing a bug
+ */
+export interface TaskLocation {
+    id: string;
+    task_id: string;
+    path: string;                 // Relative to the workspace folder, with forward slashes
+    start_line: number;           // 1-based, inclusive
+    end_line: number;
+    created_at: string;
+}
+
+export interface NewTaskLocation {
+    path: string;
+    start_line: number;
+    end_line: number;
+}
+
+export interface NewMilestone {
+    title: string;
+    description?: string;
+    target_date?: string | null;
 }
 
 export interface NewFeature {
     title: string;
     description?: string;
     requirement_path?: string;
+    milestone_id?: string | null;
 }
 
 export interface NewTask {
@@ -64,4 +182,59 @@ export interface NewTask {
     type?: TaskType;
     title: string;
     description?: string;
+    acceptance_criteria?: string[];
+    estimate?: number | null;
+    severity?: BugSeverity | null;
+    repro_steps?: string | null;
+    expected_result?: string | null;
+    actual_result?: string | null;
+    environment?: string | null;
+    locations?: NewTaskLocation[];
+}
+
+export type SearchResultKind = 'task' | 'feature' | 'requirement';
+
+/**
+ * A full-text search hit. Matched terms in `title` and `snippet` are wrapped in
+ * SEARCH_MATCH_START / SEARCH_MATCH_END (see searchRepo).
+ */
+export interface SearchResult {
+    kind: SearchResultKind;
+    id: string;                   // Task or feature id, or the doc path for requirements
+    title: string;
+    snippet: string;              // Best-matching fragment of the description or doc
+    status: string | null;        // Task or feature status
+    feature_id: string | null;    // Feature of a task hit
+    archived: boolean;
+}
+
+/**
+ * A requirement doc to index. `stamp` changes whenever the file does (mtime and size).
+ */
+export interface SearchDocument {
+    path: string;
+    title: string;
+    body: string;
+    stamp: string;
+}
+
+/**
+ * A row whose foreign key points at a row that no longer exists (from PRAGMA foreign_key_check)
+ */
+export interface ForeignKeyViolation {
+    table: string;
+    rowid: number;
+    column: string;           // The dangling column, e.g. tasks.feature_id
+    parent: string;           // Table it should point into
+    value: string | null;     // The missing parent id
+    row_id: string | null;    // The row's id, or its task_id for per-task tables
+}
+
+/**
+ * Rows sharing a rank, which leaves their order undefined
+ */
+export interface RankCollision {
+    table: 'tasks' | 'features';
+    rank: string;
+    ids: string[];
 }
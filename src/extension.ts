@@ -3,18 +3,33 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { TaskStore } from './tasks/TaskStore';
-import { TaskWebviewProvider } from './webview/WebviewProvider';
+import { TaskStore, EDITOR_ORIGIN } from './tasks/TaskStore';
+import { TaskWebviewProvider, type ShepherdFolder } from './webview/WebviewProvider';
 import { HttpBridge } from './http/bridge';
+import { BacklogMirror } from './sync/BacklogMirror';
+import { importLegacyTasksFile, type LegacyImportResult } from './tasks/legacyImport';
+import { pruneAttachments } from './tasks/attachments';
+import { selectionLines, relativeLocationPath, formatLocation } from './tasks/locations';
+import { formatIntegrityReport } from './tasks/integrity';
 import { initialize, isInitialized, updateMcpServer } from './init/initialize';
-import { initDatabase, closeDatabase } from './db';
+import { initDatabase, selectDatabase, closeDatabase, getReadOnlyReason, onExternalChange, reloadDatabase, overwriteDatabase, type ExternalChange, type BackupReason } from './db';
 import { findRuntime, promptInstallRuntime } from './utils/runtime';
 
 const execAsync = promisify(exec);
 
-let taskStore: TaskStore | undefined;
+/**
+ * A workspace folder with Shepherd running in it: its own database, bridge and mirror
+ */
+interface ActiveFolder extends ShepherdFolder {
+    httpBridge: HttpBridge;
+    backlogMirror: BacklogMirror;
+}
+
+// Keyed by folder root. Multi-root workspaces get one entry per initialized folder.
+const folders = new Map<string, ActiveFolder>();
 let webviewProvider: TaskWebviewProvider | undefined;
-let httpBridge: HttpBridge | undefined;
+const conflictPromptsOpen = new Set<string>();
+const readOnlyWarningsShown = new Set<string>();
 
 /**
  * Detects if the extension is running in its own source code folder.
@@ -37,7 +52,8 @@ function isOwnSourceFolder(workspaceRoot: string): boolean {
 }
 
 export async function activate(context: vscode.ExtensionContext) {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    const workspaceRoot = workspaceFolders[0]?.uri.fsPath;
 
     // Get dynamic extension ID (works in both dev and installed modes)
     const extensionId = context.extension.id;
@@ -85,10 +101,13 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('shepherd.initialize', async () => {
             console.log('[Shepherd] Initialize command called');
-            const success = await initialize(workspaceRoot);
+            const folder = await pickWorkspaceFolder('Select the folder to set up Shepherd in');
+            if (!folder) return;
+            const success = await initialize(folder.uri.fsPath);
             console.log('[Shepherd] Initialize result:', success);
             if (success) {
-                await activateExtension(context, workspaceRoot, walkthroughId);
+                await activateExtension(context, [folder], walkthroughId);
+                webviewProvider?.switchFolder(folder.uri.fsPath);
                 console.log('[Shepherd] activateExtension complete');
 
                 // Set walkthrough-specific context to mark step 1 complete
@@ -137,6 +156,93 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Register undo/redo for backlog edits made in the sidebar
+    context.subscriptions.push(
+        vscode.commands.registerCommand('shepherd.undo', () => {
+            if (!webviewProvider) {
+                vscode.window.showWarningMessage('Please complete initialization first.');
+                return;
+            }
+            webviewProvider.undo();
+        }),
+        vscode.commands.registerCommand('shepherd.redo', () => {
+            if (!webviewProvider) {
+                vscode.window.showWarningMessage('Please complete initialization first.');
+                return;
+            }
+            webviewProvider.redo();
+        })
+    );
+
+    // Register command to import a legacy tasks.json (the default one is imported automatically on activation)
+    // into the folder shown in the sidebar
+    context.subscriptions.push(
+        vscode.commands.registerCommand('shepherd.importLegacyTasks', async () => {
+            const folder = webviewProvider && folders.get(webviewProvider.currentFolder);
+            if (!folder) {
+                vscode.window.showWarningMessage('Please complete initialization first.');
+                return;
+            }
+            const defaultPath = path.join(folder.root, '.shepherd', 'tasks.json');
+            if (fs.existsSync(defaultPath)) {
+                runLegacyImport(folder.taskStore, defaultPath, true);
+                return;
+            }
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: vscode.Uri.file(path.join(folder.root, '.shepherd')),
+                filters: { 'Shepherd task list': ['json', 'bak'] },
+                openLabel: 'Import Tasks'
+            });
+            if (picked?.[0]) {
+                // A file the user picked is left where it is
+                runLegacyImport(folder.taskStore, picked[0].fsPath, false);
+            }
+        })
+    );
+
+    // Register commands to snapshot the backlog of the folder shown in the sidebar and roll it back
+    context.subscriptions.push(
+        vscode.commands.registerCommand('shepherd.backupDatabase', () => {
+            const folder = webviewProvider && folders.get(webviewProvider.currentFolder);
+            if (!folder) {
+                vscode.window.showWarningMessage('Please complete initialization first.');
+                return;
+            }
+            try {
+                const backup = folder.taskStore.backup('manual');
+                vscode.window.showInformationMessage(`${folderPrefix(folder.root)}Backlog saved to ${path.relative(folder.root, backup.path)}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to back up the backlog: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }),
+        vscode.commands.registerCommand('shepherd.restoreBackup', async () => {
+            const folder = webviewProvider && folders.get(webviewProvider.currentFolder);
+            if (!folder) {
+                vscode.window.showWarningMessage('Please complete initialization first.');
+                return;
+            }
+            await restoreBackup(folder);
+        })
+    );
+
+    // Register command to look for broken references and tied priorities in the backlog shown in the sidebar
+    context.subscriptions.push(
+        vscode.commands.registerCommand('shepherd.checkIntegrity', async () => {
+            const folder = webviewProvider && folders.get(webviewProvider.currentFolder);
+            if (!folder) {
+                vscode.window.showWarningMessage('Please complete initialization first.');
+                return;
+            }
+            await checkIntegrity(folder);
+        })
+    );
+
+    // Register command to file a task about the code selected in the editor
+    context.subscriptions.push(
+        vscode.commands.registerCommand('shepherd.createTaskFromSelection', createTaskFromSelection)
+    );
+
     // Register command to open sidebar
     context.subscriptions.push(
         vscode.commands.registerCommand('shepherd.openSidebar', async () => {
@@ -144,9 +250,24 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
-    // Check if already initialized
-    if (isInitialized(workspaceRoot)) {
-        await activateExtension(context, workspaceRoot, walkthroughId);
+    // Another window or a git pull changed one of the cockpit.db files
+    context.subscriptions.push(onExternalChange(handleExternalDatabaseChange));
+
+    // Folders added to or removed from a multi-root workspace
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(async (event) => {
+            event.removed.forEach(folder => deactivateFolder(folder.uri.fsPath));
+            const added = event.added.filter(folder => isInitialized(folder.uri.fsPath));
+            if (added.length > 0) {
+                await activateExtension(context, added, walkthroughId);
+            }
+        })
+    );
+
+    // Check if already initialized - every initialized folder gets its own Shepherd
+    const initializedFolders = workspaceFolders.filter(folder => isInitialized(folder.uri.fsPath));
+    if (initializedFolders.length > 0) {
+        await activateExtension(context, initializedFolders, walkthroughId);
     } else {
         // Open walkthrough for new users
         vscode.commands.executeCommand(
@@ -157,7 +278,169 @@ export async function activate(context: vscode.ExtensionContext) {
     }
 }
 
-async function activateExtension(context: vscode.ExtensionContext, workspaceRoot: string, walkthroughId?: string): Promise<void> {
+/**
+ * Create a task or bug linked to the lines selected in the active editor (or the cursor line),
+ * in the backlog of the folder the file belongs to
+ */
+async function createTaskFromSelection(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== 'file') {
+        vscode.window.showWarningMessage('Open a file and select the code the task is about.');
+        return;
+    }
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+    const folder = workspaceFolder && folders.get(workspaceFolder.uri.fsPath);
+    const filePath = folder && relativeLocationPath(folder.root, editor.document.uri.fsPath);
+    if (!folder || !filePath) {
+        vscode.window.showWarningMessage('This file is not in a folder where Shepherd is initialized.');
+        return;
+    }
+
+    const location = { path: filePath, ...selectionLines(editor.selection.start, editor.selection.end) };
+    const type = await vscode.window.showQuickPick(
+        [
+            { label: '$(bug) Bug', type: 'bug' as const },
+            { label: '$(checklist) Task', type: 'task' as const }
+        ],
+        { placeHolder: `New task for ${formatLocation(location)}` }
+    );
+    if (!type) return;
+
+    const title = await vscode.window.showInputBox({
+        prompt: `${type.type === 'bug' ? 'Bug' : 'Task'} for ${formatLocation(location)}`,
+        placeHolder: type.type === 'bug' ? "What's broken?" : 'What needs doing?',
+        validateInput: value => value.trim() ? null : 'Enter a title'
+    });
+    if (!title) return;
+
+    folder.taskStore.createTask({ title: title.trim(), type: type.type, locations: [location] }, EDITOR_ORIGIN);
+    vscode.commands.executeCommand('setContext', 'shepherd.walkthrough.taskCreated', true);
+    const choice = await vscode.window.showInformationMessage(
+        `${folderPrefix(folder.root)}Created ${type.type} "${title.trim()}"`,
+        'Show in Shepherd'
+    );
+    if (choice) {
+        webviewProvider?.switchFolder(folder.root);
+        await vscode.commands.executeCommand('shepherd.taskView.focus');
+    }
+}
+
+/**
+ * Report integrity problems in a folder's backlog and offer to fix them, after taking a snapshot
+ */
+async function checkIntegrity(folder: ActiveFolder): Promise<void> {
+    const issues = folder.taskStore.checkIntegrity();
+    if (issues.length === 0) {
+        vscode.window.showInformationMessage(`${folderPrefix(folder.root)}Shepherd found no integrity problems.`);
+        return;
+    }
+
+    const summary = `${folderPrefix(folder.root)}Shepherd found ${issues.length} integrity ${issues.length === 1 ? 'problem' : 'problems'} in the backlog.`;
+    let action = await vscode.window.showWarningMessage(summary, 'Fix', 'Show Report');
+    if (action === 'Show Report') {
+        const document = await vscode.workspace.openTextDocument({
+            language: 'markdown',
+            content: formatIntegrityReport(issues, path.basename(folder.root))
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+        action = await vscode.window.showWarningMessage(summary, 'Fix');
+    }
+    if (action !== 'Fix') return;
+
+    const readOnlyReason = folder.taskStore.getReadOnlyReason();
+    if (readOnlyReason) {
+        vscode.window.showErrorMessage(readOnlyReason);
+        return;
+    }
+    try {
+        const backup = folder.taskStore.backup('repair');
+        const fixed = folder.taskStore.repairIntegrity();
+        vscode.window.showInformationMessage(
+            `${folderPrefix(folder.root)}Fixed ${fixed.length} integrity ${fixed.length === 1 ? 'problem' : 'problems'}. The backlog from before is in ${path.relative(folder.root, backup.path)}.`
+        );
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to repair the backlog: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+const BACKUP_REASON_LABELS: Record<BackupReason, string> = {
+    manual: 'Manual backup',
+    migration: 'Before database upgrade',
+    proposal: 'Before approving an interview proposal',
+    restore: 'Before restoring a backup',
+    repair: 'Before an integrity repair'
+};
+
+/**
+ * Let the PM pick a snapshot from .shepherd/backups/ and roll the folder's backlog back to it
+ */
+async function restoreBackup(folder: ActiveFolder): Promise<void> {
+    const backups = folder.taskStore.listBackups();
+    if (backups.length === 0) {
+        vscode.window.showInformationMessage(`${folderPrefix(folder.root)}No backups yet. Run "Shepherd: Back Up Database" to take one.`);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        backups.map(backup => ({
+            label: new Date(backup.created_at).toLocaleString(),
+            description: BACKUP_REASON_LABELS[backup.reason],
+            detail: backup.task_count === null
+                ? 'Could not be read'
+                : `${backup.task_count} ${backup.task_count === 1 ? 'task' : 'tasks'}, ${backup.feature_count ?? 0} ${backup.feature_count === 1 ? 'feature' : 'features'}`,
+            backup
+        })),
+        { placeHolder: `${folderPrefix(folder.root)}Restore the backlog from a snapshot`, matchOnDescription: true }
+    );
+    if (!picked) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Replace the backlog with the snapshot from ${picked.label}? The current backlog is saved as a snapshot first, so this can be reverted.`,
+        { modal: true },
+        'Restore'
+    );
+    if (confirm !== 'Restore') return;
+
+    try {
+        folder.taskStore.restoreBackup(picked.backup.path);
+        // The restored rows are older than the mirror's, so push them out instead of merging
+        folder.backlogMirror.publishLocal();
+        vscode.window.showInformationMessage(`${folderPrefix(folder.root)}Backlog restored from ${picked.label}`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to restore the backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * The only folder of a single-folder workspace, or the one the user picks
+ */
+async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    if (workspaceFolders.length <= 1) {
+        return workspaceFolders[0];
+    }
+    return vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
+
+/**
+ * Prefix for messages about one folder, so they can be told apart in a multi-root workspace
+ */
+function folderPrefix(root: string): string {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    if (workspaceFolders.length <= 1) return '';
+    const name = workspaceFolders.find(folder => folder.uri.fsPath === root)?.name ?? path.basename(root);
+    return `${name}: `;
+}
+
+async function activateExtension(context: vscode.ExtensionContext, workspaceFolders: readonly vscode.WorkspaceFolder[], walkthroughId?: string): Promise<void> {
+    // Already running for another folder - just add these to the folder switcher
+    if (webviewProvider) {
+        for (const workspaceFolder of workspaceFolders) {
+            webviewProvider.addFolder(await activateFolder(context, workspaceFolder));
+        }
+        return;
+    }
+
     // Set context for UI visibility
     console.log('[Shepherd] Setting context shepherd.initialized = true');
     await vscode.commands.executeCommand('setContext', 'shepherd.initialized', true);
@@ -182,25 +465,16 @@ async function activateExtension(context: vscode.ExtensionContext, workspaceRoot
         await promptInstallRuntime();
     }
 
-    // Update MCP server to latest version (safe - it's stateless)
-    await updateMcpServer(workspaceRoot);
-
-    // Initialize database
-    await initDatabase(workspaceRoot);
-
-    // Initialize TaskStore
-    taskStore = new TaskStore();
-
-    // Initialize HTTP bridge
-    httpBridge = new HttpBridge(taskStore, workspaceRoot, () => {
-        vscode.window.showInformationMessage('Interview completed! Tasks and requirements refreshed.');
-    });
-    await httpBridge.start();
+    const activated: ActiveFolder[] = [];
+    for (const workspaceFolder of workspaceFolders) {
+        activated.push(await activateFolder(context, workspaceFolder));
+    }
 
-    // Initialize Webview Provider
+    // Initialize Webview Provider, showing the first folder
     // Enable debug logging when running in development mode (F5)
     const isDebug = context.extensionMode === vscode.ExtensionMode.Development;
-    webviewProvider = new TaskWebviewProvider(context.extensionUri, taskStore, workspaceRoot, walkthroughId, isDebug);
+    webviewProvider = new TaskWebviewProvider(context.extensionUri, activated[0], walkthroughId, isDebug);
+    activated.slice(1).forEach(folder => webviewProvider!.addFolder(folder));
 
     // Register webview provider and cleanup
     context.subscriptions.push(
@@ -212,9 +486,7 @@ async function activateExtension(context: vscode.ExtensionContext, workspaceRoot
                 webviewOptions: { retainContextWhenHidden: true }
             }
         ),
-        webviewProvider,
-        taskStore,
-        { dispose: () => httpBridge?.stop() }
+        webviewProvider
     );
 
     // Force the webview to be created by focusing the view
@@ -241,11 +513,152 @@ async function activateExtension(context: vscode.ExtensionContext, workspaceRoot
     context.subscriptions.push(shortcutTreeView);
 }
 
+/**
+ * Start Shepherd in one workspace folder: its database, task store, mirror and bridge
+ */
+async function activateFolder(context: vscode.ExtensionContext, workspaceFolder: vscode.WorkspaceFolder): Promise<ActiveFolder> {
+    const workspaceRoot = workspaceFolder.uri.fsPath;
+    const existing = folders.get(workspaceRoot);
+    if (existing) {
+        return existing;
+    }
+
+    // Update MCP server to latest version (safe - it's stateless)
+    await updateMcpServer(workspaceRoot);
+
+    // Initialize database
+    await initDatabase(workspaceRoot);
+    showReadOnlyWarning(workspaceRoot);
+
+    // Initialize TaskStore
+    const taskStore = new TaskStore(workspaceRoot);
+
+    // Optional text mirror in .shepherd/backlog/ (shepherd.backlogSync)
+    const backlogMirror = new BacklogMirror(taskStore, workspaceRoot);
+
+    // One-time import of the pre-SQLite task list
+    const legacyTasksPath = path.join(workspaceRoot, '.shepherd', 'tasks.json');
+    if (fs.existsSync(legacyTasksPath)) {
+        runLegacyImport(taskStore, legacyTasksPath, true);
+    }
+
+    // Tasks deleted in an earlier session can no longer be undone, so their files can go
+    if (!getReadOnlyReason()) {
+        try {
+            pruneAttachments(workspaceRoot, new Set(taskStore.getTasks({ include_archived: true }).map(t => t.id)));
+        } catch (error) {
+            console.error('[Shepherd] Failed to prune attachments:', error);
+        }
+    }
+
+    // Initialize HTTP bridge - each folder has its own, found by its MCP server through .shepherd/.port
+    const httpBridge = new HttpBridge(taskStore, workspaceRoot, () => {
+        vscode.window.showInformationMessage(`${folderPrefix(workspaceRoot)}Interview completed! Tasks and requirements refreshed.`);
+    });
+    await httpBridge.start();
+
+    const folder: ActiveFolder = { root: workspaceRoot, name: workspaceFolder.name, taskStore, httpBridge, backlogMirror };
+    folders.set(workspaceRoot, folder);
+    context.subscriptions.push(taskStore, { dispose: () => httpBridge.stop() });
+    return folder;
+}
+
+/**
+ * Stop Shepherd in a folder that left the workspace
+ */
+function deactivateFolder(workspaceRoot: string): void {
+    const folder = folders.get(workspaceRoot);
+    if (!folder) return;
+    folders.delete(workspaceRoot);
+    webviewProvider?.removeFolder(workspaceRoot);
+    if (folders.size === 0) {
+        vscode.commands.executeCommand('setContext', 'shepherd.initialized', false);
+    }
+
+    folder.httpBridge.stop();
+    folder.backlogMirror.dispose();
+    folder.taskStore.dispose();
+    closeDatabase(workspaceRoot);
+}
+
 export function deactivate() {
-    httpBridge?.stop();
+    for (const folder of folders.values()) {
+        folder.httpBridge.stop();
+        // Export pending changes to the backlog mirror while the database is still open
+        folder.backlogMirror.dispose();
+    }
+    // Flushes any debounced writes before closing
     closeDatabase();
 }
 
+function runLegacyImport(taskStore: TaskStore, filePath: string, backup: boolean): void {
+    let result: LegacyImportResult;
+    try {
+        result = importLegacyTasksFile(filePath, taskStore, { backup });
+    } catch (error) {
+        vscode.window.showWarningMessage(`Could not import ${path.basename(filePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return;
+    }
+
+    const details: string[] = [];
+    if (result.skipped > 0) {
+        details.push(`${result.skipped} already present`);
+    }
+    if (result.statusesReset > 0) {
+        details.push(`${result.statusesReset} with an unknown status set to To Do`);
+    }
+    if (result.backupPath) {
+        details.push(`old file backed up as ${path.basename(result.backupPath)}`);
+    }
+    const summary = `Imported ${result.imported} task${result.imported === 1 ? '' : 's'} from ${path.basename(filePath)}`;
+    vscode.window.showInformationMessage(details.length > 0 ? `${summary} (${details.join('; ')}).` : `${summary}.`);
+}
+
+function showReadOnlyWarning(workspaceRoot: string): void {
+    selectDatabase(workspaceRoot);
+    const reason = getReadOnlyReason();
+    // Once per folder and window - the reason doesn't change until Shepherd is updated
+    if (!reason || readOnlyWarningsShown.has(workspaceRoot)) return;
+    readOnlyWarningsShown.add(workspaceRoot);
+    vscode.window.showErrorMessage(`${folderPrefix(workspaceRoot)}${reason}`);
+}
+
+async function handleExternalDatabaseChange(change: ExternalChange, workspaceRoot: string): Promise<void> {
+    const folder = folders.get(workspaceRoot);
+    if (!folder) return;
+
+    if (change === 'reloaded') {
+        folder.taskStore.handleDatabaseReloaded();
+        vscode.window.setStatusBarMessage(`Shepherd: reloaded ${folderPrefix(workspaceRoot)}tasks changed outside this window`, 5000);
+        showReadOnlyWarning(workspaceRoot);
+        return;
+    }
+
+    // Unsaved changes here and newer data on disk - saving is paused until the PM picks one.
+    // Every further edit re-raises the conflict, so only prompt once at a time.
+    if (conflictPromptsOpen.has(workspaceRoot)) return;
+    conflictPromptsOpen.add(workspaceRoot);
+    const action = await vscode.window.showWarningMessage(
+        `${folderPrefix(workspaceRoot)}Shepherd's task database was changed outside this window (another VS Code window or a git pull) while this window had unsaved changes. Changes here are not saved until you choose.`,
+        { modal: true },
+        'Load Newer Version',
+        'Keep This Window\'s Version'
+    );
+    conflictPromptsOpen.delete(workspaceRoot);
+    try {
+        // The folder may have left the workspace while the prompt was open
+        if (!folders.has(workspaceRoot)) return;
+        selectDatabase(workspaceRoot);
+        if (action === 'Load Newer Version') {
+            reloadDatabase();
+        } else if (action === 'Keep This Window\'s Version') {
+            overwriteDatabase();
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to resolve database conflict: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
 async function checkClaudeCodeInstalled(): Promise<boolean> {
     try {
         await execAsync('claude --version');
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase, closeDatabase, type Task, type TaskComment } from '../db';
+import { TaskStore } from '../tasks/TaskStore';
+import { HttpBridge } from './bridge';
+
+vi.mock('vscode', () => import('../test/vscode'));
+
+let root: string;
+let store: TaskStore;
+let bridge: HttpBridge;
+let port: number;
+
+beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-bridge-'));
+    await initDatabase(root);
+    store = new TaskStore(root);
+    bridge = new HttpBridge(store, root, () => {});
+    port = await bridge.start();
+});
+
+afterEach(() => {
+    bridge.stop();
+    store.dispose();
+    closeDatabase();
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+async function request<T = Record<string, unknown>>(method: string, pathname: string, body?: unknown): Promise<{ status: number; json: T }> {
+    const res = await fetch(`http://127.0.0.1:${port}${pathname}`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, json: await res.json() as T };
+}
+
+describe('comment routes', () => {
+    it('add comments as the agent and list them', async () => {
+        const task = store.createTask({ title: 'Login form' });
+
+        const added = await request('POST', `/tasks/${task.id}/comments`, { body: ' Which provider? ', kind: 'question', author: 'pm' });
+        expect(added.json).toMatchObject({ task_id: task.id, author: 'agent', kind: 'question', body: 'Which provider?' });
+        expect((await request('POST', `/tasks/${task.id}/comments`, { body: 'Started' })).json.kind).toBe('note');
+
+        const listed = await request<{ comments: TaskComment[] }>('GET', `/tasks/${task.id}/comments`);
+        expect(listed.json.comments.map(c => c.body)).toEqual(['Which provider?', 'Started']);
+        expect((await request<{ comments: TaskComment[] }>('GET', `/tasks/${task.id}`)).json.comments).toHaveLength(2);
+    });
+
+    it('refuse rework comments, empty bodies and unknown tasks', async () => {
+        const task = store.createTask({ title: 'Login form' });
+
+        expect(await request('POST', `/tasks/${task.id}/comments`, { body: 'Redo it', kind: 'rework' }))
+            .toEqual({ status: 500, json: { error: 'Invalid comment kind: rework' } });
+        expect(await request('POST', `/tasks/${task.id}/comments`, { body: '  ' }))
+            .toEqual({ status: 500, json: { error: 'Comment body is required' } });
+        expect(await request('POST', '/tasks/missing/comments', { body: 'Hello?' }))
+            .toEqual({ status: 500, json: { error: 'Task not found' } });
+        expect(store.getComments(task.id)).toEqual([]);
+    });
+});
+
+describe('task routes', () => {
+    it('list archived tasks only when asked to', async () => {
+        const archived = store.createTask({ title: 'Old work' });
+        const open = store.createTask({ title: 'New work' });
+        store.updateTaskStatus(archived.id, 'done');
+        store.archiveDoneTasks();
+
+        const ids = async (query: string) => (await request<{ tasks: Task[] }>('GET', `/tasks${query}`)).json.tasks.map(t => t.id);
+        expect(await ids('')).toEqual([open.id]);
+        expect(await ids('?include_archived=true')).toEqual([archived.id, open.id]);
+        expect(await ids('?include_archived=true&status=done')).toEqual([archived.id]);
+        // Archived tasks can still be looked up by id
+        expect((await request<Task>('GET', `/tasks/${archived.id}`)).json.archived_at).not.toBeNull();
+    });
+});
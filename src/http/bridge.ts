@@ -1,8 +1,28 @@
 import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
-import { TaskStore } from '../tasks/TaskStore';
+import { TaskStore, BRIDGE_ORIGIN } from '../tasks/TaskStore';
 import { TaskStatus } from '../tasks/types';
+import type { CommentKind } from '../db/types';
+import { SEARCH_MATCH_START, SEARCH_MATCH_END } from '../db';
+import { searchWorkspace } from '../search/search';
+import { isValidEstimate, ESTIMATE_POINTS } from '../tasks/estimates';
+import { listAttachments } from '../tasks/attachments';
+import { BUG_SEVERITIES, isValidSeverity, sortBySeverity, formatBugReport } from '../tasks/bugs';
+
+// Rework comments are written by the PM only, when sending a task back
+const AGENT_COMMENT_KINDS: CommentKind[] = ['note', 'question', 'signoff'];
+
+function samePath(a: string, b: string): boolean {
+    const resolve = (p: string) => {
+        try {
+            return fs.realpathSync(p);
+        } catch {
+            return path.resolve(p);
+        }
+    };
+    return resolve(a) === resolve(b);
+}
 
 export class HttpBridge {
     private server: http.Server | undefined;
@@ -48,6 +68,7 @@ export class HttpBridge {
         res.setHeader('Content-Type', 'application/json');
 
         try {
+            this.checkFolder(req);
             const body = await this.readBody(req);
             const result = await this.route(method, pathname, body, url.searchParams);
             res.writeHead(200);
@@ -58,6 +79,18 @@ export class HttpBridge {
         }
     }
 
+    /**
+     * Each folder's MCP server says which folder it belongs to. A stale .port file could
+     * otherwise point it at the bridge of another folder in a multi-root workspace.
+     */
+    private checkFolder(req: http.IncomingMessage): void {
+        const header = req.headers['x-shepherd-folder'];
+        if (typeof header !== 'string') return;
+        const folder = decodeURIComponent(header);
+        if (samePath(folder, this.workspaceRoot)) return;
+        throw new Error(`This Shepherd bridge serves ${this.workspaceRoot}, not ${folder}. Open that folder in VS Code to connect to its backlog.`);
+    }
+
     private async readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
         return new Promise((resolve) => {
             let data = '';
@@ -73,9 +106,9 @@ export class HttpBridge {
     }
 
     private async route(method: string, pathname: string, body: Record<string, unknown>, searchParams: URLSearchParams): Promise<unknown> {
-        // GET /tasks - list tasks with optional filters
+        // GET /tasks - list tasks with optional filters (archived tasks only with include_archived=true)
         if (method === 'GET' && pathname === '/tasks') {
-            let tasks = this.taskStore.getTasks();
+            let tasks = this.taskStore.getTasks({ include_archived: searchParams.get('include_archived') === 'true' });
 
             const status = searchParams.get('status');
             if (status) {
@@ -87,6 +120,15 @@ export class HttpBridge {
                 tasks = tasks.filter(t => t.feature_id === featureId);
             }
 
+            if (searchParams.get('unblocked') === 'true') {
+                tasks = tasks.filter(t => this.taskStore.getOpenBlockers(t.id).length === 0);
+            }
+
+            // sort=severity puts critical and high bugs first; the default is queue order
+            if (searchParams.get('sort') === 'severity') {
+                tasks = sortBySeverity(tasks);
+            }
+
             const limit = searchParams.get('limit');
             if (limit) {
                 tasks = tasks.slice(0, parseInt(limit, 10));
@@ -95,7 +137,7 @@ export class HttpBridge {
             return { tasks };
         }
 
-        // GET /tasks/next
+        // GET /tasks/next - skips tasks with unfinished blockers
         if (method === 'GET' && pathname === '/tasks/next') {
             return this.taskStore.getNextTodo();
         }
@@ -103,14 +145,60 @@ export class HttpBridge {
         // GET /tasks/:id
         const taskMatch = pathname.match(/^\/tasks\/([^/]+)$/);
         if (method === 'GET' && taskMatch) {
-            return this.taskStore.getTask(taskMatch[1]);
+            const task = this.taskStore.getTask(taskMatch[1]);
+            if (!task) return null;
+            return {
+                ...task,
+                blocked_by: this.taskStore.getOpenBlockers(task.id),
+                acceptance_criteria: this.taskStore.getCriteria(task.id),
+                comments: this.taskStore.getComments(task.id),
+                attachments: listAttachments(this.workspaceRoot, task.id),
+                locations: this.taskStore.getLocations(task.id).map(l => ({ path: l.path, start_line: l.start_line, end_line: l.end_line })),
+                commits: this.taskStore.getCommits(task.id),
+                ...(task.type === 'bug' && { bug_report: formatBugReport(task) })
+            };
         }
 
         // PATCH /tasks/:id/status
         const statusMatch = pathname.match(/^\/tasks\/([^/]+)\/status$/);
         if (method === 'PATCH' && statusMatch) {
             const status = body.status as TaskStatus;
-            return this.taskStore.updateTask(statusMatch[1], { status });
+            return this.taskStore.updateTask(statusMatch[1], { status }, BRIDGE_ORIGIN);
+        }
+
+        // GET /tasks/:id/history
+        const historyMatch = pathname.match(/^\/tasks\/([^/]+)\/history$/);
+        if (method === 'GET' && historyMatch) {
+            return { events: this.taskStore.getTaskHistory(historyMatch[1]) };
+        }
+
+        // GET /tasks/:id/comments
+        const commentsMatch = pathname.match(/^\/tasks\/([^/]+)\/comments$/);
+        if (method === 'GET' && commentsMatch) {
+            return { comments: this.taskStore.getComments(commentsMatch[1]) };
+        }
+
+        // POST /tasks/:id/comments - comments from the bridge are always authored by the agent
+        if (method === 'POST' && commentsMatch) {
+            const commentBody = (body.body as string | undefined)?.trim();
+            const kind = (body.kind as CommentKind | undefined) || 'note';
+            if (!commentBody) {
+                throw new Error('Comment body is required');
+            }
+            if (!AGENT_COMMENT_KINDS.includes(kind)) {
+                throw new Error(`Invalid comment kind: ${kind}`);
+            }
+            return this.taskStore.addComment(commentsMatch[1], { author: 'agent', kind, body: commentBody });
+        }
+
+        // PATCH /tasks/:id/criteria/:criterionId - tick or untick an acceptance criterion
+        const criterionMatch = pathname.match(/^\/tasks\/([^/]+)\/criteria\/([^/]+)$/);
+        if (method === 'PATCH' && criterionMatch) {
+            const criterion = this.taskStore.getCriterion(criterionMatch[2]);
+            if (!criterion || criterion.task_id !== criterionMatch[1]) {
+                throw new Error('Acceptance criterion not found on this task');
+            }
+            return this.taskStore.updateCriterion(criterion.id, { checked: body.checked !== false });
         }
 
         // POST /tasks
@@ -119,12 +207,38 @@ export class HttpBridge {
             const description = (body.description as string) || '';
             const featureId = body.feature_id as string | undefined;
             const taskType = (body.type as 'task' | 'bug') || 'task';
-            return this.taskStore.addTask(title, description, featureId, taskType);
+            if (body.estimate !== undefined && !isValidEstimate(body.estimate)) {
+                throw new Error(`estimate must be one of ${ESTIMATE_POINTS.join(', ')}`);
+            }
+            if (featureId && !this.taskStore.getFeature(featureId)) {
+                throw new Error(`Feature ${featureId} not found`);
+            }
+            if (body.severity !== undefined && body.severity !== null && !isValidSeverity(body.severity)) {
+                throw new Error(`severity must be one of ${BUG_SEVERITIES.join(', ')}`);
+            }
+            const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+            return this.taskStore.createTask({
+                title,
+                description,
+                feature_id: featureId || null,
+                type: taskType,
+                estimate: body.estimate ?? null,
+                severity: body.severity ?? null,
+                repro_steps: text(body.repro_steps),
+                expected_result: text(body.expected_result),
+                actual_result: text(body.actual_result),
+                environment: text(body.environment)
+            }, BRIDGE_ORIGIN);
         }
 
-        // GET /features - list all features
+        // GET /features - list all features, optionally only those in one milestone
         if (method === 'GET' && pathname === '/features') {
-            return { features: this.taskStore.getFeatures() };
+            let features = this.taskStore.getFeatures();
+            const milestoneId = searchParams.get('milestone_id');
+            if (milestoneId) {
+                features = features.filter(f => f.milestone_id === milestoneId);
+            }
+            return { features };
         }
 
         // GET /features/:id
@@ -137,7 +251,45 @@ export class HttpBridge {
         if (method === 'POST' && pathname === '/features') {
             const title = body.title as string;
             const description = body.description as string | undefined;
-            return this.taskStore.createFeature({ title, description });
+            const milestoneId = body.milestone_id as string | undefined;
+            if (milestoneId && !this.taskStore.getMilestone(milestoneId)) {
+                throw new Error('Milestone not found');
+            }
+            return this.taskStore.createFeature({ title, description, milestone_id: milestoneId || null }, BRIDGE_ORIGIN);
+        }
+
+        // GET /milestones - releases by target date, with the ids of their features
+        if (method === 'GET' && pathname === '/milestones') {
+            const features = this.taskStore.getFeatures();
+            return {
+                milestones: this.taskStore.getMilestones().map(m => ({
+                    ...m,
+                    feature_ids: features.filter(f => f.milestone_id === m.id).map(f => f.id)
+                }))
+            };
+        }
+
+        // GET /milestones/current - the open milestone due first, with its features and open tasks
+        if (method === 'GET' && pathname === '/milestones/current') {
+            const current = this.taskStore.getCurrentMilestone();
+            return current ? this.milestoneScope(current.id) : null;
+        }
+
+        // GET /milestones/:id
+        const milestoneMatch = pathname.match(/^\/milestones\/([^/]+)$/);
+        if (method === 'GET' && milestoneMatch) {
+            return this.milestoneScope(milestoneMatch[1]);
+        }
+
+        // GET /search?q= - full-text search over tasks, features and requirement docs
+        if (method === 'GET' && pathname === '/search') {
+            const results = await searchWorkspace(this.taskStore, this.workspaceRoot, searchParams.get('q') || '', {
+                include_archived: searchParams.get('include_archived') === 'true',
+                limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined
+            });
+            // Agents get markdown emphasis instead of the control-character markers
+            const emphasize = (text: string) => text.split(SEARCH_MATCH_START).join('**').split(SEARCH_MATCH_END).join('**');
+            return { results: results.map(r => ({ ...r, title: emphasize(r.title), snippet: emphasize(r.snippet) })) };
         }
 
         // GET /requirements
@@ -179,6 +331,18 @@ export class HttpBridge {
         return { error: 'Not found' };
     }
 
+    /**
+     * A milestone with the features assigned to it and their unfinished tasks
+     */
+    private milestoneScope(id: string): unknown {
+        const milestone = this.taskStore.getMilestone(id);
+        if (!milestone) return null;
+        const features = this.taskStore.getFeatures().filter(f => f.milestone_id === id);
+        const featureIds = new Set(features.map(f => f.id));
+        const tasks = this.taskStore.getTasks().filter(t => t.feature_id && featureIds.has(t.feature_id) && t.status !== 'done');
+        return { ...milestone, features, tasks };
+    }
+
     private async listRequirements(): Promise<{ files: Array<{ path: string; title: string }> }> {
         const requirementsDir = path.join(this.workspaceRoot, 'docs', 'requirements');
         try {
@@ -213,6 +377,7 @@ export class HttpBridge {
     stop(): void {
         if (this.server) {
             this.server.close();
+            this.server = undefined;
             const portFile = path.join(this.workspaceRoot, '.shepherd', '.port');
             try {
                 fs.unlinkSync(portFile);
@@ -9,6 +9,8 @@ const fs = require('fs');
 const path = require('path');
 
 const portFile = path.join(__dirname, '.port');
+// The workspace folder this server belongs to - the bridge refuses requests meant for another folder
+const workspaceFolder = path.dirname(__dirname);
 let port;
 
 function waitForPort() {
@@ -34,7 +36,7 @@ async function callBridge(method, endpoint, body) {
             port,
             path: endpoint,
             method,
-            headers: { 'Content-Type': 'application/json' }
+            headers: { 'Content-Type': 'application/json', 'X-Shepherd-Folder': encodeURIComponent(workspaceFolder) }
         };
         const req = http.request(options, (res) => {
             let data = '';
@@ -54,20 +56,37 @@ async function callBridge(method, endpoint, body) {
 }
 
 const tools = {
-    list_tasks: async ({ limit, status, feature_id }) => {
+    list_tasks: async ({ limit, status, feature_id, unblocked, include_archived, sort }) => {
         const params = new URLSearchParams();
         if (limit) params.set('limit', String(limit));
         if (status) params.set('status', status);
         if (feature_id) params.set('feature_id', feature_id);
+        if (unblocked) params.set('unblocked', 'true');
+        if (include_archived) params.set('include_archived', 'true');
+        if (sort) params.set('sort', sort);
         const query = params.toString();
         return callBridge('GET', '/tasks' + (query ? '?' + query : ''));
     },
+    search: async ({ query, include_archived, limit }) => {
+        const params = new URLSearchParams({ q: query || '' });
+        if (include_archived) params.set('include_archived', 'true');
+        if (limit) params.set('limit', String(limit));
+        return callBridge('GET', '/search?' + params.toString());
+    },
+    get_next_task: async () => callBridge('GET', '/tasks/next'),
     get_task: async ({ task_id }) => callBridge('GET', \`/tasks/\${task_id}\`),
     update_task_status: async ({ task_id, status }) => callBridge('PATCH', \`/tasks/\${task_id}/status\`, { status }),
-    create_task: async ({ title, description, feature_id, type }) => callBridge('POST', '/tasks', { title, description, feature_id, type }),
-    list_features: async () => callBridge('GET', '/features'),
+    get_task_history: async ({ task_id }) => callBridge('GET', \`/tasks/\${task_id}/history\`),
+    list_comments: async ({ task_id }) => callBridge('GET', \`/tasks/\${task_id}/comments\`),
+    add_comment: async ({ task_id, body, kind }) => callBridge('POST', \`/tasks/\${task_id}/comments\`, { body, kind }),
+    check_criterion: async ({ task_id, criterion_id, checked }) => callBridge('PATCH', \`/tasks/\${task_id}/criteria/\${criterion_id}\`, { checked }),
+    create_task: async ({ title, description, feature_id, type, estimate, severity, repro_steps, expected_result, actual_result, environment }) => callBridge('POST', '/tasks', { title, description, feature_id, type, estimate, severity, repro_steps, expected_result, actual_result, environment }),
+    list_features: async ({ milestone_id }) => callBridge('GET', '/features' + (milestone_id ? '?milestone_id=' + encodeURIComponent(milestone_id) : '')),
     get_feature: async ({ feature_id }) => callBridge('GET', \`/features/\${feature_id}\`),
-    create_feature: async ({ title, description }) => callBridge('POST', '/features', { title, description }),
+    create_feature: async ({ title, description, milestone_id }) => callBridge('POST', '/features', { title, description, milestone_id }),
+    list_milestones: async () => callBridge('GET', '/milestones'),
+    get_current_milestone: async () => callBridge('GET', '/milestones/current'),
+    get_milestone: async ({ milestone_id }) => callBridge('GET', \`/milestones/\${milestone_id}\`),
     list_requirements: async () => callBridge('GET', '/requirements'),
     get_requirements_path: async () => callBridge('GET', '/requirements/path'),
     get_task_requirement: async ({ task_id }) => callBridge('GET', \`/tasks/\${task_id}/requirement\`),
@@ -76,13 +95,22 @@ const tools = {
 };
 
 const toolDefinitions = [
-    { name: 'list_tasks', description: 'List tasks and bugs sorted by priority. Use limit=1 and status=todo to get the next task to work on.', inputSchema: { type: 'object', properties: { limit: { type: 'number', description: 'Max number of tasks to return' }, status: { type: 'string', enum: ['todo', 'in-progress', 'ready-for-signoff', 'done', 'rework'], description: 'Filter by status' }, feature_id: { type: 'string', description: 'Filter by feature ID' } } } },
-    { name: 'get_task', description: 'Get a task or bug by ID', inputSchema: { type: 'object', properties: { task_id: { type: 'string' } }, required: ['task_id'] } },
+    { name: 'list_tasks', description: 'List tasks and bugs in queue order (one order across all features). To pick the next task to work on, use get_next_task instead.', inputSchema: { type: 'object', properties: { limit: { type: 'number', description: 'Max number of tasks to return' }, status: { type: 'string', enum: ['todo', 'in-progress', 'ready-for-signoff', 'done', 'rework'], description: 'Filter by status' }, feature_id: { type: 'string', description: 'Filter by feature ID' }, unblocked: { type: 'boolean', description: 'Only return tasks whose blockers are done or ready for signoff' }, include_archived: { type: 'boolean', description: 'Also return archived tasks (hidden by default)' }, sort: { type: 'string', enum: ['priority', 'severity'], description: 'severity puts critical and high bugs first and low bugs last; default (priority) is queue order' } } } },
+    { name: 'search', description: 'Full-text search across task and bug titles and descriptions, features and requirement docs. Use it to find related or duplicate work before creating tasks. Matched words are wrapped in **.', inputSchema: { type: 'object', properties: { query: { type: 'string', description: 'Words to look for (all must match, prefix matching)' }, include_archived: { type: 'boolean', description: 'Also search archived tasks' }, limit: { type: 'number', description: 'Max number of results (default 50)' } }, required: ['query'] } },
+    { name: 'get_next_task', description: 'Get the next todo task that is not blocked by unfinished tasks: critical and high severity bugs first, then in queue order', inputSchema: { type: 'object', properties: {} } },
+    { name: 'get_task', description: 'Get a task or bug by ID. blocked_by lists unfinished tasks that must land first; acceptance_criteria is the checklist the work must satisfy; comments is the PM/agent thread, including rework feedback; attachments are files the PM attached (screenshots, logs) - read them by path. locations are the places in the code the task is about (path relative to the project root, 1-based start_line and end_line) - start there. commits are the git commits linked to the task (newest first), e.g. from an earlier build. Bugs also have bug_report, a Markdown report with severity, steps to reproduce, expected and actual result, and environment.', inputSchema: { type: 'object', properties: { task_id: { type: 'string' } }, required: ['task_id'] } },
     { name: 'update_task_status', description: 'Update task or bug status. Use ready-for-signoff when work is complete (PM will review and mark done).', inputSchema: { type: 'object', properties: { task_id: { type: 'string' }, status: { type: 'string', enum: ['todo', 'in-progress', 'ready-for-signoff', 'done', 'rework'], description: 'todo=not started, in-progress=working, ready-for-signoff=complete awaiting review, done=approved, rework=needs changes' } }, required: ['task_id', 'status'] } },
-    { name: 'create_task', description: 'Create a new task or bug', inputSchema: { type: 'object', properties: { title: { type: 'string', description: 'Short task title' }, description: { type: 'string', description: 'Detailed task description' }, feature_id: { type: 'string', description: 'Feature ID to attach task to' }, type: { type: 'string', enum: ['task', 'bug'], description: 'Task type' } }, required: ['title'] } },
-    { name: 'list_features', description: 'List all features sorted by priority', inputSchema: { type: 'object', properties: {} } },
+    { name: 'get_task_history', description: 'Get the change history of a task or bug: status transitions, edits, moves, and who made them (pm or agent)', inputSchema: { type: 'object', properties: { task_id: { type: 'string' } }, required: ['task_id'] } },
+    { name: 'check_criterion', description: 'Tick an acceptance criterion once the work satisfies it (or untick it). Criterion IDs come from get_task. Tick every criterion before setting ready-for-signoff.', inputSchema: { type: 'object', properties: { task_id: { type: 'string' }, criterion_id: { type: 'string' }, checked: { type: 'boolean', description: 'true to tick, false to untick' } }, required: ['task_id', 'criterion_id', 'checked'] } },
+    { name: 'list_comments', description: 'List the comment thread on a task: PM notes, rework feedback, questions and signoff notes, oldest first', inputSchema: { type: 'object', properties: { task_id: { type: 'string' } }, required: ['task_id'] } },
+    { name: 'add_comment', description: 'Add a comment to a task thread for the PM. Use kind=question when you need a decision, signoff to summarize finished work before setting ready-for-signoff.', inputSchema: { type: 'object', properties: { task_id: { type: 'string' }, body: { type: 'string', description: 'Comment text (markdown)' }, kind: { type: 'string', enum: ['note', 'question', 'signoff'], description: 'Defaults to note' } }, required: ['task_id', 'body'] } },
+    { name: 'create_task', description: 'Create a new task or bug', inputSchema: { type: 'object', properties: { title: { type: 'string', description: 'Short task title' }, description: { type: 'string', description: 'Detailed task description' }, feature_id: { type: 'string', description: 'Feature ID to attach task to' }, type: { type: 'string', enum: ['task', 'bug'], description: 'Task type' }, estimate: { type: 'number', enum: [1, 2, 3, 5, 8], description: 'Story points: 1=XS (under an hour), 2=S, 3=M (half a day), 5=L (a day), 8=XL (several days)' }, severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low'], description: 'Bugs only: how bad it is' }, repro_steps: { type: 'string', description: 'Bugs only: steps to reproduce' }, expected_result: { type: 'string', description: 'Bugs only: what should happen' }, actual_result: { type: 'string', description: 'Bugs only: what happens instead' }, environment: { type: 'string', description: 'Bugs only: OS, browser, version, configuration' } }, required: ['title'] } },
+    { name: 'list_features', description: 'List all features in board order. milestone_id on each feature is the release it ships in.', inputSchema: { type: 'object', properties: { milestone_id: { type: 'string', description: 'Only features in this milestone' } } } },
     { name: 'get_feature', description: 'Get a feature by ID', inputSchema: { type: 'object', properties: { feature_id: { type: 'string' } }, required: ['feature_id'] } },
-    { name: 'create_feature', description: 'Create a new feature to group related tasks', inputSchema: { type: 'object', properties: { title: { type: 'string', description: 'Feature title' }, description: { type: 'string', description: 'Feature description' } }, required: ['title'] } },
+    { name: 'create_feature', description: 'Create a new feature to group related tasks', inputSchema: { type: 'object', properties: { title: { type: 'string', description: 'Feature title' }, description: { type: 'string', description: 'Feature description' }, milestone_id: { type: 'string', description: 'Milestone (release) the feature ships in' } }, required: ['title'] } },
+    { name: 'list_milestones', description: 'List milestones (releases) by target date, with their status and the IDs of the features in each', inputSchema: { type: 'object', properties: {} } },
+    { name: 'get_current_milestone', description: 'Get the release currently in scope: the open milestone with the earliest target date, its features and their unfinished tasks. Prefer tasks in this milestone; returns null when no milestone is open.', inputSchema: { type: 'object', properties: {} } },
+    { name: 'get_milestone', description: 'Get a milestone by ID with its features and their unfinished tasks', inputSchema: { type: 'object', properties: { milestone_id: { type: 'string' } }, required: ['milestone_id'] } },
     { name: 'list_requirements', description: 'List all requirement files', inputSchema: { type: 'object', properties: {} } },
     { name: 'get_requirements_path', description: 'Get the requirements folder path', inputSchema: { type: 'object', properties: {} } },
     { name: 'get_task_requirement', description: 'Get the requirement path for a task (via its feature)', inputSchema: { type: 'object', properties: { task_id: { type: 'string' } }, required: ['task_id'] } },
@@ -176,14 +204,18 @@ async function promptGitignore(workspaceRoot: string): Promise<void> {
         'Should Shepherd files be added to .gitignore?',
         {
             modal: true,
-            detail: 'Yes (Recommended): Each developer has their own task queue and database.\n\nNo: Share task state across the team (commits tasks to repo).'
+            detail: 'Yes (Recommended): Each developer has their own task queue and database.\n\nShare via Git: Ignore the database but commit a text copy of the backlog (.shepherd/backlog/) that merges like code, and the task templates (.shepherd/templates/).\n\nNo: Commit everything, including the binary database.'
         },
         'Yes (Recommended)',
+        'Share via Git',
         'No'
     );
 
     if (choice === 'Yes (Recommended)') {
         await addToGitignore(gitignorePath, shepherdPattern);
+    } else if (choice === 'Share via Git') {
+        await addToGitignore(gitignorePath, '.shepherd/*\n!.shepherd/backlog/\n!.shepherd/templates/');
+        await vscode.workspace.getConfiguration('shepherd').update('backlogSync', true, vscode.ConfigurationTarget.Workspace);
     }
 }
 
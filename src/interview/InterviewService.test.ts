@@ -1,6 +1,14 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { INTERVIEW_RESPONSE_SCHEMA } from '../prompts';
+import { initDatabase, getDatabase, closeDatabase } from '../db/database';
+import { SessionRepo } from '../db/repositories/sessionRepo';
+import { InterviewService, parseSessionProposal, parseRejectedProposals, parseSessionMessages, type InterviewCallbacks, type InterviewProposal } from './InterviewService';
+
+vi.mock('vscode', () => import('../test/vscode'));
 
 // Use the centralized schema
 const RESPONSE_SCHEMA = INTERVIEW_RESPONSE_SCHEMA;
@@ -18,6 +26,17 @@ describe('InterviewService Schema', () => {
         expect(RESPONSE_SCHEMA.properties.type.enum).toContain('questions');
         expect(RESPONSE_SCHEMA.properties.type.enum).toContain('proposal');
     });
+
+    it('proposal tasks can carry acceptance criteria', () => {
+        const taskProps = RESPONSE_SCHEMA.properties.tasks.items.properties;
+        expect(taskProps.acceptanceCriteria.type).toBe('array');
+        expect(taskProps.acceptanceCriteria.items.type).toBe('string');
+    });
+
+    it('proposal tasks can suggest a story-point estimate', () => {
+        const taskProps = RESPONSE_SCHEMA.properties.tasks.items.properties;
+        expect(taskProps.estimate.enum).toEqual([1, 2, 3, 5, 8]);
+    });
 });
 
 describe('Claude CLI Integration', () => {
@@ -136,3 +155,86 @@ describe('Response Parsing', () => {
         expect(result.response.type).toBe('questions');
     });
 });
+
+describe('Interview history', () => {
+    let root: string;
+    let service: InterviewService;
+
+    const proposal = (title: string): InterviewProposal => ({
+        requirementDoc: `# ${title}`,
+        requirementPath: `docs/requirements/${title.toLowerCase()}.md`,
+        features: [{ title, description: '' }],
+        tasks: [],
+    });
+    const messages = [{ role: 'user', content: 'Add login' }, { role: 'assistant', content: 'Which providers?' }];
+
+    function callbacks(): InterviewCallbacks {
+        return { onMessage: vi.fn(), onQuestion: vi.fn(), onThinking: vi.fn(), onProposal: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    }
+
+    beforeEach(async () => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-interviews-'));
+        await initDatabase(root);
+        service = new InterviewService(root);
+    });
+
+    afterEach(() => {
+        service.stop();
+        closeDatabase();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('reads what a session saved and tolerates missing or broken JSON', () => {
+        const session = SessionRepo.update(SessionRepo.create('feature', 'Add login').id, {
+            conversation: JSON.stringify(messages),
+            proposed_output: JSON.stringify(proposal('Login')),
+            rejected_proposals: '{not json',
+        })!;
+
+        expect(parseSessionMessages(session)).toEqual(messages);
+        expect(parseSessionProposal(session)).toEqual(proposal('Login'));
+        expect(parseRejectedProposals(session)).toEqual([]);
+        expect(parseSessionProposal({ ...session, proposed_output: null })).toBeNull();
+    });
+
+    it('reopens a session with a pending proposal straight into review', async () => {
+        const session = SessionRepo.update(SessionRepo.create('feature', 'Add login').id, {
+            status: 'proposed',
+            conversation: JSON.stringify(messages),
+            proposed_output: JSON.stringify(proposal('Login')),
+        })!;
+        const handlers = callbacks();
+
+        expect(await service.resume(session.id, handlers)).toBe(true);
+        expect(vi.mocked(handlers.onMessage).mock.calls.map(([m]) => m)).toEqual(messages);
+        expect(handlers.onProposal).toHaveBeenCalledWith(proposal('Login'));
+        expect(service.getSessionId()).toBe(session.id);
+    });
+
+    it('brings back a rejected proposal and keeps the one it replaces', async () => {
+        const session = SessionRepo.update(SessionRepo.create('feature', 'Add login').id, {
+            status: 'proposed',
+            proposed_output: JSON.stringify(proposal('Second')),
+            rejected_proposals: JSON.stringify([{ proposal: proposal('First'), feedback: 'Too big', rejected_at: '' }]),
+        })!;
+        const handlers = callbacks();
+
+        expect(await service.resume(session.id, handlers, 0)).toBe(true);
+        expect(handlers.onProposal).toHaveBeenCalledWith(proposal('First'));
+
+        const saved = service.getSession(session.id)!;
+        expect(parseSessionProposal(saved)).toEqual(proposal('First'));
+        expect(parseRejectedProposals(saved).map(r => r.proposal)).toEqual([proposal('Second')]);
+    });
+
+    it('lists every session, most recent first, and does not reopen finished ones', async () => {
+        const done = SessionRepo.update(SessionRepo.create('feature', 'Old').id, { status: 'complete' })!;
+        const open = SessionRepo.update(SessionRepo.create('bug', 'New').id, { status: 'clarifying' })!;
+        getDatabase().run("UPDATE requirement_sessions SET updated_at = '2025-01-01 09:00:00' WHERE id = ?", [done.id]);
+
+        expect(service.getSessions().map(s => s.id)).toEqual([open.id, done.id]);
+        expect(service.getActiveSessions().map(s => s.id)).toEqual([open.id]);
+        expect(await service.resume(done.id, callbacks())).toBe(false);
+        expect(await service.resume('missing', callbacks())).toBe(false);
+    });
+});
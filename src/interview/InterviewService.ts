@@ -1,5 +1,6 @@
 import { spawn, ChildProcess } from 'child_process';
 import * as crypto from 'crypto';
+import { selectDatabase } from '../db/database';
 import { SessionRepo } from '../db/repositories/sessionRepo';
 import type { RequirementSession } from '../db/types';
 import { INTERVIEW_RESPONSE_SCHEMA, INTERVIEW_PROMPTS, INTENSITY_PROMPTS, type InterviewScope, type ThoughtPartnerIntensity } from '../prompts';
@@ -23,6 +24,8 @@ export interface InterviewProposal {
         description: string;
         featureIndex?: number;        // Index into NEW features array (from this proposal)
         existingFeatureId?: string;   // ID of existing feature to add task to
+        acceptanceCriteria?: string[];  // Checklist items for the task
+        estimate?: number;              // Suggested story points (1, 2, 3, 5 or 8)
     }[];
     proposedDesignMd?: string;  // Complete proposed design.md content (replaces existing)
 }
@@ -32,6 +35,47 @@ export interface InterviewMessage {
     content: string;
 }
 
+/**
+ * A proposal the PM sent back for revision, kept on the session so it can still be approved
+ */
+export interface RejectedProposal {
+    proposal: InterviewProposal;
+    feedback: string;
+    rejected_at: string;
+}
+
+/**
+ * The proposal a session is waiting on, if its stored output parses
+ */
+export function parseSessionProposal(session: RequirementSession): InterviewProposal | null {
+    if (!session.proposed_output) return null;
+    try {
+        return JSON.parse(session.proposed_output) as InterviewProposal;
+    } catch {
+        return null;
+    }
+}
+
+export function parseRejectedProposals(session: RequirementSession): RejectedProposal[] {
+    if (!session.rejected_proposals) return [];
+    try {
+        const parsed = JSON.parse(session.rejected_proposals);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+export function parseSessionMessages(session: RequirementSession): InterviewMessage[] {
+    if (!session.conversation) return [];
+    try {
+        const parsed = JSON.parse(session.conversation);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
 export interface InterviewCallbacks {
     onMessage: (message: InterviewMessage) => void;
     onQuestion: (question: InterviewQuestion) => void;
@@ -84,7 +128,8 @@ export class InterviewService {
             this.stop();
         }
 
-        // Create session in database
+        // Create session in this folder's database
+        selectDatabase(this.workspaceRoot);
         this.session = SessionRepo.create(scope, initialInput || '');
         this.scope = scope;
         this.intensity = intensity;
@@ -191,12 +236,20 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
         return sections.length > 0 ? sections.join('\n\n') : null;
     }
 
-    
+    /**
+     * Reopen a session that was left unfinished, e.g. when VS Code was closed mid-interview.
+     * A session with a pending proposal goes straight back to review; otherwise the conversation
+     * is replayed to a new Claude session so the interview can carry on.
+     * @param rejectedIndex Review this previously rejected proposal instead of the current one
+     * @returns false if the session doesn't exist or is already complete
+     */
     async resume(
         sessionId: string,
-        callbacks: InterviewCallbacks
+        callbacks: InterviewCallbacks,
+        rejectedIndex?: number
     ): Promise<boolean> {
-        const session = SessionRepo.get(sessionId);
+        selectDatabase(this.workspaceRoot);
+        let session = SessionRepo.get(sessionId);
         if (!session || session.status === 'complete') {
             return false;
         }
@@ -205,56 +258,72 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
             this.stop();
         }
 
+        if (rejectedIndex !== undefined) {
+            session = this.restoreRejectedProposal(session, rejectedIndex) ?? session;
+        }
+
         this.session = session;
         this.scope = session.scope as InterviewScope;
         this.callbacks = callbacks;
         this.buffer = '';
-
-        // Generate new Claude session ID for resumed interview
-        // (We can't restore the original Claude CLI session, so we replay history)
-        this.claudeSessionId = crypto.randomUUID();
         this.accumulatedRequirements = [];
         this.lastParsedResponse = null;
         this.pendingRetry = false;
         this.retryCount = 0;
 
-        // Restore messages from conversation
-        if (session.conversation) {
-            try {
-                this.messages = JSON.parse(session.conversation);
-                // Replay messages to UI
-                for (const msg of this.messages) {
-                    callbacks.onMessage(msg);
-                }
-            } catch {
-                this.messages = [];
-            }
-        } else {
-            this.messages = [];
+        // Restore messages from conversation and replay them to the UI
+        this.messages = parseSessionMessages(session);
+        for (const msg of this.messages) {
+            callbacks.onMessage(msg);
         }
 
-        // Restore proposal if available
-        if (session.proposed_output) {
-            try {
-                const proposal = JSON.parse(session.proposed_output);
-                callbacks.onProposal(proposal);
-            } catch {
-                // No valid proposal
-            }
+        // Waiting on review - Claude is only needed again if the PM rejects the proposal
+        const proposal = parseSessionProposal(session);
+        if (proposal) {
+            this.claudeSessionId = null;
+            callbacks.onProposal(proposal);
+            return true;
         }
 
+        // We can't restore the original Claude CLI session, so start a new one and replay history
+        this.claudeSessionId = crypto.randomUUID();
         await this.spawnClaudeProcess();
+        this.sendReplay('Please continue.');
 
-        // Re-send conversation history to Claude
-        if (this.messages.length > 0 && this.process?.stdin) {
-            const history = this.messages
-                .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
-                .join('\n\n');
-            this.process.stdin.write(`Continue this conversation:\n\n${history}\n\nPlease continue.\n`);
-            this.process.stdin.end();  // Claude CLI -p mode needs EOF to process
+        return true;
+    }
+
+    /**
+     * Make a rejected proposal the one under review again. The proposal it replaces
+     * (if any) joins the rejected list, so nothing the PM might still want is lost.
+     */
+    private restoreRejectedProposal(session: RequirementSession, index: number): RequirementSession | null {
+        const rejected = parseRejectedProposals(session);
+        const restored = rejected[index];
+        if (!restored) return null;
+
+        const remaining = rejected.filter((_, i) => i !== index);
+        const current = parseSessionProposal(session);
+        if (current) {
+            remaining.push({ proposal: current, feedback: '', rejected_at: new Date().toISOString() });
         }
+        return SessionRepo.update(session.id, {
+            status: 'proposed',
+            proposed_output: JSON.stringify(restored.proposal),
+            rejected_proposals: JSON.stringify(remaining)
+        });
+    }
 
-        return true;
+    /**
+     * Send the conversation so far to a fresh Claude session
+     */
+    private sendReplay(instruction: string): void {
+        if (this.messages.length === 0 || !this.process?.stdin) return;
+        const history = this.messages
+            .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+            .join('\n\n');
+        this.process.stdin.write(`Continue this conversation:\n\n${history}\n\n${instruction}\n`);
+        this.process.stdin.end();  // Claude CLI -p mode needs EOF to process
     }
 
     private async spawnClaudeProcess(isResume: boolean = false): Promise<void> {
@@ -347,9 +416,28 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
     }
 
     rejectProposal(feedback: string): void {
+        this.shelveProposal(feedback);
         this.continueConversation(`Please revise the proposal: ${feedback}`);
     }
 
+    /**
+     * Move the proposal under review to the session's rejected list
+     */
+    private shelveProposal(feedback: string): void {
+        if (!this.session) return;
+        selectDatabase(this.workspaceRoot);
+        const session = SessionRepo.get(this.session.id);
+        const proposal = session && parseSessionProposal(session);
+        if (!session || !proposal) return;
+
+        const rejected = [...parseRejectedProposals(session), { proposal, feedback, rejected_at: new Date().toISOString() }];
+        this.session = SessionRepo.update(session.id, {
+            status: 'clarifying',
+            proposed_output: null,
+            rejected_proposals: JSON.stringify(rejected)
+        }) ?? this.session;
+    }
+
     private async continueConversation(userMessage: string): Promise<void> {
         // Add user message to history and UI
         this.messages.push({ role: 'user', content: userMessage });
@@ -366,6 +454,14 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
             this.process = null;
         }
 
+        // Reopened for review without a Claude session yet - start one with the history so far
+        if (!this.claudeSessionId) {
+            this.claudeSessionId = crypto.randomUUID();
+            await this.spawnClaudeProcess();
+            this.sendReplay('Please respond to the last message.');
+            return;
+        }
+
         // Resume the Claude session - it maintains conversation context
         await this.spawnClaudeProcess(true);  // true = resume mode
 
@@ -393,6 +489,7 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
 
     cancel(): void {
         if (this.session) {
+            selectDatabase(this.workspaceRoot);
             SessionRepo.update(this.session.id, { status: 'cancelled' });
         }
         this.stop();
@@ -400,6 +497,7 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
 
     complete(): void {
         if (this.session) {
+            selectDatabase(this.workspaceRoot);
             SessionRepo.update(this.session.id, { status: 'complete' });
         }
         this.stop();
@@ -407,14 +505,31 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
 
     private persistConversation(): void {
         if (this.session) {
+            selectDatabase(this.workspaceRoot);
             SessionRepo.update(this.session.id, {
                 conversation: JSON.stringify(this.messages)
             });
         }
     }
 
+    /**
+     * Keep Claude's questions in the saved conversation (without showing them as messages)
+     * so a reopened interview can replay what was asked
+     */
+    private recordQuestions(questions: string[]): void {
+        this.messages.push({ role: 'assistant', content: questions.join('\n') });
+        if (this.session) {
+            selectDatabase(this.workspaceRoot);
+            SessionRepo.update(this.session.id, {
+                conversation: JSON.stringify(this.messages),
+                status: 'clarifying'
+            });
+        }
+    }
+
     private persistProposal(proposal: InterviewProposal): void {
         if (this.session) {
+            selectDatabase(this.workspaceRoot);
             SessionRepo.update(this.session.id, {
                 proposed_output: JSON.stringify(proposal),
                 status: 'proposed'
@@ -422,7 +537,21 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
         }
     }
 
+    /**
+     * All interviews of this folder, most recent first
+     */
+    getSessions(): RequirementSession[] {
+        selectDatabase(this.workspaceRoot);
+        return SessionRepo.list();
+    }
+
+    getSession(sessionId: string): RequirementSession | null {
+        selectDatabase(this.workspaceRoot);
+        return SessionRepo.get(sessionId);
+    }
+
     getActiveSessions(): RequirementSession[] {
+        selectDatabase(this.workspaceRoot);
         return SessionRepo.getActive();
     }
 
@@ -503,6 +632,7 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
                 };
                 this.retryCount = 0;  // Valid response, reset retry counter
                 // Note: We don't add questions as messages since the UI displays them separately
+                this.recordQuestions([question.text]);
                 this.callbacks?.onQuestion(question);
                 break;
             }
@@ -520,6 +650,7 @@ NOTE: If you propose visual/UI changes (colors, typography, spacing, UI patterns
                 }
                 this.retryCount = 0;  // Valid response, reset retry counter
                 // Note: We don't add questions as messages since the UI displays them separately
+                this.recordQuestions(rawQuestions.map(q => q.text));
 
                 for (const q of rawQuestions) {
                     const question: InterviewQuestion = {
@@ -52,7 +52,9 @@ export const INTERVIEW_RESPONSE_SCHEMA = {
                     title: { type: 'string' },
                     description: { type: 'string' },
                     featureIndex: { type: 'number' },      // Index into NEW features array (0-based)
-                    existingFeatureId: { type: 'string' }  // ID of existing feature to add task to
+                    existingFeatureId: { type: 'string' }, // ID of existing feature to add task to
+                    acceptanceCriteria: { type: 'array', items: { type: 'string' } },  // Checklist items stored per task
+                    estimate: { type: 'number', enum: [1, 2, 3, 5, 8] }  // Suggested story points (XS..XL)
                 },
                 required: ['title', 'description']
             }
@@ -97,7 +99,7 @@ For questions (ask 2-4 at a time):
 {"type":"questions","questions":[{"id":"q1","text":"Question?","questionType":"choice","options":["A","B"]}]}
 
 For proposal (when you have enough info):
-{"type":"proposal","requirementDoc":"# Title...","requirementPath":"docs/requirements/name.md","features":[{"title":"Feature Name","description":"..."}],"tasks":[{"title":"Task","description":"...","featureIndex":0}],"proposedDesignMd":"# Design Guide\\n..."}
+{"type":"proposal","requirementDoc":"# Title...","requirementPath":"docs/requirements/name.md","features":[{"title":"Feature Name","description":"..."}],"tasks":[{"title":"Task","description":"...","featureIndex":0,"acceptanceCriteria":["..."],"estimate":3}],"proposedDesignMd":"# Design Guide\\n..."}
 
 Rules:
 - Ask 2-4 questions per round
@@ -115,6 +117,14 @@ CRITICAL - Tasks and Features:
 - Example with new feature: features:[{title:"Auth"}], tasks:[{title:"Login",featureIndex:0}]
 - Example with existing feature: features:[], tasks:[{title:"Add logout",existingFeatureId:"abc-123"}]
 
+Acceptance criteria:
+- Give every task 2-5 "acceptanceCriteria": short, independently verifiable outcomes (e.g. "Logout clears the session cookie")
+- Put criteria ONLY in acceptanceCriteria - do not repeat them in the task description
+
+Estimates:
+- Suggest an "estimate" in story points for every task: 1 (XS, under an hour), 2 (S, a couple of hours), 3 (M, about half a day), 5 (L, about a day), 8 (XL, several days)
+- A task you would estimate above 8 is too big - split it
+
 Design decisions (design.md scope):
 - design.md is for VISUAL and UI PATTERNS ONLY: colors, typography, spacing, button styles, confirmation behaviors, empty states, loading states
 - Feature logic and behavior (what the feature DOES) belongs in the feature's requirementDoc, NOT in design.md
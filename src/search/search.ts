@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TaskStore } from '../tasks/TaskStore';
+import type { SearchResult, SearchDocument } from '../db/types';
+
+/**
+ * Bring the index of `docs/requirements/*.md` up to date. Only files whose mtime
+ * or size changed since they were last indexed are read.
+ */
+async function refreshRequirementDocs(taskStore: TaskStore, workspaceRoot: string): Promise<void> {
+    const requirementsDir = path.join(workspaceRoot, 'docs', 'requirements');
+    let files: string[];
+    try {
+        files = (await fs.promises.readdir(requirementsDir)).filter(f => f.endsWith('.md'));
+    } catch {
+        files = [];
+    }
+
+    const indexed = taskStore.getIndexedDocumentStamps();
+    const changed: SearchDocument[] = [];
+    const present = new Set<string>();
+    for (const file of files) {
+        const docPath = path.join('docs', 'requirements', file);
+        present.add(docPath);
+        try {
+            const stat = await fs.promises.stat(path.join(requirementsDir, file));
+            const stamp = `${stat.mtimeMs}:${stat.size}`;
+            if (indexed.get(docPath) === stamp) continue;
+            const body = await fs.promises.readFile(path.join(requirementsDir, file), 'utf-8');
+            const titleMatch = body.match(/^#\s+(.+)$/m);
+            changed.push({ path: docPath, title: titleMatch ? titleMatch[1] : file.replace('.md', ''), body, stamp });
+        } catch {
+            // Deleted between readdir and read - dropped below on the next search
+        }
+    }
+    const removed = [...indexed.keys()].filter(docPath => !present.has(docPath));
+
+    taskStore.indexDocuments(changed, removed);
+}
+
+/**
+ * Full-text search over tasks, features and requirement docs
+ */
+export async function searchWorkspace(
+    taskStore: TaskStore,
+    workspaceRoot: string,
+    query: string,
+    options?: { include_archived?: boolean; limit?: number }
+): Promise<SearchResult[]> {
+    try {
+        await refreshRequirementDocs(taskStore, workspaceRoot);
+    } catch (error) {
+        // e.g. a read-only database - search what is already indexed
+        console.warn('[Search] Could not refresh requirement docs:', error);
+    }
+    return taskStore.search(query, options);
+}
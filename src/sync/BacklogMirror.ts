@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TaskStore } from '../tasks/TaskStore';
+import type { Project, Milestone, Feature, Task } from '../db/types';
+import { writeFileAtomic } from '../db/atomicWrite';
+import { planImport, planExport, parseJsonl, toJsonl, isTombstone, type MirrorRecord, type ImportPlan } from './backlogMerge';
+
+// Quiet period before syncing after a local change or a change to the files
+const SYNC_DELAY_MS = 500;
+
+type MirrorKind = 'project' | 'milestones' | 'features' | 'tasks';
+const KINDS: MirrorKind[] = ['project', 'milestones', 'features', 'tasks'];
+
+type MirrorRow = Project | Milestone | Feature | Task;
+
+interface MirrorRows {
+    project: Project[];
+    milestones: Milestone[];
+    features: Feature[];
+    tasks: Task[];
+}
+
+/**
+ * Git-friendly text mirror of the backlog, enabled by the `shepherd.backlogSync` setting.
+ *
+ * The project, milestones, features and tasks are written to
+ * `.shepherd/backlog/{project,milestones,features,tasks}.jsonl`,
+ * one record per line sorted by id, so they can be committed and merged like code.
+ * When the files change (e.g. after a git pull) they are merged back into the database
+ * by id and `updated_at`; deletes travel as tombstone lines.
+ */
+export class BacklogMirror implements vscode.Disposable {
+    private readonly backlogDir: string;
+    private readonly configListener: vscode.Disposable;
+    private storeListener?: vscode.Disposable;
+    private watcher?: vscode.FileSystemWatcher;
+    private syncTimer?: ReturnType<typeof setTimeout>;
+    private lastError?: string;
+    // id -> updated_at of the live records in each file as of the last sync
+    private readonly lastSynced: Record<MirrorKind, Map<string, string>> = {
+        project: new Map(),
+        milestones: new Map(),
+        features: new Map(),
+        tasks: new Map()
+    };
+
+    constructor(private readonly taskStore: TaskStore, workspaceRoot: string) {
+        this.backlogDir = path.join(workspaceRoot, '.shepherd', 'backlog');
+        this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('shepherd.backlogSync')) {
+                this.applySetting();
+            }
+        });
+        this.applySetting();
+    }
+
+    private applySetting(): void {
+        const enabled = vscode.workspace.getConfiguration('shepherd').get<boolean>('backlogSync', false);
+        if (enabled && !this.storeListener) {
+            this.start();
+        } else if (!enabled && this.storeListener) {
+            this.stop();
+        }
+    }
+
+    private start(): void {
+        fs.mkdirSync(this.backlogDir, { recursive: true });
+        this.storeListener = this.taskStore.onDidChange(() => this.scheduleSync());
+        this.watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(this.backlogDir, '*.jsonl')
+        );
+        this.watcher.onDidChange(() => this.scheduleSync());
+        this.watcher.onDidCreate(() => this.scheduleSync());
+        this.watcher.onDidDelete(() => this.scheduleSync());
+        this.sync();
+    }
+
+    private stop(): void {
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+            this.syncTimer = undefined;
+        }
+        this.storeListener?.dispose();
+        this.storeListener = undefined;
+        this.watcher?.dispose();
+        this.watcher = undefined;
+    }
+
+    private scheduleSync(): void {
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+        }
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = undefined;
+            this.sync();
+        }, SYNC_DELAY_MS);
+    }
+
+    /**
+     * Write the database over the files without merging them in first, so a restored
+     * snapshot wins over newer records in the mirror. Records missing locally are tombstoned.
+     */
+    publishLocal(): void {
+        if (!this.storeListener) return;
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+            this.syncTimer = undefined;
+        }
+        try {
+            this.exportLocal(this.readAllMirrors());
+            this.lastError = undefined;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showWarningMessage(`Shepherd backlog sync paused: ${message}`);
+        }
+    }
+
+    /**
+     * Merge the files into the database, then write the merged state back out
+     */
+    private sync(): void {
+        try {
+            const mirrored = this.readAllMirrors();
+
+            // 1. Import newer records from the files
+            const before = this.readLocal();
+            const projectPlan = planImport(before.project, mirrored.project, this.lastSynced.project);
+            const plan = {
+                project: projectPlan.upserts[0] ?? null,
+                milestones: planImport(before.milestones, mirrored.milestones, this.lastSynced.milestones),
+                features: planImport(before.features, mirrored.features, this.lastSynced.features),
+                tasks: planImport(before.tasks, mirrored.tasks, this.lastSynced.tasks)
+            };
+            if (plan.project || hasChanges(plan.milestones) || hasChanges(plan.features) || hasChanges(plan.tasks)) {
+                this.taskStore.applyBacklogImport(plan);
+            }
+
+            // 2. Export the merged state, tombstoning anything deleted here
+            this.exportLocal(mirrored);
+            this.lastError = undefined;
+        } catch (error) {
+            // Leave the files alone (they may hold merge conflict markers) until they are fixed
+            const message = error instanceof Error ? error.message : String(error);
+            if (message !== this.lastError) {
+                this.lastError = message;
+                vscode.window.showWarningMessage(`Shepherd backlog sync paused: ${message}`);
+            }
+        }
+    }
+
+    private exportLocal(mirrored: Record<MirrorKind, MirrorRecord<MirrorRow>[]>): void {
+        const local = this.readLocal();
+        const now = new Date().toISOString();
+        for (const kind of KINDS) {
+            const records = planExport<MirrorRow>(local[kind], mirrored[kind], this.lastSynced[kind], now);
+            this.writeMirror(kind, records);
+            this.lastSynced[kind] = new Map(
+                records.filter(r => !isTombstone(r)).map(r => [r.id, r.updated_at])
+            );
+        }
+    }
+
+    private readAllMirrors() {
+        return {
+            project: this.readMirror<Project>('project'),
+            milestones: this.readMirror<Milestone>('milestones'),
+            features: this.readMirror<Feature>('features'),
+            tasks: this.readMirror<Task>('tasks')
+        };
+    }
+
+    private readLocal(): MirrorRows {
+        const project = this.taskStore.getProject();
+        return {
+            project: project ? [project] : [],
+            milestones: this.taskStore.getMilestones(),
+            features: this.taskStore.getFeatures(),
+            tasks: this.taskStore.getTasks({ include_archived: true })
+        };
+    }
+
+    private filePath(kind: MirrorKind): string {
+        return path.join(this.backlogDir, `${kind}.jsonl`);
+    }
+
+    private readMirror<T extends MirrorRow>(kind: MirrorKind): MirrorRecord<T>[] {
+        const filePath = this.filePath(kind);
+        if (!fs.existsSync(filePath)) return [];
+        return parseJsonl<T>(fs.readFileSync(filePath, 'utf-8'), `${kind}.jsonl`);
+    }
+
+    private writeMirror(kind: MirrorKind, records: MirrorRecord<MirrorRow>[]): void {
+        const filePath = this.filePath(kind);
+        const text = toJsonl(records);
+        // Skip no-op writes so the watcher and git stay quiet
+        if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === text) return;
+        writeFileAtomic(filePath, Buffer.from(text, 'utf-8'));
+    }
+
+    dispose(): void {
+        // Write out any pending local change (e.g. a delete) before shutting down
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+            this.syncTimer = undefined;
+            this.sync();
+        }
+        this.stop();
+        this.configListener.dispose();
+    }
+}
+
+function hasChanges<T extends { id: string; updated_at: string }>(plan: ImportPlan<T>): boolean {
+    return plan.upserts.length > 0 || plan.deletes.length > 0;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { planImport, planExport, parseJsonl, toJsonl, timestampMs, type MirrorRecord } from './backlogMerge';
+
+interface Row {
+    id: string;
+    title: string;
+    updated_at: string;
+}
+
+function row(id: string, title: string, updatedAt: string): Row {
+    return { id, title, updated_at: updatedAt };
+}
+
+describe('timestampMs', () => {
+    it('compares ISO and SQLite datetime values on the same clock', () => {
+        expect(timestampMs('2025-01-02 10:00:00')).toBe(timestampMs('2025-01-02T10:00:00.000Z'));
+        expect(timestampMs('2025-01-02 10:00:01')).toBeGreaterThan(timestampMs('2025-01-02T10:00:00.500Z'));
+    });
+});
+
+describe('planImport', () => {
+    it('takes the newer side of each record', () => {
+        const local = [row('a', 'local a', '2025-01-02 10:00:00'), row('b', 'local b', '2025-01-02T12:00:00.000Z')];
+        const mirrored = [row('a', 'remote a', '2025-01-02T11:00:00.000Z'), row('b', 'remote b', '2025-01-02 11:00:00')];
+
+        const plan = planImport(local, mirrored, new Map());
+
+        expect(plan.upserts.map(r => r.title)).toEqual(['remote a']);
+        expect(plan.deletes).toEqual([]);
+    });
+
+    it('adds remote records and applies newer tombstones', () => {
+        const local = [row('a', 'a', '2025-01-01 00:00:00'), row('b', 'b', '2025-01-03 00:00:00')];
+        const mirrored: MirrorRecord<Row>[] = [
+            row('c', 'new from teammate', '2025-01-02 00:00:00'),
+            { id: 'a', deleted: true, updated_at: '2025-01-02 00:00:00' },
+            // Edited here after the teammate deleted it - keep the edit
+            { id: 'b', deleted: true, updated_at: '2025-01-02 00:00:00' },
+        ];
+
+        const plan = planImport(local, mirrored, new Map());
+
+        expect(plan.upserts.map(r => r.id)).toEqual(['c']);
+        expect(plan.deletes).toEqual(['a']);
+    });
+
+    it('does not resurrect records deleted locally since the last sync', () => {
+        const mirrored = [row('a', 'a', '2025-01-01 00:00:00')];
+        const lastSynced = new Map([['a', '2025-01-01 00:00:00']]);
+
+        expect(planImport([], mirrored, lastSynced).upserts).toEqual([]);
+        // ...unless a teammate edited it in the meantime
+        const edited = [row('a', 'a2', '2025-01-05 00:00:00')];
+        expect(planImport([], edited, lastSynced).upserts.map(r => r.title)).toEqual(['a2']);
+    });
+});
+
+describe('planExport', () => {
+    it('writes local rows sorted by id and tombstones local deletes', () => {
+        const local = [row('c', 'c', '1'), row('a', 'a', '1')];
+        const mirrored: MirrorRecord<Row>[] = [
+            row('b', 'b', '1'),
+            { id: 'z', deleted: true, updated_at: '0' },
+        ];
+
+        const records = planExport(local, mirrored, new Map([['b', '1']]), 'now');
+
+        expect(records).toEqual([
+            row('a', 'a', '1'),
+            { id: 'b', deleted: true, updated_at: 'now' },
+            row('c', 'c', '1'),
+            { id: 'z', deleted: true, updated_at: '0' },
+        ]);
+    });
+});
+
+describe('parseJsonl', () => {
+    it('round-trips records', () => {
+        const records = [row('a', 'a', '1'), row('b', 'b', '2')];
+        expect(parseJsonl(toJsonl(records), 'tasks.jsonl')).toEqual(records);
+    });
+
+    it('rejects conflict markers with the line number', () => {
+        const text = `${JSON.stringify(row('a', 'a', '1'))}\n<<<<<<< HEAD\n`;
+        expect(() => parseJsonl(text, 'tasks.jsonl')).toThrow('tasks.jsonl line 2');
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Pure merge rules for the git-friendly backlog mirror (`.shepherd/backlog/*.jsonl`).
+ * Records are matched by id and the side with the later `updated_at` wins.
+ */
+
+interface Versioned {
+    id: string;
+    updated_at: string;
+}
+
+/**
+ * Deleted records stay in the mirror as tombstones so the delete reaches other clones
+ */
+export interface Tombstone {
+    id: string;
+    deleted: true;
+    updated_at: string;
+}
+
+export type MirrorRecord<T extends Versioned> = T | Tombstone;
+
+export interface ImportPlan<T extends Versioned> {
+    upserts: T[];
+    deletes: string[];
+}
+
+export function isTombstone<T extends Versioned>(record: MirrorRecord<T>): record is Tombstone {
+    return (record as Tombstone).deleted === true;
+}
+
+/**
+ * Milliseconds for a stored timestamp. Rows carry both ISO strings and SQLite
+ * `datetime('now')` values ("YYYY-MM-DD HH:MM:SS", UTC), which don't compare as strings.
+ */
+export function timestampMs(value: string): number {
+    const iso = value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+    const ms = Date.parse(iso);
+    return Number.isNaN(ms) ? 0 : ms;
+}
+
+/**
+ * Work out which mirrored records to apply locally.
+ *
+ * `lastSynced` maps id -> updated_at of the records in the mirror the last time this
+ * window wrote or imported it. A mirrored record that is missing locally but unchanged
+ * since then was deleted here, so it is not brought back.
+ */
+export function planImport<T extends Versioned>(
+    local: T[],
+    mirrored: MirrorRecord<T>[],
+    lastSynced: ReadonlyMap<string, string>
+): ImportPlan<T> {
+    const localById = new Map(local.map(r => [r.id, r]));
+    const plan: ImportPlan<T> = { upserts: [], deletes: [] };
+
+    for (const record of mirrored) {
+        const existing = localById.get(record.id);
+        if (isTombstone(record)) {
+            if (existing && timestampMs(record.updated_at) > timestampMs(existing.updated_at)) {
+                plan.deletes.push(record.id);
+            }
+        } else if (!existing) {
+            if (lastSynced.get(record.id) !== record.updated_at) {
+                plan.upserts.push(record);
+            }
+        } else if (timestampMs(record.updated_at) > timestampMs(existing.updated_at)) {
+            plan.upserts.push(record);
+        }
+    }
+
+    return plan;
+}
+
+/**
+ * Records to write to the mirror: every local row, existing tombstones, and new
+ * tombstones for records this window had synced but has since deleted. Sorted by id
+ * so diffs stay small.
+ */
+export function planExport<T extends Versioned>(
+    local: T[],
+    mirrored: MirrorRecord<T>[],
+    lastSynced: ReadonlyMap<string, string>,
+    now: string
+): MirrorRecord<T>[] {
+    const records = new Map<string, MirrorRecord<T>>();
+    for (const record of mirrored) {
+        if (isTombstone(record)) {
+            records.set(record.id, record);
+        } else if (lastSynced.has(record.id)) {
+            records.set(record.id, { id: record.id, deleted: true, updated_at: now });
+        } else {
+            // Not imported yet - leave it for the next import
+            records.set(record.id, record);
+        }
+    }
+    for (const record of local) {
+        records.set(record.id, record);
+    }
+    return [...records.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export function toJsonl<T extends Versioned>(records: MirrorRecord<T>[]): string {
+    return records.map(r => JSON.stringify(r)).join('\n') + (records.length > 0 ? '\n' : '');
+}
+
+/**
+ * Parse a mirror file. Throws on lines that are not JSON, e.g. unresolved git conflict markers.
+ */
+export function parseJsonl<T extends Versioned>(text: string, fileName: string): MirrorRecord<T>[] {
+    const records: MirrorRecord<T>[] = [];
+    text.split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        let record: MirrorRecord<T>;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            throw new Error(`${fileName} line ${index + 1} is not valid JSON (unresolved merge conflict?)`);
+        }
+        if (typeof record?.id !== 'string' || typeof record.updated_at !== 'string') {
+            throw new Error(`${fileName} line ${index + 1} is missing an id or updated_at`);
+        }
+        records.push(record);
+    });
+    return records;
+}
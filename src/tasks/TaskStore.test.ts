@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase, closeDatabase, TaskRepo } from '../db';
+import { TaskStore } from './TaskStore';
+
+vi.mock('vscode', () => import('../test/vscode'));
+
+let root: string;
+let store: TaskStore;
+
+beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-store-'));
+    await initDatabase(root);
+    store = new TaskStore(root);
+});
+
+afterEach(() => {
+    store.dispose();
+    closeDatabase();
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('milestones', () => {
+    it('reassigns the features of a deleted milestone on undo', () => {
+        const milestone = store.createMilestone({ title: '1.0' });
+        const login = store.createFeature({ title: 'Login', milestone_id: milestone.id });
+        const search = store.createFeature({ title: 'Search' });
+
+        store.deleteMilestone(milestone.id);
+        expect(store.getFeature(login.id)?.milestone_id).toBeNull();
+
+        expect(store.undo()).toBe('Delete milestone "1.0"');
+        expect(store.getMilestone(milestone.id)).toEqual(milestone);
+        expect(store.getFeature(login.id)?.milestone_id).toBe(milestone.id);
+        expect(store.getFeature(search.id)?.milestone_id).toBeNull();
+
+        store.redo();
+        expect(store.getMilestone(milestone.id)).toBeNull();
+        expect(store.getFeature(login.id)?.milestone_id).toBeNull();
+    });
+});
+
+describe('comments', () => {
+    it('keep rework feedback out of the description', () => {
+        const task = store.createTask({ title: 'Login form', description: 'Email and password' });
+        store.addComment(task.id, { author: 'agent', kind: 'question', body: 'Remember me?' });
+
+        store.requestRework(task.id, 'Validate the email');
+        store.requestRework(task.id, 'Show the error inline');
+
+        expect(store.getTask(task.id)).toMatchObject({ status: 'rework', description: 'Email and password' });
+        expect(store.getComments(task.id).map(c => [c.author, c.kind, c.body])).toEqual([
+            ['agent', 'question', 'Remember me?'],
+            ['pm', 'rework', 'Validate the email'],
+            ['pm', 'rework', 'Show the error inline'],
+        ]);
+    });
+
+    it('default to notes and need an existing task', () => {
+        const task = store.createTask({ title: 'Login form' });
+        expect(store.addComment(task.id, { author: 'pm', body: 'Looks good' }).kind).toBe('note');
+        expect(() => store.addComment('missing', { author: 'pm', body: 'Hello?' })).toThrow('Task not found');
+    });
+
+    it('come back with a deleted task on undo', () => {
+        const task = store.createTask({ title: 'Login form' });
+        const comment = store.addComment(task.id, { author: 'agent', kind: 'signoff', body: 'Done' });
+
+        store.deleteTask(task.id);
+        expect(store.getComments(task.id)).toEqual([]);
+        store.undo();
+        expect(store.getComments(task.id)).toEqual([comment]);
+    });
+});
+
+describe('archiving', () => {
+    it('hides done tasks from the board and keeps them for the archive', () => {
+        const done = store.createTask({ title: 'Ship it' });
+        const open = store.createTask({ title: 'Keep going' });
+        store.updateTaskStatus(done.id, 'done');
+
+        expect(store.archiveDoneTasks()).toBe(1);
+        expect(store.getTasks().map(t => t.id)).toEqual([open.id]);
+        expect(store.getTasks({ include_archived: true }).map(t => t.id)).toEqual([done.id, open.id]);
+        expect(store.getArchivedTasks()).toEqual([expect.objectContaining({ id: done.id, status: 'done', archived_at: expect.any(String) })]);
+        expect(store.getTaskHistory(done.id).map(e => e.event)).toContain('archived');
+    });
+
+    it('restores a task from the archive', () => {
+        const [first, second] = ['One', 'Two'].map(title => store.createTask({ title }));
+        [first, second].forEach(t => store.updateTaskStatus(t.id, 'done'));
+        store.archiveDoneTasks();
+
+        expect(store.restoreTask(first.id)).toMatchObject({ status: 'done', archived_at: null });
+        expect(store.getTasks().map(t => t.id)).toEqual([first.id]);
+        expect(store.getArchivedTasks().map(t => t.id)).toEqual([second.id]);
+    });
+
+    it('puts archived tasks back on undo', () => {
+        const task = store.createTask({ title: 'Ship it' });
+        store.updateTaskStatus(task.id, 'done');
+        store.archiveDoneTasks();
+
+        expect(store.undo()).toBe('Archive 1 done task');
+        expect(store.getTasks().map(t => t.id)).toEqual([task.id]);
+        expect(store.getArchivedTasks()).toEqual([]);
+    });
+});
+
+describe('workspace folders', () => {
+    let otherRoot: string;
+
+    beforeEach(() => {
+        otherRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'shepherd-store-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(otherRoot, { recursive: true, force: true });
+    });
+
+    it('keep each folder\'s writes in its own database', async () => {
+        // Opening the second folder makes its database the current one
+        await initDatabase(otherRoot);
+        const other = new TaskStore(otherRoot);
+
+        store.createTask({ title: 'First folder task' });
+        other.createTask({ title: 'Second folder task' });
+        expect(store.getTasks().map(t => t.title)).toEqual(['First folder task']);
+        expect(other.getTasks().map(t => t.title)).toEqual(['Second folder task']);
+        other.dispose();
+
+        // Read back from the files
+        closeDatabase();
+        await initDatabase(root);
+        expect(TaskRepo.list().map(t => t.title)).toEqual(['First folder task']);
+        await initDatabase(otherRoot);
+        expect(TaskRepo.list().map(t => t.title)).toEqual(['Second folder task']);
+    });
+});
@@ -1,17 +1,76 @@
 import * as vscode from 'vscode';
-import { TaskRepo, FeatureRepo, ProjectRepo } from '../db';
-import type { Task, Feature, Project, TaskStatus, NewTask, NewFeature } from '../db/types';
+import * as fs from 'fs';
+import { TaskRepo, FeatureRepo, MilestoneRepo, ProjectRepo, TaskEventRepo, TaskDependencyRepo, TaskCommentRepo, TaskCommitRepo, TaskLocationRepo, SearchRepo, IntegrityRepo, transaction, selectDatabase, getReadOnlyReason, backupDatabase, listBackups, restoreBackup, type BackupReason, type BackupFile, type BackupSummary } from '../db';
+import type { Task, Feature, Milestone, Project, TaskStatus, NewTask, NewFeature, NewMilestone, TaskEvent, ChangeOrigin, TaskDependency, AcceptanceCriterion, TaskComment, NewTaskComment, TaskCommit, TaskLocation, SearchResult, SearchDocument } from '../db/types';
+import type { RankedItem } from '../db/rank';
+import type { ImportPlan } from '../sync/backlogMerge';
+import { wouldCreateCycle, getOpenBlockers } from './dependencies';
+import { OperationJournal, type JournalEntry } from './journal';
+import { computeVelocity, type Velocity } from './estimates';
+import { computeFlowMetrics, type FlowMetrics } from './metrics';
+import { sortBySeverity } from './bugs';
+import { toIntegrityIssues, findMissingRequirements, type IntegrityIssue } from './integrity';
+
+// Common change origins for the task audit log
+export const WEBVIEW_ORIGIN: ChangeOrigin = { actor: 'pm', source: 'webview' };
+export const BRIDGE_ORIGIN: ChangeOrigin = { actor: 'agent', source: 'bridge' };
+export const INTERVIEW_ORIGIN: ChangeOrigin = { actor: 'pm', source: 'interview' };
+export const SYNC_ORIGIN: ChangeOrigin = { actor: 'system', source: 'sync' };
+export const EXTENSION_ORIGIN: ChangeOrigin = { actor: 'system', source: 'extension' };
+export const EDITOR_ORIGIN: ChangeOrigin = { actor: 'pm', source: 'editor' };
+
+// Task fields tracked as generic 'updated' events (status and feature have dedicated events)
+const TRACKED_FIELDS = ['title', 'description', 'type', 'estimate', 'severity', 'repro_steps', 'expected_result', 'actual_result', 'environment'] as const;
+
+/**
+ * Values an update is about to overwrite, keyed like the update itself
+ */
+function previousValues<T extends object>(before: T, changes: Partial<T>): Partial<T> {
+    const previous: Partial<T> = {};
+    for (const key of Object.keys(changes) as (keyof T)[]) {
+        previous[key] = before[key];
+    }
+    return previous;
+}
+
+/**
+ * Ranks of the given items, so a reorder can be put back exactly
+ */
+function currentRanks(ids: string[], getRank: (id: string) => string | undefined): RankedItem[] {
+    return ids.flatMap(id => {
+        const rank = getRank(id);
+        return rank === undefined ? [] : [{ id, rank }];
+    });
+}
+
+interface TaskSnapshot {
+    task: Task;
+    criteria: AcceptanceCriterion[];
+    comments: TaskComment[];
+    dependencies: TaskDependency[];
+    commits: TaskCommit[];
+    locations: TaskLocation[];
+}
 
 export class TaskStore {
     private readonly _onDidChange = new vscode.EventEmitter<void>();
     readonly onDidChange = this._onDidChange.event;
+    private readonly journal = new OperationJournal();
+
+    /**
+     * @param workspaceRoot Folder whose database this store reads and writes. Without one it
+     * uses whichever database was opened last, which is all a single-folder window has.
+     */
+    constructor(private readonly workspaceRoot?: string) {}
 
     // Project
     getProject(): Project | null {
+        this.selectDatabase();
         return ProjectRepo.get();
     }
 
     updateProject(data: Partial<Project>): Project {
+        this.selectDatabase();
         const result = ProjectRepo.update(data);
         this._onDidChange.fire();
         return result;
@@ -19,104 +78,714 @@ export class TaskStore {
 
     // Features
     getFeatures(): Feature[] {
+        this.selectDatabase();
         return FeatureRepo.list();
     }
 
     getFeature(id: string): Feature | null {
+        this.selectDatabase();
         return FeatureRepo.get(id);
     }
 
-    createFeature(data: NewFeature): Feature {
+    createFeature(data: NewFeature, origin: ChangeOrigin = WEBVIEW_ORIGIN): Feature {
+        this.selectDatabase();
         const result = FeatureRepo.create(data);
+        this.record(origin, {
+            label: `Create feature "${result.title}"`,
+            undo: () => FeatureRepo.delete(result.id),
+            redo: () => FeatureRepo.restore(result)
+        });
         this._onDidChange.fire();
         return result;
     }
 
-    updateFeature(id: string, data: Partial<Feature>): Feature | null {
+    updateFeature(id: string, data: Partial<Feature>, origin: ChangeOrigin = WEBVIEW_ORIGIN): Feature | null {
+        this.selectDatabase();
+        const before = FeatureRepo.get(id);
         const result = FeatureRepo.update(id, data);
+        if (before) {
+            const previous = previousValues(before, data);
+            this.record(origin, {
+                label: `Edit feature "${before.title}"`,
+                undo: () => FeatureRepo.update(id, previous),
+                redo: () => FeatureRepo.update(id, data)
+            });
+        }
         this._onDidChange.fire();
         return result;
     }
 
-    deleteFeature(id: string): void {
-        FeatureRepo.delete(id);
+    deleteFeature(id: string, origin: ChangeOrigin = WEBVIEW_ORIGIN): void {
+        this.selectDatabase();
+        const feature = FeatureRepo.get(id);
+        // Tasks are ungrouped by ON DELETE SET NULL - record them as moved
+        const orphaned = TaskRepo.list({ feature_id: id, include_archived: true });
+        const removeFeature = () => transaction(() => {
+            FeatureRepo.delete(id);
+            orphaned.forEach(t => TaskEventRepo.record({ task_id: t.id, event: 'moved', from_value: id, to_value: null }, origin));
+        });
+        removeFeature();
+        if (feature) {
+            this.record(origin, {
+                label: `Delete feature "${feature.title}"`,
+                undo: () => {
+                    FeatureRepo.restore(feature);
+                    orphaned.forEach(t => this.applyTaskUpdate(t.id, { feature_id: id }, origin));
+                },
+                redo: removeFeature
+            });
+        }
         this._onDidChange.fire();
     }
 
-    markFeatureDone(id: string): Feature | null {
-        const result = FeatureRepo.markDone(id);
+    markFeatureDone(id: string, origin: ChangeOrigin = WEBVIEW_ORIGIN): Feature | null {
+        this.selectDatabase();
+        const before = FeatureRepo.get(id);
+        const affected = TaskRepo.list({ feature_id: id }).filter(t => t.status !== 'done');
+        const markDone = () => transaction(() => {
+            const feature = FeatureRepo.markDone(id);
+            affected.forEach(t => TaskEventRepo.record({ task_id: t.id, event: 'status_changed', from_value: t.status, to_value: 'done' }, origin));
+            return feature;
+        });
+        const result = markDone();
+        if (before) {
+            this.record(origin, {
+                label: `Mark feature "${before.title}" done`,
+                undo: () => {
+                    FeatureRepo.update(id, { status: before.status });
+                    affected.forEach(t => this.applyTaskUpdate(t.id, { status: t.status }, origin));
+                },
+                redo: markDone
+            });
+        }
         this._onDidChange.fire();
         return result;
     }
 
-    reorderFeatures(ids: string[]): void {
+    reorderFeatures(ids: string[], origin: ChangeOrigin = WEBVIEW_ORIGIN): void {
+        this.selectDatabase();
+        const before = currentRanks(ids, id => FeatureRepo.get(id)?.rank);
         FeatureRepo.reorder(ids);
+        const after = currentRanks(ids, id => FeatureRepo.get(id)?.rank);
+        this.record(origin, {
+            label: 'Reorder features',
+            undo: () => FeatureRepo.setRanks(before),
+            redo: () => FeatureRepo.setRanks(after)
+        });
+        this._onDidChange.fire();
+    }
+
+    // Milestones
+    getMilestones(): Milestone[] {
+        this.selectDatabase();
+        return MilestoneRepo.list();
+    }
+
+    getMilestone(id: string): Milestone | null {
+        this.selectDatabase();
+        return MilestoneRepo.get(id);
+    }
+
+    /**
+     * The release currently being worked towards: the open milestone with the earliest target date
+     */
+    getCurrentMilestone(): Milestone | null {
+        this.selectDatabase();
+        return MilestoneRepo.list().find(m => m.status === 'open') || null;
+    }
+
+    createMilestone(data: NewMilestone, origin: ChangeOrigin = WEBVIEW_ORIGIN): Milestone {
+        this.selectDatabase();
+        const result = MilestoneRepo.create(data);
+        this.record(origin, {
+            label: `Create milestone "${result.title}"`,
+            undo: () => MilestoneRepo.delete(result.id),
+            redo: () => MilestoneRepo.restore(result)
+        });
+        this._onDidChange.fire();
+        return result;
+    }
+
+    updateMilestone(id: string, data: Partial<Milestone>, origin: ChangeOrigin = WEBVIEW_ORIGIN): Milestone | null {
+        this.selectDatabase();
+        const before = MilestoneRepo.get(id);
+        const result = MilestoneRepo.update(id, data);
+        if (before) {
+            const previous = previousValues(before, data);
+            this.record(origin, {
+                label: `Edit milestone "${before.title}"`,
+                undo: () => MilestoneRepo.update(id, previous),
+                redo: () => MilestoneRepo.update(id, data)
+            });
+        }
+        this._onDidChange.fire();
+        return result;
+    }
+
+    deleteMilestone(id: string, origin: ChangeOrigin = WEBVIEW_ORIGIN): void {
+        this.selectDatabase();
+        const milestone = MilestoneRepo.get(id);
+        const assigned = FeatureRepo.list().filter(f => f.milestone_id === id);
+        MilestoneRepo.delete(id);
+        if (milestone) {
+            this.record(origin, {
+                label: `Delete milestone "${milestone.title}"`,
+                undo: () => {
+                    MilestoneRepo.restore(milestone);
+                    assigned.forEach(f => FeatureRepo.update(f.id, { milestone_id: id }));
+                },
+                redo: () => MilestoneRepo.delete(id)
+            });
+        }
         this._onDidChange.fire();
     }
 
     // Tasks
-    getTasks(options?: { feature_id?: string | null; status?: TaskStatus }): Task[] {
+    getTasks(options?: { feature_id?: string | null; status?: TaskStatus; include_archived?: boolean }): Task[] {
+        this.selectDatabase();
         return TaskRepo.list(options);
     }
 
     getTask(id: string): Task | null {
+        this.selectDatabase();
         return TaskRepo.get(id);
     }
 
     getTaskWithFeature(id: string) {
+        this.selectDatabase();
         return TaskRepo.getWithFeature(id);
     }
 
+    /**
+     * First todo task in the queue whose blockers have all landed. Critical and high
+     * severity bugs go ahead of other work, low severity bugs behind it.
+     */
     getNextTodo(): Task | null {
-        const tasks = TaskRepo.list({ status: 'todo', limit: 1 });
-        return tasks[0] || null;
+        this.selectDatabase();
+        const todos = TaskRepo.list({ status: 'todo' });
+        if (todos.length === 0) return null;
+
+        const dependencies = TaskDependencyRepo.list();
+        const tasksById = new Map(TaskRepo.list().map(t => [t.id, t]));
+        return sortBySeverity(todos).find(t => getOpenBlockers(t.id, dependencies, tasksById).length === 0) || null;
     }
 
-    createTask(data: NewTask): Task {
-        const result = TaskRepo.create(data);
+    createTask(data: NewTask, origin: ChangeOrigin = WEBVIEW_ORIGIN): Task {
+        this.selectDatabase();
+        const result = transaction(() => {
+            const task = TaskRepo.create(data);
+            data.locations?.forEach(location => TaskLocationRepo.create(task.id, location));
+            return task;
+        });
+        TaskEventRepo.record({ task_id: result.id, event: 'created', to_value: result.status }, origin);
+        const snapshot = this.snapshotTask(result.id)!;
+        this.record(origin, {
+            label: `Create task "${result.title}"`,
+            undo: () => this.removeTask(result.id, origin),
+            redo: () => this.reinsertTask(snapshot, origin)
+        });
         this._onDidChange.fire();
         return result;
     }
 
-    addTask(title: string, description: string = '', featureId?: string, taskType: 'task' | 'bug' = 'task'): Task {
+    addTask(title: string, description: string = '', featureId?: string, taskType: 'task' | 'bug' = 'task', origin: ChangeOrigin = WEBVIEW_ORIGIN): Task {
+        this.selectDatabase();
         return this.createTask({
             title,
             description,
             feature_id: featureId || null,
             type: taskType
-        });
+        }, origin);
     }
 
-    updateTask(id: string, data: Partial<Task>): Task | null {
-        const result = TaskRepo.update(id, data);
+    /**
+     * Create several tasks, optionally in a new feature, as one change that undoes in one step
+     * (e.g. from a template). With a feature, every task goes into it.
+     */
+    createTasks(items: { feature: NewFeature | null; tasks: NewTask[] }, label: string, origin: ChangeOrigin = WEBVIEW_ORIGIN): { feature: Feature | null; tasks: Task[] } {
+        this.selectDatabase();
+        const result = transaction(() => {
+            const feature = items.feature ? FeatureRepo.create(items.feature) : null;
+            const tasks = items.tasks.map(data => {
+                const task = TaskRepo.create(feature ? { ...data, feature_id: feature.id } : data);
+                TaskEventRepo.record({ task_id: task.id, event: 'created', to_value: task.status }, origin);
+                return task;
+            });
+            return { feature, tasks };
+        });
+        const snapshots = result.tasks.map(t => this.snapshotTask(t.id)!);
+        const { feature } = result;
+        this.record(origin, {
+            label,
+            undo: () => transaction(() => {
+                snapshots.forEach(snapshot => this.removeTask(snapshot.task.id, origin));
+                if (feature) FeatureRepo.delete(feature.id);
+            }),
+            redo: () => transaction(() => {
+                if (feature) FeatureRepo.restore(feature);
+                snapshots.forEach(snapshot => this.reinsertTask(snapshot, origin));
+            })
+        });
         this._onDidChange.fire();
         return result;
     }
 
-    updateTaskStatus(id: string, status: TaskStatus): Task | null {
-        const result = TaskRepo.updateStatus(id, status);
+    updateTask(id: string, data: Partial<Task>, origin: ChangeOrigin = WEBVIEW_ORIGIN): Task | null {
+        this.selectDatabase();
+        const before = TaskRepo.get(id);
+        const result = this.applyTaskUpdate(id, data, origin);
+        if (before) {
+            const previous = previousValues(before, data);
+            this.record(origin, {
+                label: data.status && data.status !== before.status
+                    ? `Move "${before.title}" to ${data.status}`
+                    : `Edit task "${before.title}"`,
+                undo: () => this.applyTaskUpdate(id, previous, origin),
+                redo: () => this.applyTaskUpdate(id, data, origin)
+            });
+        }
         this._onDidChange.fire();
         return result;
     }
 
-    deleteTask(id: string): void {
-        TaskRepo.delete(id);
+    updateTaskStatus(id: string, status: TaskStatus, origin: ChangeOrigin = WEBVIEW_ORIGIN): Task | null {
+        this.selectDatabase();
+        return this.updateTask(id, { status }, origin);
+    }
+
+    deleteTask(id: string, origin: ChangeOrigin = WEBVIEW_ORIGIN): void {
+        this.selectDatabase();
+        const snapshot = this.snapshotTask(id);
+        this.removeTask(id, origin);
+        if (snapshot) {
+            this.record(origin, {
+                label: `Delete task "${snapshot.task.title}"`,
+                undo: () => this.reinsertTask(snapshot, origin),
+                redo: () => this.removeTask(id, origin)
+            });
+        }
         this._onDidChange.fire();
     }
 
-    moveTaskToFeature(taskId: string, featureId: string | null): Task | null {
+    moveTaskToFeature(taskId: string, featureId: string | null, origin: ChangeOrigin = WEBVIEW_ORIGIN): Task | null {
+        this.selectDatabase();
+        const before = TaskRepo.get(taskId);
         const result = TaskRepo.moveToFeature(taskId, featureId);
+        if (before && result && before.feature_id !== result.feature_id) {
+            TaskEventRepo.record({ task_id: taskId, event: 'moved', from_value: before.feature_id, to_value: result.feature_id }, origin);
+        }
+        if (before && result) {
+            this.record(origin, {
+                label: `Move task "${before.title}"`,
+                undo: () => this.applyTaskUpdate(taskId, { feature_id: before.feature_id, rank: before.rank }, origin),
+                redo: () => this.applyTaskUpdate(taskId, { feature_id: result.feature_id, rank: result.rank }, origin)
+            });
+        }
         this._onDidChange.fire();
         return result;
     }
 
-    reorderTasks(ids: string[]): void {
+    getTaskHistory(id: string): TaskEvent[] {
+        this.selectDatabase();
+        return TaskEventRepo.listForTask(id);
+    }
+
+    // Commits
+    getCommits(taskId?: string): TaskCommit[] {
+        this.selectDatabase();
+        return TaskCommitRepo.list(taskId);
+    }
+
+    /**
+     * Link git commits to the tasks they implement (see src/tasks/commits.ts). Links are
+     * facts about the repository, not PM edits, so they are not journaled.
+     */
+    linkCommits(commits: TaskCommit[]): void {
+        this.selectDatabase();
+        if (commits.length === 0) return;
+        TaskCommitRepo.add(commits);
+        this._onDidChange.fire();
+    }
+
+    // Code locations
+    getLocations(taskId?: string): TaskLocation[] {
+        this.selectDatabase();
+        return TaskLocationRepo.list(taskId);
+    }
+
+    getLocation(id: string): TaskLocation | null {
+        this.selectDatabase();
+        return TaskLocationRepo.get(id);
+    }
+
+    removeLocation(id: string): void {
+        this.selectDatabase();
+        TaskLocationRepo.delete(id);
+        this._onDidChange.fire();
+    }
+
+    // Comments
+    getComments(taskId?: string): TaskComment[] {
+        this.selectDatabase();
+        return TaskCommentRepo.list(taskId);
+    }
+
+    addComment(taskId: string, data: NewTaskComment): TaskComment {
+        this.selectDatabase();
+        if (!TaskRepo.get(taskId)) {
+            throw new Error('Task not found');
+        }
+        const result = TaskCommentRepo.create(taskId, data);
+        this._onDidChange.fire();
+        return result;
+    }
+
+    /**
+     * Send a task back for rework, recording the PM's feedback as a rework comment
+     */
+    requestRework(id: string, feedback: string, origin: ChangeOrigin = WEBVIEW_ORIGIN): Task | null {
+        this.selectDatabase();
+        this.addComment(id, { author: 'pm', kind: 'rework', body: feedback });
+        return this.updateTask(id, { status: 'rework' }, origin);
+    }
+
+    // Acceptance criteria
+    getCriteria(taskId?: string): AcceptanceCriterion[] {
+        this.selectDatabase();
+        return TaskRepo.listCriteria(taskId);
+    }
+
+    getCriterion(id: string): AcceptanceCriterion | null {
+        this.selectDatabase();
+        return TaskRepo.getCriterion(id);
+    }
+
+    addCriterion(taskId: string, text: string): AcceptanceCriterion {
+        this.selectDatabase();
+        if (!TaskRepo.get(taskId)) {
+            throw new Error('Task not found');
+        }
+        const result = TaskRepo.addCriterion(taskId, text);
+        this._onDidChange.fire();
+        return result;
+    }
+
+    updateCriterion(id: string, data: { text?: string; checked?: boolean }): AcceptanceCriterion | null {
+        this.selectDatabase();
+        const result = TaskRepo.updateCriterion(id, data);
+        this._onDidChange.fire();
+        return result;
+    }
+
+    deleteCriterion(id: string): void {
+        this.selectDatabase();
+        TaskRepo.deleteCriterion(id);
+        this._onDidChange.fire();
+    }
+
+    // Dependencies
+    getDependencies(): TaskDependency[] {
+        this.selectDatabase();
+        return TaskDependencyRepo.list();
+    }
+
+    /**
+     * IDs of blockers that are not yet done or awaiting signoff
+     */
+    getOpenBlockers(taskId: string): string[] {
+        this.selectDatabase();
+        const tasksById = new Map(TaskRepo.list().map(t => [t.id, t]));
+        return getOpenBlockers(taskId, TaskDependencyRepo.list(), tasksById);
+    }
+
+    addDependency(taskId: string, blockedById: string): void {
+        this.selectDatabase();
+        if (!TaskRepo.get(taskId) || !TaskRepo.get(blockedById)) {
+            throw new Error('Task not found');
+        }
+        if (taskId === blockedById) {
+            throw new Error('A task cannot be blocked by itself');
+        }
+        if (wouldCreateCycle(TaskDependencyRepo.list(), taskId, blockedById)) {
+            throw new Error('Adding this blocker would create a circular dependency');
+        }
+        TaskDependencyRepo.add(taskId, blockedById);
+        this._onDidChange.fire();
+    }
+
+    removeDependency(taskId: string, blockedById: string): void {
+        this.selectDatabase();
+        TaskDependencyRepo.remove(taskId, blockedById);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Insert fully-formed task rows (e.g. from the legacy tasks.json) as-is, keeping their ids and timestamps
+     */
+    importTasks(tasks: Task[], origin: ChangeOrigin = EXTENSION_ORIGIN): void {
+        this.selectDatabase();
+        if (tasks.length === 0) return;
+        transaction(() => {
+            tasks.forEach(t => {
+                TaskRepo.restore(t);
+                TaskEventRepo.record({ task_id: t.id, event: 'created', to_value: t.status }, origin);
+            });
+        });
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Apply records merged in from the backlog mirror in one transaction.
+     * Criteria, comments and dependencies are not mirrored and are left alone.
+     */
+    applyBacklogImport(plan: { project: Project | null; milestones: ImportPlan<Milestone>; features: ImportPlan<Feature>; tasks: ImportPlan<Task> }): void {
+        this.selectDatabase();
+        transaction(() => {
+            if (plan.project) {
+                ProjectRepo.restore(plan.project);
+            }
+            plan.milestones.upserts.forEach(m => MilestoneRepo.restore(m));
+            plan.features.upserts.forEach(f => FeatureRepo.restore(f));
+            plan.tasks.upserts.forEach(t => {
+                const before = TaskRepo.get(t.id);
+                const result = TaskRepo.restore(t);
+                if (before) {
+                    this.recordTaskChanges(before, result, SYNC_ORIGIN);
+                } else {
+                    TaskEventRepo.record({ task_id: t.id, event: 'created', to_value: t.status }, SYNC_ORIGIN);
+                }
+            });
+            plan.tasks.deletes.forEach(id => this.removeTask(id, SYNC_ORIGIN));
+            plan.features.deletes.forEach(id => FeatureRepo.delete(id));
+            plan.milestones.deletes.forEach(id => MilestoneRepo.delete(id));
+        });
+        // Undo entries may refer to rows that were just replaced
+        this.journal.clear();
+        this._onDidChange.fire();
+    }
+
+    /**
+     * The database was replaced by a newer copy from disk. Undo history refers to
+     * the old data, so it is dropped before listeners refresh.
+     */
+    handleDatabaseReloaded(): void {
+        this.journal.clear();
+        this._onDidChange.fire();
+    }
+
+    // Integrity
+    /**
+     * Dangling references, tied ranks and features linking to deleted requirement docs
+     * (the last only for stores bound to a folder)
+     */
+    checkIntegrity(): IntegrityIssue[] {
+        this.selectDatabase();
+        const missing = this.workspaceRoot
+            ? findMissingRequirements(FeatureRepo.list(), this.workspaceRoot, fs.existsSync)
+            : [];
+        return toIntegrityIssues(IntegrityRepo.foreignKeyViolations(), IntegrityRepo.rankCollisions(), missing);
+    }
+
+    /**
+     * Fix what checkIntegrity() reports, in one transaction. Not undoable (take a backup first);
+     * undo history is dropped since it may refer to the repaired rows.
+     * @returns The issues that were fixed
+     */
+    repairIntegrity(origin: ChangeOrigin = EXTENSION_ORIGIN): IntegrityIssue[] {
+        const readOnlyReason = this.getReadOnlyReason();
+        if (readOnlyReason) {
+            throw new Error(readOnlyReason);
+        }
+        const issues = this.checkIntegrity();
+        if (issues.length === 0) return issues;
+        transaction(() => {
+            for (const issue of issues) {
+                if (issue.kind === 'orphaned_reference') {
+                    const { violation } = issue;
+                    IntegrityRepo.repairViolation(violation);
+                    if (violation.table === 'tasks' && violation.column === 'feature_id' && violation.row_id) {
+                        TaskEventRepo.record({ task_id: violation.row_id, event: 'moved', from_value: violation.value, to_value: null }, origin);
+                    }
+                } else if (issue.kind === 'duplicate_rank') {
+                    IntegrityRepo.spreadTies(issue.collision.table, issue.collision.rank);
+                } else {
+                    FeatureRepo.update(issue.feature_id, { requirement_path: null });
+                }
+            }
+        });
+        this.journal.clear();
+        this._onDidChange.fire();
+        return issues;
+    }
+
+    /**
+     * Why this folder's database can't be written (opened by an older Shepherd), or null
+     */
+    getReadOnlyReason(): string | null {
+        this.selectDatabase();
+        return getReadOnlyReason();
+    }
+
+    // Snapshots in .shepherd/backups/
+    backup(reason: BackupReason): BackupFile {
+        this.selectDatabase();
+        return backupDatabase(reason);
+    }
+
+    listBackups(): BackupSummary[] {
+        this.selectDatabase();
+        return listBackups();
+    }
+
+    /**
+     * Roll the backlog back to a snapshot. The current state is snapshotted first.
+     */
+    restoreBackup(backupPath: string): void {
+        this.selectDatabase();
+        restoreBackup(backupPath);
+        this.handleDatabaseReloaded();
+    }
+
+    // Undo / redo
+    canUndo(): boolean {
+        return this.journal.canUndo();
+    }
+
+    canRedo(): boolean {
+        return this.journal.canRedo();
+    }
+
+    /**
+     * Revert the last PM edit. Returns its label, or null if there was nothing to undo.
+     */
+    undo(): string | null {
+        this.selectDatabase();
+        const entry = transaction(() => this.journal.undo());
+        if (entry) {
+            this._onDidChange.fire();
+        }
+        return entry?.label ?? null;
+    }
+
+    /**
+     * Re-apply the last undone edit. Returns its label, or null if there was nothing to redo.
+     */
+    redo(): string | null {
+        this.selectDatabase();
+        const entry = transaction(() => this.journal.redo());
+        if (entry) {
+            this._onDidChange.fire();
+        }
+        return entry?.label ?? null;
+    }
+
+    /**
+     * Several folders of a multi-root workspace share the repositories, so point them at ours
+     */
+    private selectDatabase(): void {
+        if (this.workspaceRoot) {
+            selectDatabase(this.workspaceRoot);
+        }
+    }
+
+    /**
+     * Journal an operation so it can be undone. Only PM edits made in the sidebar are
+     * journaled - agent and interview changes are not the PM's to take back.
+     */
+    private record(origin: ChangeOrigin, entry: JournalEntry): void {
+        if (origin.source === 'webview') {
+            this.journal.record(entry);
+        }
+    }
+
+    private applyTaskUpdate(id: string, data: Partial<Task>, origin: ChangeOrigin): Task | null {
+        const before = TaskRepo.get(id);
+        const result = TaskRepo.update(id, data);
+        if (before && result) {
+            this.recordTaskChanges(before, result, origin);
+        }
+        return result;
+    }
+
+    /**
+     * Everything needed to bring a deleted task back: the row, its checklist, comments, dependencies, commits and code locations
+     */
+    private snapshotTask(id: string): TaskSnapshot | null {
+        const task = TaskRepo.get(id);
+        if (!task) return null;
+        return {
+            task,
+            criteria: TaskRepo.listCriteria(id),
+            comments: TaskCommentRepo.list(id),
+            dependencies: TaskDependencyRepo.list().filter(d => d.task_id === id || d.blocked_by_id === id),
+            commits: TaskCommitRepo.list(id),
+            locations: TaskLocationRepo.list(id)
+        };
+    }
+
+    private removeTask(id: string, origin: ChangeOrigin): void {
+        const task = TaskRepo.get(id);
+        transaction(() => {
+            TaskDependencyRepo.removeAllForTask(id);
+            TaskCommentRepo.deleteForTask(id);
+            TaskCommitRepo.deleteForTask(id);
+            TaskLocationRepo.deleteForTask(id);
+            TaskRepo.delete(id);
+            if (task) {
+                TaskEventRepo.record({ task_id: id, event: 'deleted', from_value: task.status }, origin);
+            }
+        });
+    }
+
+    private reinsertTask(snapshot: TaskSnapshot, origin: ChangeOrigin): void {
+        transaction(() => {
+            TaskRepo.restore(snapshot.task, snapshot.criteria);
+            TaskCommentRepo.restore(snapshot.comments);
+            TaskCommitRepo.restore(snapshot.commits);
+            TaskLocationRepo.restore(snapshot.locations);
+            // Skip dependencies on tasks that have since been deleted
+            TaskDependencyRepo.restore(snapshot.dependencies.filter(d => TaskRepo.get(d.task_id) && TaskRepo.get(d.blocked_by_id)));
+            TaskEventRepo.record({ task_id: snapshot.task.id, event: 'created', to_value: snapshot.task.status }, origin);
+        });
+    }
+
+    /**
+     * Diff a task before/after an update and record the matching audit events
+     */
+    private recordTaskChanges(before: Task, after: Task, origin: ChangeOrigin): void {
+        if (before.status !== after.status) {
+            TaskEventRepo.record({ task_id: after.id, event: 'status_changed', from_value: before.status, to_value: after.status }, origin);
+        }
+        if (before.feature_id !== after.feature_id) {
+            TaskEventRepo.record({ task_id: after.id, event: 'moved', from_value: before.feature_id, to_value: after.feature_id }, origin);
+        }
+        const changes: NonNullable<TaskEvent['changes']> = {};
+        for (const field of TRACKED_FIELDS) {
+            if (before[field] !== after[field]) {
+                changes[field] = { from: before[field], to: after[field] };
+            }
+        }
+        if (Object.keys(changes).length > 0) {
+            TaskEventRepo.record({ task_id: after.id, event: 'updated', changes }, origin);
+        }
+    }
+
+    reorderTasks(ids: string[], origin: ChangeOrigin = WEBVIEW_ORIGIN): void {
+        this.selectDatabase();
+        const before = currentRanks(ids, id => TaskRepo.get(id)?.rank);
         TaskRepo.reorder(ids);
+        const after = currentRanks(ids, id => TaskRepo.get(id)?.rank);
+        this.record(origin, {
+            label: 'Reorder tasks',
+            undo: () => TaskRepo.setRanks(before),
+            redo: () => TaskRepo.setRanks(after)
+        });
         this._onDidChange.fire();
     }
 
     // Legacy compatibility method
     async reorderTask(id: string, newIndex: number): Promise<boolean> {
+        this.selectDatabase();
         const tasks = this.getTasks();
         const oldIndex = tasks.findIndex(t => t.id === id);
         if (oldIndex === -1) return false;
@@ -133,22 +802,90 @@ export class TaskStore {
 
     // Stats
     getTaskCounts(): Record<TaskStatus, number> {
+        this.selectDatabase();
         return TaskRepo.countByStatus();
     }
 
     getDoneCount(): number {
+        this.selectDatabase();
         const counts = this.getTaskCounts();
         return counts.done;
     }
 
-    // Cleanup - archive done tasks (delete from db)
-    archiveDoneTasks(): number {
+    /**
+     * Story points completed per week, from the status history of done tasks (archived ones included)
+     */
+    getVelocity(weekCount?: number): Velocity {
+        this.selectDatabase();
+        const doneTasks = TaskRepo.list({ status: 'done', include_archived: true });
+        return computeVelocity(doneTasks, TaskEventRepo.listStatusChanges('done'), new Date(), weekCount);
+    }
+
+    /**
+     * Lead, cycle and review wait times per task and feature, from the status history (archived tasks
+     * included). Tasks in progress or ready for signoff for more than `staleAfterHours` are flagged.
+     */
+    getFlowMetrics(staleAfterHours?: number): FlowMetrics {
+        this.selectDatabase();
+        const tasks = TaskRepo.list({ include_archived: true });
+        return computeFlowMetrics(tasks, TaskEventRepo.listStatusHistory(), new Date(), staleAfterHours);
+    }
+
+    // Cleanup - archive done tasks (kept in the db, hidden from the board)
+    archiveDoneTasks(origin: ChangeOrigin = WEBVIEW_ORIGIN): number {
+        this.selectDatabase();
         const doneTasks = TaskRepo.list({ status: 'done' });
-        doneTasks.forEach(t => TaskRepo.delete(t.id));
+        const archiveAll = () => transaction(() => doneTasks.forEach(t => {
+            TaskRepo.archive(t.id);
+            TaskEventRepo.record({ task_id: t.id, event: 'archived' }, origin);
+        }));
+        archiveAll();
+        if (doneTasks.length > 0) {
+            this.record(origin, {
+                label: `Archive ${doneTasks.length} done task${doneTasks.length === 1 ? '' : 's'}`,
+                undo: () => doneTasks.forEach(t => {
+                    TaskRepo.unarchive(t.id);
+                    TaskEventRepo.record({ task_id: t.id, event: 'restored' }, origin);
+                }),
+                redo: archiveAll
+            });
+        }
         this._onDidChange.fire();
         return doneTasks.length;
     }
 
+    getArchivedTasks(): Task[] {
+        this.selectDatabase();
+        return TaskRepo.list({ include_archived: true }).filter(t => t.archived_at !== null);
+    }
+
+    restoreTask(id: string, origin: ChangeOrigin = WEBVIEW_ORIGIN): Task | null {
+        this.selectDatabase();
+        const before = TaskRepo.get(id);
+        if (!before?.archived_at) return before;
+        const result = TaskRepo.unarchive(id);
+        TaskEventRepo.record({ task_id: id, event: 'restored' }, origin);
+        this._onDidChange.fire();
+        return result;
+    }
+
+    // Search (tasks and features are indexed by triggers, requirement docs via indexDocuments)
+
+    search(query: string, options?: { include_archived?: boolean; limit?: number }): SearchResult[] {
+        this.selectDatabase();
+        return SearchRepo.search(query, options);
+    }
+
+    getIndexedDocumentStamps(): Map<string, string> {
+        this.selectDatabase();
+        return SearchRepo.getDocumentStamps();
+    }
+
+    indexDocuments(changed: SearchDocument[], removedPaths: string[]): void {
+        this.selectDatabase();
+        SearchRepo.updateDocuments(changed, removedPaths);
+    }
+
     dispose(): void {
         this._onDidChange.dispose();
     }
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeAttachmentName, uniqueAttachmentName } from './attachments';
+
+describe('sanitizeAttachmentName', () => {
+    it('keeps only the file name', () => {
+        expect(sanitizeAttachmentName('../../etc/passwd')).toBe('passwd');
+        expect(sanitizeAttachmentName('C:\\Users\\pm\\crash.log')).toBe('crash.log');
+    });
+
+    it('replaces reserved characters and drops leading dots', () => {
+        expect(sanitizeAttachmentName('error: "boom"?.txt')).toBe('error_ _boom__.txt');
+        expect(sanitizeAttachmentName('.env')).toBe('env');
+        expect(sanitizeAttachmentName('..')).toBe('attachment');
+    });
+});
+
+describe('uniqueAttachmentName', () => {
+    it('numbers names that are already taken', () => {
+        expect(uniqueAttachmentName('shot.png', [])).toBe('shot.png');
+        expect(uniqueAttachmentName('shot.png', ['Shot.png'])).toBe('shot (2).png');
+        expect(uniqueAttachmentName('shot.png', ['shot.png', 'shot (2).png'])).toBe('shot (3).png');
+        expect(uniqueAttachmentName('README', ['README'])).toBe('README (2)');
+    });
+});
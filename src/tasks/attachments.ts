@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Largest file accepted as an attachment
+ */
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * A file kept with a task in `.shepherd/attachments/<taskId>/`, e.g. a screenshot or a log
+ */
+export interface TaskAttachment {
+    task_id: string;
+    name: string;
+    path: string;         // Absolute, so the agent can read the file directly
+    size: number;
+    created_at: string;
+}
+
+// Characters that are not allowed in file names on some platforms
+const UNSAFE_NAME_CHARS = /[<>:"/\\|?*\u0000-\u001f]/g;
+
+/**
+ * Reduce a file name from the outside (a drop, a paste, an agent) to one safe to write
+ * inside the attachment folder: no directories, no reserved characters, not hidden.
+ */
+export function sanitizeAttachmentName(name: string): string {
+    const base = name.split(/[/\\]/).pop() || '';
+    const cleaned = base.replace(UNSAFE_NAME_CHARS, '_').replace(/^[.\s]+/, '').trim();
+    return cleaned.slice(-120) || 'attachment';
+}
+
+/**
+ * `name`, or `name (2).ext`, `name (3).ext`... if a file of that name is already attached
+ */
+export function uniqueAttachmentName(name: string, existing: string[]): string {
+    const taken = new Set(existing.map(n => n.toLowerCase()));
+    if (!taken.has(name.toLowerCase())) return name;
+
+    const ext = path.extname(name);
+    const stem = name.slice(0, name.length - ext.length);
+    for (let n = 2; ; n++) {
+        const candidate = `${stem} (${n})${ext}`;
+        if (!taken.has(candidate.toLowerCase())) return candidate;
+    }
+}
+
+export function attachmentsRoot(workspaceRoot: string): string {
+    return path.join(workspaceRoot, '.shepherd', 'attachments');
+}
+
+function taskDir(workspaceRoot: string, taskId: string): string {
+    // Task ids become folder names, so they must not reach outside the attachments folder
+    if (!taskId || taskId !== path.basename(taskId) || taskId.startsWith('.')) {
+        throw new Error(`Invalid task id: ${taskId}`);
+    }
+    return path.join(attachmentsRoot(workspaceRoot), taskId);
+}
+
+function readAttachment(dir: string, taskId: string, name: string): TaskAttachment | null {
+    const filePath = path.join(dir, name);
+    try {
+        const stat = fs.statSync(filePath);
+        if (!stat.isFile()) return null;
+        return { task_id: taskId, name, path: filePath, size: stat.size, created_at: stat.mtime.toISOString() };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Files attached to a task, oldest first
+ */
+export function listAttachments(workspaceRoot: string, taskId: string): TaskAttachment[] {
+    const dir = taskDir(workspaceRoot, taskId);
+    let names: string[];
+    try {
+        names = fs.readdirSync(dir);
+    } catch {
+        return [];
+    }
+    return names
+        .filter(name => !name.startsWith('.'))
+        .map(name => readAttachment(dir, taskId, name))
+        .filter((a): a is TaskAttachment => a !== null)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Files attached to any task
+ */
+export function listAllAttachments(workspaceRoot: string): TaskAttachment[] {
+    let taskIds: string[];
+    try {
+        taskIds = fs.readdirSync(attachmentsRoot(workspaceRoot)).filter(id => !id.startsWith('.'));
+    } catch {
+        return [];
+    }
+    return taskIds.flatMap(taskId => listAttachments(workspaceRoot, taskId));
+}
+
+/**
+ * Save a file with a task. A name that is already taken gets a number appended.
+ */
+export function addAttachment(workspaceRoot: string, taskId: string, name: string, data: Buffer): TaskAttachment {
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+        throw new Error(`${name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+    }
+    const dir = taskDir(workspaceRoot, taskId);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const existing = listAttachments(workspaceRoot, taskId).map(a => a.name);
+    const fileName = uniqueAttachmentName(sanitizeAttachmentName(name), existing);
+    fs.writeFileSync(path.join(dir, fileName), data);
+    return readAttachment(dir, taskId, fileName)!;
+}
+
+export function getAttachment(workspaceRoot: string, taskId: string, name: string): TaskAttachment | null {
+    if (name !== sanitizeAttachmentName(name)) return null;
+    return readAttachment(taskDir(workspaceRoot, taskId), taskId, name);
+}
+
+export function removeAttachment(workspaceRoot: string, taskId: string, name: string): void {
+    const attachment = getAttachment(workspaceRoot, taskId, name);
+    if (!attachment) return;
+    fs.unlinkSync(attachment.path);
+    if (listAttachments(workspaceRoot, taskId).length === 0) {
+        fs.rmSync(taskDir(workspaceRoot, taskId), { recursive: true, force: true });
+    }
+}
+
+/**
+ * Delete the attachments of tasks that no longer exist. Deleted tasks keep their files
+ * while the session lasts so that undoing the delete brings them back.
+ * @returns the number of task folders removed
+ */
+export function pruneAttachments(workspaceRoot: string, taskIds: Set<string>): number {
+    let folders: string[];
+    try {
+        folders = fs.readdirSync(attachmentsRoot(workspaceRoot));
+    } catch {
+        return 0;
+    }
+    const orphaned = folders.filter(id => !id.startsWith('.') && !taskIds.has(id));
+    orphaned.forEach(id => fs.rmSync(taskDir(workspaceRoot, id), { recursive: true, force: true }));
+    return orphaned.length;
+}
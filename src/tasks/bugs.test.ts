@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { sortBySeverity, formatBugReport } from './bugs';
+import type { BugSeverity, TaskType } from '../db/types';
+
+function item(id: string, type: TaskType, severity: BugSeverity | null = null) {
+    return { id, type, severity };
+}
+
+describe('sortBySeverity', () => {
+    it('puts critical and high bugs first and low bugs last, keeping queue order otherwise', () => {
+        const tasks = [
+            item('low', 'bug', 'low'),
+            item('task-a', 'task'),
+            item('high', 'bug', 'high'),
+            item('unrated', 'bug'),
+            item('critical', 'bug', 'critical'),
+            item('medium', 'bug', 'medium'),
+            item('task-b', 'task')
+        ];
+        expect(sortBySeverity(tasks).map(t => t.id)).toEqual(
+            ['critical', 'high', 'task-a', 'unrated', 'medium', 'task-b', 'low']
+        );
+    });
+
+    it('ignores a severity left on a task that is no longer a bug', () => {
+        const tasks = [item('first', 'task'), item('was-bug', 'task', 'critical')];
+        expect(sortBySeverity(tasks).map(t => t.id)).toEqual(['first', 'was-bug']);
+    });
+});
+
+describe('formatBugReport', () => {
+    it('renders every section, marking missing ones', () => {
+        const report = formatBugReport({
+            title: 'Login fails',
+            description: null,
+            severity: 'high',
+            repro_steps: '1. Open /login\n2. Submit',
+            expected_result: 'Signed in',
+            actual_result: null,
+            environment: ' Safari 17 '
+        });
+        expect(report).toBe([
+            '## Bug report: Login fails',
+            '**Severity:** High',
+            '### Steps to reproduce\n1. Open /login\n2. Submit',
+            '### Expected result\nSigned in',
+            '### Actual result\n_Not provided_',
+            '### Environment\nSafari 17'
+        ].join('\n\n'));
+    });
+
+    it('adds the description as notes', () => {
+        const report = formatBugReport({
+            title: 'Crash',
+            description: 'Started after the upgrade',
+            severity: null,
+            repro_steps: null,
+            expected_result: null,
+            actual_result: null,
+            environment: null
+        });
+        expect(report).toContain('**Severity:** Not set');
+        expect(report.endsWith('### Notes\nStarted after the upgrade')).toBe(true);
+    });
+});
@@ -0,0 +1,49 @@
+import type { BugSeverity, Task } from '../db/types';
+
+/**
+ * Bug severities, most severe first
+ */
+export const BUG_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+export type BugFields = Pick<Task, 'severity' | 'repro_steps' | 'expected_result' | 'actual_result' | 'environment'>;
+
+export function isValidSeverity(value: unknown): value is BugSeverity {
+    return (BUG_SEVERITIES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Where a task sorts by severity: critical and high bugs ahead of everything else,
+ * low bugs behind. Tasks and bugs without a severity sit with medium ones.
+ */
+export function severityRank(task: Pick<Task, 'type' | 'severity'>): number {
+    if (task.type !== 'bug' || !task.severity) return BUG_SEVERITIES.indexOf('medium');
+    return BUG_SEVERITIES.indexOf(task.severity);
+}
+
+/**
+ * Tasks ordered by severity, keeping their existing (queue) order within each severity
+ */
+export function sortBySeverity<T extends Pick<Task, 'type' | 'severity'>>(tasks: T[]): T[] {
+    return [...tasks].sort((a, b) => severityRank(a) - severityRank(b));
+}
+
+function section(heading: string, text: string | null): string {
+    return `### ${heading}\n${text?.trim() || '_Not provided_'}`;
+}
+
+/**
+ * The bug fields as a Markdown report. Every section is always present (empty ones say
+ * "Not provided") so the agent gets the same shape for every bug.
+ */
+export function formatBugReport(task: Pick<Task, 'title' | 'description'> & BugFields): string {
+    const severity = task.severity ? task.severity.charAt(0).toUpperCase() + task.severity.slice(1) : 'Not set';
+    return [
+        `## Bug report: ${task.title}`,
+        `**Severity:** ${severity}`,
+        section('Steps to reproduce', task.repro_steps),
+        section('Expected result', task.expected_result),
+        section('Actual result', task.actual_result),
+        section('Environment', task.environment),
+        ...(task.description?.trim() ? [section('Notes', task.description)] : [])
+    ].join('\n\n');
+}
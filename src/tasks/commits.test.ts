@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { parseTaskTrailers, parseGitLog, matchCommitsToTasks, type GitCommit } from './commits';
+
+function commit(sha: string, taskIds: string[] = []): GitCommit {
+    return { sha, subject: sha, author: 'dev', committed_at: '', task_ids: taskIds };
+}
+
+describe('parseTaskTrailers', () => {
+    it('reads every Shepherd-Task trailer, case-insensitively, without duplicates', () => {
+        const message = 'Fix login\n\nBody text mentions Shepherd-Task: in passing\n\nShepherd-Task: a1, b2\nshepherd-task: b2 c3\n';
+        expect(parseTaskTrailers(message)).toEqual(['a1', 'b2', 'c3']);
+    });
+
+    it('returns nothing without a trailer', () => {
+        expect(parseTaskTrailers('Refactor the parser')).toEqual([]);
+    });
+});
+
+describe('parseGitLog', () => {
+    it('splits records and fields and reads the subject and trailers', () => {
+        const output = [
+            'abc123\x1fAda\x1f2025-03-10T09:00:00+01:00\x1fAdd route\n\nShepherd-Task: t1\n\x1e',
+            '\ndef456\x1fBob\x1f2025-03-10T10:00:00+01:00\x1fTidy up\n\x1e\n'
+        ].join('');
+        expect(parseGitLog(output)).toEqual([
+            { sha: 'abc123', subject: 'Add route', author: 'Ada', committed_at: '2025-03-10T09:00:00+01:00', task_ids: ['t1'] },
+            { sha: 'def456', subject: 'Tidy up', author: 'Bob', committed_at: '2025-03-10T10:00:00+01:00', task_ids: [] }
+        ]);
+    });
+});
+
+describe('matchCommitsToTasks', () => {
+    const exists = (id: string) => id !== 'gone';
+
+    it('links by trailer and skips tasks that do not exist', () => {
+        const links = matchCommitsToTasks([commit('c1', ['t1', 'gone']), commit('c2', ['t2'])], ['t1', 't2'], exists);
+        expect(links.map(l => [l.task_id, l.commit.sha])).toEqual([['t1', 'c1'], ['t2', 'c2']]);
+    });
+
+    it('credits untagged commits to the built task only when one task was built', () => {
+        expect(matchCommitsToTasks([commit('c1')], ['t1'], exists).map(l => l.task_id)).toEqual(['t1']);
+        expect(matchCommitsToTasks([commit('c1')], ['t1', 't2'], exists)).toEqual([]);
+    });
+
+    it('does not credit untagged commits to a built task deleted since', () => {
+        const links = matchCommitsToTasks([commit('c1'), commit('c2', ['t2'])], ['gone'], exists);
+        expect(links.map(l => [l.task_id, l.commit.sha])).toEqual([['t2', 'c2']]);
+    });
+});
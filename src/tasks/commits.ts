@@ -0,0 +1,141 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { TaskCommit } from '../db/types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Commit message trailer naming the task(s) a commit implements:
+ *
+ *     Fix login redirect
+ *
+ *     Shepherd-Task: 3f2a9c1e-...
+ */
+export const TASK_TRAILER = 'Shepherd-Task';
+
+export interface GitCommit {
+    sha: string;
+    subject: string;
+    author: string;
+    committed_at: string;
+    task_ids: string[];     // From Shepherd-Task trailers
+}
+
+// Field and record separators for `git log --format`; neither appears in commit messages
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+const TRAILER = new RegExp(`^${TASK_TRAILER}:\\s*(.+)$`, 'gim');
+
+/**
+ * Task ids named in a commit message's Shepherd-Task trailers (several per line are
+ * allowed, separated by commas or spaces)
+ */
+export function parseTaskTrailers(message: string): string[] {
+    const ids: string[] = [];
+    for (const match of message.matchAll(TRAILER)) {
+        for (const id of match[1].split(/[\s,]+/)) {
+            if (id && !ids.includes(id)) ids.push(id);
+        }
+    }
+    return ids;
+}
+
+/**
+ * Parse `git log` output written with LOG_FORMAT
+ */
+export function parseGitLog(output: string): GitCommit[] {
+    return output.split(RECORD)
+        .map(record => record.replace(/^\n/, ''))
+        .filter(record => record.trim())
+        .map(record => {
+            const [sha, author, committedAt, body = ''] = record.split(FIELD);
+            return {
+                sha,
+                subject: body.split('\n')[0].trim(),
+                author,
+                committed_at: committedAt,
+                task_ids: parseTaskTrailers(body)
+            };
+        });
+}
+
+const LOG_FORMAT = `--format=%H${FIELD}%an${FIELD}%cI${FIELD}%B${RECORD}`;
+
+/**
+ * Which task each commit belongs to. Trailers decide; a commit without one is credited to
+ * the built task when only one task was built. Unknown tasks, whether named by a trailer or
+ * deleted since the build, are ignored.
+ */
+export function matchCommitsToTasks(
+    commits: GitCommit[],
+    builtTaskIds: string[],
+    taskExists: (id: string) => boolean
+): { task_id: string; commit: GitCommit }[] {
+    const builtTask = builtTaskIds.length === 1 && taskExists(builtTaskIds[0]) ? builtTaskIds : [];
+    const links: { task_id: string; commit: GitCommit }[] = [];
+    for (const commit of commits) {
+        const ids = commit.task_ids.length > 0
+            ? commit.task_ids.filter(taskExists)
+            : builtTask;
+        ids.forEach(id => links.push({ task_id: id, commit }));
+    }
+    return links;
+}
+
+async function git(cwd: string, args: string[]): Promise<string | null> {
+    try {
+        const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+        return stdout;
+    } catch {
+        // Not a repository, no commits yet, or git is not installed
+        return null;
+    }
+}
+
+/**
+ * The commit HEAD points at, or null outside a git repository or before the first commit
+ */
+export async function getHead(cwd: string): Promise<string | null> {
+    return (await git(cwd, ['rev-parse', 'HEAD']))?.trim() || null;
+}
+
+/**
+ * The checked-out branch, or null on a detached HEAD
+ */
+export async function getBranch(cwd: string): Promise<string | null> {
+    const branch = (await git(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']))?.trim();
+    return branch && branch !== 'HEAD' ? branch : null;
+}
+
+/**
+ * Commits reachable from `to` but not from `from`, oldest first. Without `from`, all of them.
+ */
+export async function listCommits(cwd: string, from: string | null, to: string): Promise<GitCommit[]> {
+    const output = await git(cwd, ['log', '--reverse', LOG_FORMAT, from ? `${from}..${to}` : to]);
+    return output ? parseGitLog(output) : [];
+}
+
+/**
+ * `git show` of one commit (stat and patch), for viewing as a diff
+ */
+export async function showCommit(cwd: string, sha: string): Promise<string | null> {
+    if (!/^[0-9a-f]{4,40}$/i.test(sha)) return null;
+    return git(cwd, ['show', '--stat', '--patch', '--format=fuller', sha]);
+}
+
+/**
+ * Task commit links for the commits a build added, with the branch they were made on
+ */
+export function toTaskCommits(links: { task_id: string; commit: GitCommit }[], branch: string | null): TaskCommit[] {
+    const now = new Date().toISOString();
+    return links.map(({ task_id, commit }) => ({
+        task_id,
+        sha: commit.sha,
+        subject: commit.subject,
+        author: commit.author,
+        branch,
+        committed_at: commit.committed_at,
+        created_at: now
+    }));
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { wouldCreateCycle, getOpenBlockers } from './dependencies';
+import { task } from '../test/fixtures';
+import type { TaskDependency } from '../db/types';
+
+function dep(taskId: string, blockedById: string): TaskDependency {
+    return { task_id: taskId, blocked_by_id: blockedById, created_at: '' };
+}
+
+describe('wouldCreateCycle', () => {
+    it('rejects a task blocking itself', () => {
+        expect(wouldCreateCycle([], 'a', 'a')).toBe(true);
+    });
+
+    it('rejects a direct cycle', () => {
+        // b is blocked by a, so a cannot be blocked by b
+        expect(wouldCreateCycle([dep('b', 'a')], 'a', 'b')).toBe(true);
+    });
+
+    it('rejects a transitive cycle', () => {
+        const deps = [dep('b', 'a'), dep('c', 'b')];
+        expect(wouldCreateCycle(deps, 'a', 'c')).toBe(true);
+    });
+
+    it('allows diamonds and unrelated chains', () => {
+        const deps = [dep('b', 'a'), dep('c', 'a'), dep('d', 'b')];
+        expect(wouldCreateCycle(deps, 'd', 'c')).toBe(false);
+        expect(wouldCreateCycle(deps, 'e', 'd')).toBe(false);
+    });
+});
+
+describe('getOpenBlockers', () => {
+    it('ignores blockers that are done, awaiting signoff, or deleted', () => {
+        const tasks = new Map([
+            ['a', task('a', { status: 'done' })],
+            ['b', task('b', { status: 'ready-for-signoff' })],
+            ['c', task('c', { status: 'in-progress' })],
+            ['t', task('t', { status: 'todo' })],
+        ]);
+        const deps = [dep('t', 'a'), dep('t', 'b'), dep('t', 'c'), dep('t', 'gone')];
+        expect(getOpenBlockers('t', deps, tasks)).toEqual(['c']);
+    });
+});
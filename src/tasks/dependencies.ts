@@ -0,0 +1,48 @@
+import type { Task, TaskDependency, TaskStatus } from '../db/types';
+
+/**
+ * Statuses that count as "landed" for a blocker. Work awaiting signoff
+ * is already implemented, so dependents may start.
+ */
+export const SATISFIED_STATUSES: ReadonlySet<TaskStatus> = new Set<TaskStatus>(['done', 'ready-for-signoff']);
+
+/**
+ * Check whether adding "taskId is blocked by blockedById" would create a cycle,
+ * i.e. whether blockedById already (transitively) depends on taskId.
+ */
+export function wouldCreateCycle(dependencies: TaskDependency[], taskId: string, blockedById: string): boolean {
+    if (taskId === blockedById) return true;
+
+    const blockersOf = new Map<string, string[]>();
+    for (const dep of dependencies) {
+        const list = blockersOf.get(dep.task_id) || [];
+        list.push(dep.blocked_by_id);
+        blockersOf.set(dep.task_id, list);
+    }
+
+    // Walk everything blockedById waits on; reaching taskId closes a loop
+    const visited = new Set<string>();
+    const stack = [blockedById];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === taskId) return true;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        stack.push(...(blockersOf.get(current) || []));
+    }
+    return false;
+}
+
+/**
+ * Return the IDs of a task's blockers that have not landed yet.
+ * Blockers that no longer exist are ignored.
+ */
+export function getOpenBlockers(taskId: string, dependencies: TaskDependency[], tasksById: Map<string, Task>): string[] {
+    return dependencies
+        .filter(dep => dep.task_id === taskId)
+        .map(dep => dep.blocked_by_id)
+        .filter(id => {
+            const blocker = tasksById.get(id);
+            return blocker !== undefined && !SATISFIED_STATUSES.has(blocker.status);
+        });
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { computeVelocity } from './estimates';
+import { task } from '../test/fixtures';
+
+// Wednesday; the week starts on Monday 2025-03-10
+const NOW = new Date('2025-03-12T12:00:00.000Z');
+
+describe('computeVelocity', () => {
+    it('sums points per week in which each task was last done', () => {
+        const tasks = [task('a', { status: 'done', estimate: 3 }), task('b', { status: 'done', estimate: 5 }), task('c', { status: 'done' })];
+        const events = [
+            { task_id: 'a', created_at: '2025-02-26T10:00:00.000Z' },
+            { task_id: 'b', created_at: '2025-03-03T09:00:00.000Z' },
+            // Reopened and finished again this week
+            { task_id: 'a', created_at: '2025-03-11T10:00:00.000Z' },
+            { task_id: 'c', created_at: '2025-03-09T23:00:00.000Z' },
+        ];
+
+        const velocity = computeVelocity(tasks, events, NOW, 3);
+
+        expect(velocity.weeks).toEqual([
+            { week_start: '2025-02-24', points: 0, tasks: 0 },
+            { week_start: '2025-03-03', points: 5, tasks: 2 },
+            { week_start: '2025-03-10', points: 3, tasks: 1 },
+        ]);
+        // Current week is unfinished and left out of the average
+        expect(velocity.average).toBe(2.5);
+    });
+
+    it('ignores tasks that are no longer done or finished before the window', () => {
+        const tasks = [task('a', { status: 'rework', estimate: 8 }), task('b', { status: 'done', estimate: 2 })];
+        const events = [
+            { task_id: 'a', created_at: '2025-03-11T10:00:00.000Z' },
+            { task_id: 'b', created_at: '2024-12-01T10:00:00.000Z' },
+        ];
+
+        expect(computeVelocity(tasks, events, NOW, 2).weeks.every(w => w.tasks === 0)).toBe(true);
+    });
+});
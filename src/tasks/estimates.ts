@@ -0,0 +1,67 @@
+import type { Task, TaskEvent } from '../db/types';
+
+/**
+ * Allowed story-point estimates. The UI labels them as t-shirt sizes XS, S, M, L, XL.
+ */
+export const ESTIMATE_POINTS = [1, 2, 3, 5, 8] as const;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isValidEstimate(value: unknown): value is number {
+    return (ESTIMATE_POINTS as readonly unknown[]).includes(value);
+}
+
+export interface WeeklyVelocity {
+    week_start: string;   // Monday 00:00 UTC, ISO date
+    points: number;
+    tasks: number;        // Includes tasks without an estimate
+}
+
+export interface Velocity {
+    weeks: WeeklyVelocity[];   // Oldest first; the last entry is the current, unfinished week
+    average: number;           // Points per week over the finished weeks
+}
+
+function weekStart(date: Date): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    // getUTCDay: 0 = Sunday; weeks start on Monday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    return start;
+}
+
+/**
+ * Completed story points per week over the last `weekCount` weeks, from task history.
+ * A task counts in the week it last moved to done, and only if it is still done
+ * (reopened tasks drop out until they are done again).
+ */
+export function computeVelocity(
+    tasks: Task[],
+    doneEvents: Pick<TaskEvent, 'task_id' | 'created_at'>[],
+    now: Date,
+    weekCount: number = 6
+): Velocity {
+    const currentWeek = weekStart(now).getTime();
+    const weeks: WeeklyVelocity[] = [];
+    for (let i = weekCount - 1; i >= 0; i--) {
+        weeks.push({ week_start: new Date(currentWeek - i * WEEK_MS).toISOString().slice(0, 10), points: 0, tasks: 0 });
+    }
+
+    // Events are oldest first, so the last one per task wins
+    const doneAt = new Map<string, number>();
+    doneEvents.forEach(e => doneAt.set(e.task_id, Date.parse(e.created_at)));
+
+    for (const task of tasks) {
+        const at = doneAt.get(task.id);
+        if (task.status !== 'done' || at === undefined || Number.isNaN(at)) continue;
+        const index = weekCount - 1 - Math.round((currentWeek - weekStart(new Date(at)).getTime()) / WEEK_MS);
+        if (index < 0 || index >= weekCount) continue;
+        weeks[index].points += task.estimate ?? 0;
+        weeks[index].tasks++;
+    }
+
+    const finished = weeks.slice(0, -1);
+    const average = finished.length > 0
+        ? Math.round(finished.reduce((sum, w) => sum + w.points, 0) / finished.length * 10) / 10
+        : 0;
+    return { weeks, average };
+}
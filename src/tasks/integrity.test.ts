@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { toIntegrityIssues, findMissingRequirements, formatIntegrityReport } from './integrity';
+import type { ForeignKeyViolation } from '../db/types';
+
+const orphanedTask: ForeignKeyViolation = { table: 'tasks', rowid: 1, column: 'feature_id', parent: 'features', value: 'f-gone', row_id: 't1' };
+const orphanedComment: ForeignKeyViolation = { table: 'task_comments', rowid: 4, column: 'task_id', parent: 'tasks', value: 't-gone', row_id: 't-gone' };
+
+describe('toIntegrityIssues', () => {
+    it('describes each finding', () => {
+        const issues = toIntegrityIssues(
+            [orphanedTask, orphanedComment],
+            [{ table: 'tasks', rank: 'a2', ids: ['a', 'b'] }],
+            [{ id: 'f1', title: 'Login', requirement_path: 'docs/requirements/login.md' }]
+        );
+        expect(issues.map(i => i.message)).toEqual([
+            'Task t1: feature_id points at features f-gone, which no longer exists',
+            'A row in task_comments (task t-gone): task_id points at tasks t-gone, which no longer exists',
+            '2 tasks share rank a2, so their order is undefined',
+            'Feature "Login" links to docs/requirements/login.md, which does not exist',
+        ]);
+    });
+});
+
+describe('findMissingRequirements', () => {
+    const root = path.resolve('/work/app');
+    const existing = new Set([path.join(root, 'docs', 'requirements', 'login.md')]);
+
+    it('reports deleted docs and paths outside the folder', () => {
+        const features = [
+            { id: 'a', requirement_path: 'docs/requirements/login.md' },
+            { id: 'b', requirement_path: 'docs/requirements/gone.md' },
+            { id: 'c', requirement_path: '../elsewhere.md' },
+            { id: 'd', requirement_path: null },
+        ];
+        expect(findMissingRequirements(features, root, p => existing.has(p)).map(f => f.id)).toEqual(['b', 'c']);
+    });
+});
+
+describe('formatIntegrityReport', () => {
+    it('groups issues by kind with the fix that would be applied', () => {
+        const report = formatIntegrityReport(toIntegrityIssues([orphanedTask], [], []), 'app');
+        expect(report).toContain('# Shepherd integrity check: app');
+        expect(report).toContain('1 problem found.');
+        expect(report).toContain('## References to deleted rows (1)');
+        expect(report).not.toContain('Tied ranks');
+    });
+
+    it('says so when there is nothing to fix', () => {
+        expect(formatIntegrityReport([], 'app')).toContain('No problems found.');
+    });
+});
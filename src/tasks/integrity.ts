@@ -0,0 +1,87 @@
+import * as path from 'path';
+import type { Feature, ForeignKeyViolation, RankCollision } from '../db/types';
+import { relativeLocationPath } from './locations';
+
+export type IntegrityIssue =
+    | { kind: 'orphaned_reference'; violation: ForeignKeyViolation; message: string }
+    | { kind: 'duplicate_rank'; collision: RankCollision; message: string }
+    | { kind: 'missing_requirement'; feature_id: string; path: string; message: string };
+
+const SECTION_TITLES: Record<IntegrityIssue['kind'], string> = {
+    orphaned_reference: 'References to deleted rows',
+    duplicate_rank: 'Tied ranks',
+    missing_requirement: 'Missing requirement docs',
+};
+
+const FIXES: Record<IntegrityIssue['kind'], string> = {
+    orphaned_reference: 'Fix: optional links (task feature, feature milestone) are cleared; checklist items, comments, dependencies, commits and code locations of deleted tasks are removed.',
+    duplicate_rank: 'Fix: tied rows get their own ranks where they are, oldest first.',
+    missing_requirement: 'Fix: the link to the doc is removed from the feature.',
+};
+
+function describeViolation(v: ForeignKeyViolation): string {
+    const what = v.table === 'tasks' ? `Task ${v.row_id}`
+        : v.table === 'features' ? `Feature ${v.row_id}`
+        : `A row in ${v.table} (task ${v.row_id})`;
+    return `${what}: ${v.column} points at ${v.parent} ${v.value}, which no longer exists`;
+}
+
+/**
+ * Turn database findings into issues with messages for the report
+ */
+export function toIntegrityIssues(
+    violations: ForeignKeyViolation[],
+    collisions: RankCollision[],
+    missingRequirements: Pick<Feature, 'id' | 'title' | 'requirement_path'>[]
+): IntegrityIssue[] {
+    return [
+        ...violations.map(violation => ({ kind: 'orphaned_reference' as const, violation, message: describeViolation(violation) })),
+        ...collisions.map(collision => ({
+            kind: 'duplicate_rank' as const,
+            collision,
+            message: `${collision.ids.length} ${collision.table} share rank ${collision.rank}, so their order is undefined`
+        })),
+        ...missingRequirements.map(f => ({
+            kind: 'missing_requirement' as const,
+            feature_id: f.id,
+            path: f.requirement_path!,
+            message: `Feature "${f.title}" links to ${f.requirement_path}, which does not exist`
+        })),
+    ];
+}
+
+/**
+ * Features whose requirement doc is gone. Paths are relative to the workspace folder;
+ * ones that point outside it count as missing.
+ */
+export function findMissingRequirements<T extends Pick<Feature, 'requirement_path'>>(
+    features: T[],
+    workspaceRoot: string,
+    exists: (absolutePath: string) => boolean
+): T[] {
+    return features.filter(f => {
+        if (!f.requirement_path) return false;
+        const resolved = path.resolve(workspaceRoot, f.requirement_path);
+        return relativeLocationPath(workspaceRoot, resolved) === null || !exists(resolved);
+    });
+}
+
+/**
+ * Markdown report grouped by kind, with what a repair would do
+ */
+export function formatIntegrityReport(issues: IntegrityIssue[], folderName: string): string {
+    const lines = [`# Shepherd integrity check: ${folderName}`, ''];
+    if (issues.length === 0) {
+        lines.push('No problems found.');
+        return lines.join('\n') + '\n';
+    }
+    lines.push(`${issues.length} ${issues.length === 1 ? 'problem' : 'problems'} found.`);
+    for (const kind of Object.keys(SECTION_TITLES) as IntegrityIssue['kind'][]) {
+        const ofKind = issues.filter(i => i.kind === kind);
+        if (ofKind.length === 0) continue;
+        lines.push('', `## ${SECTION_TITLES[kind]} (${ofKind.length})`, '');
+        ofKind.forEach(i => lines.push(`- ${i.message}`));
+        lines.push('', FIXES[kind]);
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { OperationJournal } from './journal';
+
+// Journal entry that adds/removes a value from a shared list
+function push(items: string[], value: string) {
+    items.push(value);
+    return {
+        label: `add ${value}`,
+        undo: () => { items.splice(items.indexOf(value), 1); },
+        redo: () => { items.push(value); },
+    };
+}
+
+describe('OperationJournal', () => {
+    it('undoes and redoes in stack order', () => {
+        const items: string[] = [];
+        const journal = new OperationJournal();
+        journal.record(push(items, 'a'));
+        journal.record(push(items, 'b'));
+
+        expect(journal.undo()?.label).toBe('add b');
+        expect(items).toEqual(['a']);
+        expect(journal.undo()?.label).toBe('add a');
+        expect(items).toEqual([]);
+        expect(journal.undo()).toBeNull();
+
+        expect(journal.redo()?.label).toBe('add a');
+        expect(items).toEqual(['a']);
+        expect(journal.canRedo()).toBe(true);
+    });
+
+    it('clears redo history when a new operation is recorded', () => {
+        const items: string[] = [];
+        const journal = new OperationJournal();
+        journal.record(push(items, 'a'));
+        journal.undo();
+        journal.record(push(items, 'b'));
+
+        expect(journal.canRedo()).toBe(false);
+        expect(journal.redo()).toBeNull();
+        expect(items).toEqual(['b']);
+    });
+
+    it('drops an entry whose undo throws', () => {
+        const journal = new OperationJournal();
+        journal.record({ label: 'broken', undo: () => { throw new Error('gone'); }, redo: () => {} });
+
+        expect(() => journal.undo()).toThrow('gone');
+        expect(journal.canUndo()).toBe(false);
+        expect(journal.canRedo()).toBe(false);
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * A reversible backlog mutation. `undo` and `redo` re-apply the inverse and the
+ * original change against the repositories without journaling again.
+ */
+export interface JournalEntry {
+    label: string;
+    undo: () => void;
+    redo: () => void;
+}
+
+// Oldest entries are dropped beyond this depth
+const MAX_ENTRIES = 50;
+
+export class OperationJournal {
+    private readonly undoStack: JournalEntry[] = [];
+    private readonly redoStack: JournalEntry[] = [];
+
+    /**
+     * Record a new operation. Any redo history is discarded.
+     */
+    record(entry: JournalEntry): void {
+        this.undoStack.push(entry);
+        if (this.undoStack.length > MAX_ENTRIES) {
+            this.undoStack.shift();
+        }
+        this.redoStack.length = 0;
+    }
+
+    /**
+     * Revert the most recent operation. Returns it, or null if there is nothing to undo.
+     */
+    undo(): JournalEntry | null {
+        const entry = this.undoStack.pop();
+        if (!entry) return null;
+        entry.undo();
+        this.redoStack.push(entry);
+        return entry;
+    }
+
+    /**
+     * Re-apply the most recently undone operation. Returns it, or null if there is nothing to redo.
+     */
+    redo(): JournalEntry | null {
+        const entry = this.redoStack.pop();
+        if (!entry) return null;
+        entry.redo();
+        this.undoStack.push(entry);
+        return entry;
+    }
+
+    clear(): void {
+        this.undoStack.length = 0;
+        this.redoStack.length = 0;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+}
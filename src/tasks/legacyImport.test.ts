@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseTasksFile, mapLegacyTasks } from './legacyImport';
+
+const NOW = '2025-01-01T00:00:00.000Z';
+
+describe('parseTasksFile', () => {
+    it('rejects files without a tasks list', () => {
+        expect(() => parseTasksFile('{')).toThrow('not valid JSON');
+        expect(() => parseTasksFile('{"version":1}')).toThrow('no "tasks" list');
+    });
+});
+
+describe('mapLegacyTasks', () => {
+    it('keeps the legacy priority order after the existing tasks', () => {
+        const { tasks } = mapLegacyTasks([
+            { id: 'b', title: 'Second', priority: 5 },
+            { id: 'a', title: 'First', priority: 1 },
+        ], 'a3', NOW);
+
+        expect(tasks.map(t => [t.id, t.rank])).toEqual([['a', 'a4'], ['b', 'a5']]);
+        expect(tasks.every(t => t.feature_id === null)).toBe(true);
+    });
+
+    it('resets unknown statuses to todo and counts them', () => {
+        const { tasks, statusesReset } = mapLegacyTasks([
+            { id: 'a', title: 'A', status: 'in-progress' },
+            { id: 'b', title: 'B', status: 'blocked' },
+            { id: 'c', title: 'C' },
+        ], null, NOW);
+
+        expect(tasks.map(t => t.status)).toEqual(['in-progress', 'todo', 'todo']);
+        expect(statusesReset).toBe(1);
+    });
+
+    it('derives a title from the description and keeps the requirement link', () => {
+        const { tasks } = mapLegacyTasks([
+            { description: 'Fix login\nIt fails on Safari', requirementPath: 'docs/requirements/auth.md' },
+        ], null, NOW);
+
+        expect(tasks[0].id).toBeTruthy();
+        expect(tasks[0].title).toBe('Fix login');
+        expect(tasks[0].description).toBe('Fix login\nIt fails on Safari\n\nRequirement: docs/requirements/auth.md');
+        expect(tasks[0].created_at).toBe(NOW);
+    });
+});
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import { v4 as uuid } from 'uuid';
+import type { Task, TaskStatus } from '../db/types';
+import { ranksBetween } from '../db/rank';
+import type { LegacyTask, TasksFile } from './types';
+import type { TaskStore } from './TaskStore';
+
+const VALID_STATUSES: TaskStatus[] = ['todo', 'in-progress', 'ready-for-signoff', 'done', 'rework'];
+
+// Titles derived from a description are cut to this length
+const MAX_DERIVED_TITLE = 80;
+
+export interface LegacyImportResult {
+    imported: number;
+    // Already in the database (e.g. imported before)
+    skipped: number;
+    // Tasks whose status was not recognized and were imported as todo
+    statusesReset: number;
+    backupPath: string | null;
+}
+
+/**
+ * Parse the contents of a legacy tasks.json
+ */
+export function parseTasksFile(content: string): TasksFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('tasks.json is not valid JSON');
+    }
+    const tasks = (parsed as Partial<TasksFile>)?.tasks;
+    if (!Array.isArray(tasks)) {
+        throw new Error('tasks.json has no "tasks" list');
+    }
+    return { version: (parsed as Partial<TasksFile>).version ?? 1, tasks };
+}
+
+/**
+ * Map legacy tasks onto task rows, ungrouped and in their original priority order
+ * at the end of the queue (ranked after lastRank).
+ */
+export function mapLegacyTasks(legacy: LegacyTask[], lastRank: string | null, now: string): { tasks: Task[]; statusesReset: number } {
+    let statusesReset = 0;
+    const ordered = legacy
+        .map((task, index) => ({ task, index }))
+        .sort((a, b) => (a.task.priority ?? a.index) - (b.task.priority ?? b.index) || a.index - b.index);
+    const ranks = ranksBetween(lastRank, null, ordered.length);
+
+    const tasks = ordered.map(({ task }, position): Task => {
+        const status = VALID_STATUSES.includes(task.status as TaskStatus) ? task.status as TaskStatus : 'todo';
+        if (task.status && status !== task.status) {
+            statusesReset++;
+        }
+
+        const description = task.description?.trim() || null;
+        const title = task.title?.trim()
+            || description?.split('\n')[0].slice(0, MAX_DERIVED_TITLE)
+            || 'Untitled task';
+        // Tasks had no feature to hold the requirement link, so keep it in the description
+        const withRequirement = task.requirementPath
+            ? [description, `Requirement: ${task.requirementPath}`].filter(Boolean).join('\n\n')
+            : description;
+
+        const createdAt = task.created_at || task.createdAt || now;
+        return {
+            id: task.id || uuid(),
+            feature_id: null,
+            type: task.type === 'bug' ? 'bug' : 'task',
+            title,
+            description: withRequirement,
+            status,
+            rank: ranks[position],
+            created_at: createdAt,
+            updated_at: task.updated_at || task.updatedAt || createdAt,
+            archived_at: null,
+            estimate: null,
+            severity: null,
+            repro_steps: null,
+            expected_result: null,
+            actual_result: null,
+            environment: null,
+        };
+    });
+
+    return { tasks, statusesReset };
+}
+
+/**
+ * Import a legacy tasks.json into the store. Tasks already in the database are skipped,
+ * so running it twice is harmless. With `backup`, the file is renamed to `.bak` afterwards
+ * so it is not picked up again on the next activation.
+ */
+export function importLegacyTasksFile(filePath: string, taskStore: TaskStore, options: { backup: boolean }): LegacyImportResult {
+    const file = parseTasksFile(fs.readFileSync(filePath, 'utf-8'));
+
+    const existing = taskStore.getTasks({ include_archived: true });
+    const lastRank = existing.length > 0 ? existing[existing.length - 1].rank : null;
+    const fresh = file.tasks.filter(t => !(t.id && taskStore.getTask(t.id)));
+    const { tasks, statusesReset } = mapLegacyTasks(fresh, lastRank, new Date().toISOString());
+    taskStore.importTasks(tasks);
+
+    let backupPath: string | null = null;
+    if (options.backup) {
+        backupPath = `${filePath}.bak`;
+        if (fs.existsSync(backupPath)) {
+            backupPath = `${filePath}.${Date.now()}.bak`;
+        }
+        fs.renameSync(filePath, backupPath);
+    }
+
+    return {
+        imported: tasks.length,
+        skipped: file.tasks.length - fresh.length,
+        statusesReset,
+        backupPath
+    };
+}
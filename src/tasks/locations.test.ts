@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { selectionLines, relativeLocationPath, resolveLocationPath, formatLocation } from './locations';
+
+describe('selectionLines', () => {
+    it('converts to 1-based lines', () => {
+        expect(selectionLines({ line: 4 }, { line: 4, character: 0 })).toEqual({ start_line: 5, end_line: 5 });
+        expect(selectionLines({ line: 4 }, { line: 9, character: 3 })).toEqual({ start_line: 5, end_line: 10 });
+    });
+
+    it('leaves out the line a whole-line selection ends on', () => {
+        expect(selectionLines({ line: 4 }, { line: 7, character: 0 })).toEqual({ start_line: 5, end_line: 7 });
+    });
+});
+
+describe('location paths', () => {
+    const root = path.resolve('/work/app');
+
+    it('stores paths relative to the folder with forward slashes', () => {
+        expect(relativeLocationPath(root, path.join(root, 'src', 'app.ts'))).toBe('src/app.ts');
+        expect(relativeLocationPath(root, path.resolve('/work/other/app.ts'))).toBeNull();
+        expect(relativeLocationPath(root, root)).toBeNull();
+    });
+
+    it('refuses stored paths that leave the folder', () => {
+        expect(resolveLocationPath(root, { path: 'src/app.ts' })).toBe(path.join(root, 'src', 'app.ts'));
+        expect(resolveLocationPath(root, { path: '../secrets.txt' })).toBeNull();
+    });
+});
+
+describe('formatLocation', () => {
+    it('shows one line or a range', () => {
+        expect(formatLocation({ path: 'src/app.ts', start_line: 12, end_line: 12 })).toBe('src/app.ts:12');
+        expect(formatLocation({ path: 'src/app.ts', start_line: 12, end_line: 18 })).toBe('src/app.ts:12-18');
+    });
+});
@@ -0,0 +1,37 @@
+import * as path from 'path';
+import type { NewTaskLocation, TaskLocation } from '../db/types';
+
+/**
+ * 1-based line range of an editor selection (0-based positions). A selection that ends at
+ * the very start of a line, as whole-line selections do, doesn't include that line.
+ */
+export function selectionLines(start: { line: number }, end: { line: number; character: number }): { start_line: number; end_line: number } {
+    const endLine = end.line > start.line && end.character === 0 ? end.line - 1 : end.line;
+    return { start_line: start.line + 1, end_line: endLine + 1 };
+}
+
+/**
+ * A file's path relative to the workspace folder, with forward slashes, or null if it is outside it
+ */
+export function relativeLocationPath(workspaceRoot: string, filePath: string): string | null {
+    const relative = path.relative(workspaceRoot, filePath);
+    if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) return null;
+    return relative.split(path.sep).join('/');
+}
+
+/**
+ * Absolute path of a stored location, or null if it points outside the workspace folder
+ */
+export function resolveLocationPath(workspaceRoot: string, location: Pick<TaskLocation, 'path'>): string | null {
+    const resolved = path.resolve(workspaceRoot, location.path);
+    return relativeLocationPath(workspaceRoot, resolved) === null ? null : resolved;
+}
+
+/**
+ * `src/app.ts:12` or `src/app.ts:12-18`
+ */
+export function formatLocation(location: NewTaskLocation): string {
+    return location.start_line === location.end_line
+        ? `${location.path}:${location.start_line}`
+        : `${location.path}:${location.start_line}-${location.end_line}`;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { computeTaskFlow, computeFlowMetrics } from './metrics';
+import { task } from '../test/fixtures';
+import type { TaskEvent, TaskStatus } from '../db/types';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2025-03-12T12:00:00.000Z');
+
+function created(taskId: string, at: string, status: TaskStatus = 'todo'): Pick<TaskEvent, 'task_id' | 'event' | 'from_value' | 'to_value' | 'created_at'> {
+    return { task_id: taskId, event: 'created', from_value: null, to_value: status, created_at: at };
+}
+
+function moved(taskId: string, from: TaskStatus, to: TaskStatus, at: string): Pick<TaskEvent, 'task_id' | 'event' | 'from_value' | 'to_value' | 'created_at'> {
+    return { task_id: taskId, event: 'status_changed', from_value: from, to_value: to, created_at: at };
+}
+
+describe('computeTaskFlow', () => {
+    it('measures lead, cycle and review wait time across rework', () => {
+        const flow = computeTaskFlow(task('a', { status: 'done', created_at: '2025-03-10T00:00:00.000Z' }), [
+            created('a', '2025-03-10T00:00:00.000Z'),
+            moved('a', 'todo', 'in-progress', '2025-03-10T02:00:00.000Z'),
+            moved('a', 'in-progress', 'ready-for-signoff', '2025-03-10T05:00:00.000Z'),
+            moved('a', 'ready-for-signoff', 'rework', '2025-03-10T09:00:00.000Z'),
+            moved('a', 'rework', 'ready-for-signoff', '2025-03-10T10:00:00.000Z'),
+            moved('a', 'ready-for-signoff', 'done', '2025-03-10T12:00:00.000Z'),
+        ], NOW);
+
+        expect(flow.lead_time).toBe(12 * HOUR);
+        expect(flow.cycle_time).toBe(10 * HOUR);
+        expect(flow.review_wait).toBe(6 * HOUR);
+        expect(flow.time_in_status).toMatchObject({ 'todo': 2 * HOUR, 'in-progress': 3 * HOUR, 'rework': HOUR });
+        expect(flow.status_since).toBe('2025-03-10T12:00:00.000Z');
+        expect(flow.stale).toBe(false);
+    });
+
+    it('flags tasks waiting longer than the threshold and keeps counting the current status', () => {
+        const events = [created('b', '2025-03-09T12:00:00.000Z'), moved('b', 'todo', 'ready-for-signoff', '2025-03-10T12:00:00.000Z')];
+        const flow = computeTaskFlow(task('b', { status: 'ready-for-signoff', created_at: '2025-03-09T12:00:00.000Z' }), events, NOW, 24);
+
+        expect(flow.review_wait).toBe(48 * HOUR);
+        expect(flow.lead_time).toBeNull();
+        expect(flow.stale).toBe(true);
+        expect(computeTaskFlow(task('b', { status: 'ready-for-signoff', created_at: '2025-03-09T12:00:00.000Z' }), events, NOW, 0).stale).toBe(false);
+    });
+
+    it('does not restart the clock when a deleted task is restored', () => {
+        const flow = computeTaskFlow(task('c', { status: 'in-progress', created_at: '2025-03-11T00:00:00.000Z' }), [
+            created('c', '2025-03-11T00:00:00.000Z', 'in-progress'),
+            created('c', '2025-03-12T06:00:00.000Z', 'in-progress'),
+        ], NOW);
+
+        expect(flow.status_since).toBe('2025-03-11T00:00:00.000Z');
+        expect(flow.time_in_status['in-progress']).toBe(36 * HOUR);
+    });
+
+    it('treats tasks without history as in their status since creation', () => {
+        const flow = computeTaskFlow(task('d', { status: 'done', created_at: '2025-03-01T00:00:00.000Z' }), [], NOW);
+        expect(flow.status_since).toBe('2025-03-01T00:00:00.000Z');
+        expect(flow.lead_time).toBeNull();
+    });
+});
+
+describe('computeFlowMetrics', () => {
+    it('averages per feature and overall', () => {
+        const tasks = [
+            task('a', { status: 'done', created_at: '2025-03-10T00:00:00.000Z', feature_id: 'f1' }),
+            task('b', { status: 'done', created_at: '2025-03-10T00:00:00.000Z', feature_id: 'f1' }),
+            task('c', { status: 'todo', created_at: '2025-03-10T00:00:00.000Z' }),
+        ];
+        const events = [
+            moved('a', 'todo', 'done', '2025-03-10T02:00:00.000Z'),
+            moved('b', 'todo', 'in-progress', '2025-03-10T01:00:00.000Z'),
+            moved('b', 'in-progress', 'done', '2025-03-10T04:00:00.000Z'),
+        ];
+
+        const metrics = computeFlowMetrics(tasks, events, NOW);
+
+        expect(metrics.features).toEqual([
+            { feature_id: 'f1', tasks: 2, done: 2, avg_lead_time: 3 * HOUR, avg_cycle_time: 3 * HOUR, avg_review_wait: null, stale: 0 },
+            { feature_id: null, tasks: 1, done: 0, avg_lead_time: null, avg_cycle_time: null, avg_review_wait: null, stale: 0 },
+        ]);
+        expect(metrics.overall).toMatchObject({ tasks: 3, done: 2 });
+    });
+});
@@ -0,0 +1,140 @@
+import type { Task, TaskEvent, TaskStatus } from '../db/types';
+
+/**
+ * Statuses where a task waits on someone: the agent while in progress, the PM while ready for signoff.
+ * Tasks that sit in one of them longer than the stale threshold get flagged.
+ */
+export const STALE_STATUSES: TaskStatus[] = ['in-progress', 'ready-for-signoff'];
+
+export const DEFAULT_STALE_HOURS = 48;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface TaskFlowMetrics {
+    task_id: string;
+    feature_id: string | null;
+    status_since: string;                                   // When the task entered its current status
+    time_in_status: Partial<Record<TaskStatus, number>>;    // Milliseconds per status, all visits, up to now
+    lead_time: number | null;                               // Created to done; null until done
+    cycle_time: number | null;                              // First in-progress to done; null until done or if never started
+    review_wait: number;                                    // Time spent in ready-for-signoff, all visits
+    stale: boolean;
+}
+
+export interface FlowSummary {
+    tasks: number;
+    done: number;
+    avg_lead_time: number | null;       // Over done tasks
+    avg_cycle_time: number | null;      // Over done tasks that were started
+    avg_review_wait: number | null;     // Over tasks that have been ready for signoff
+    stale: number;
+}
+
+export interface FlowMetrics {
+    tasks: TaskFlowMetrics[];
+    features: (FlowSummary & { feature_id: string | null })[];     // Ungrouped tasks under null
+    overall: FlowSummary;
+    stale_after_hours: number;
+}
+
+type StatusEvent = Pick<TaskEvent, 'task_id' | 'event' | 'from_value' | 'to_value' | 'created_at'>;
+
+/**
+ * Lead time, cycle time, review wait and time per status of one task, from its `created` and
+ * `status_changed` events (oldest first). Tasks from before the history was kept have no events
+ * and count as having been in their current status since they were created.
+ */
+export function computeTaskFlow(task: Task, events: StatusEvent[], now: Date, staleAfterHours: number = DEFAULT_STALE_HOURS): TaskFlowMetrics {
+    const transitions = events.filter(e => e.to_value && (e.event === 'created' || e.event === 'status_changed'));
+    const first = transitions[0];
+    const initial = first?.event === 'status_changed' ? first.from_value : first?.to_value;
+    let status = (initial ?? task.status) as TaskStatus;
+    let since = Date.parse(task.created_at);     // Entered the current status
+    let counted = since;                         // Time in status is added up to here
+
+    const timeInStatus: Partial<Record<TaskStatus, number>> = {};
+    let startedAt: number | null = first && status === 'in-progress' ? since : null;
+    let doneAt: number | null = first && status === 'done' ? since : null;
+    const advance = (at: number) => {
+        if (!Number.isNaN(at) && !Number.isNaN(counted)) {
+            timeInStatus[status] = (timeInStatus[status] ?? 0) + Math.max(0, at - counted);
+        }
+        counted = at;
+    };
+
+    for (const e of transitions) {
+        const at = Date.parse(e.created_at);
+        const next = e.to_value as TaskStatus;
+        advance(at);
+        // A re-created task (undo of a delete) keeps its status, so only changes move the clock
+        if (next === status) continue;
+        status = next;
+        since = at;
+        if (next === 'in-progress' && startedAt === null) startedAt = at;
+        if (next === 'done') doneAt = at;
+    }
+    advance(now.getTime());
+
+    const created = Date.parse(task.created_at);
+    const done = task.status === 'done' && doneAt !== null;
+    return {
+        task_id: task.id,
+        feature_id: task.feature_id,
+        status_since: Number.isNaN(since) ? task.created_at : new Date(since).toISOString(),
+        time_in_status: timeInStatus,
+        lead_time: done && !Number.isNaN(created) ? Math.max(0, doneAt! - created) : null,
+        cycle_time: done && startedAt !== null ? Math.max(0, doneAt! - startedAt) : null,
+        review_wait: timeInStatus['ready-for-signoff'] ?? 0,
+        stale: staleAfterHours > 0
+            && STALE_STATUSES.includes(task.status)
+            && now.getTime() - since > staleAfterHours * HOUR_MS
+    };
+}
+
+function average(values: number[]): number | null {
+    return values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+}
+
+/**
+ * Averages over a group of tasks' metrics
+ */
+export function summarizeFlow(metrics: TaskFlowMetrics[], tasks: Map<string, Task>): FlowSummary {
+    return {
+        tasks: metrics.length,
+        done: metrics.filter(m => tasks.get(m.task_id)?.status === 'done').length,
+        avg_lead_time: average(metrics.flatMap(m => m.lead_time === null ? [] : [m.lead_time])),
+        avg_cycle_time: average(metrics.flatMap(m => m.cycle_time === null ? [] : [m.cycle_time])),
+        avg_review_wait: average(metrics.filter(m => m.time_in_status['ready-for-signoff'] !== undefined).map(m => m.review_wait)),
+        stale: metrics.filter(m => m.stale).length
+    };
+}
+
+/**
+ * Flow metrics for every task, per feature and for the whole backlog
+ */
+export function computeFlowMetrics(tasks: Task[], events: StatusEvent[], now: Date, staleAfterHours: number = DEFAULT_STALE_HOURS): FlowMetrics {
+    const byTask = new Map<string, StatusEvent[]>();
+    events.forEach(e => {
+        if (!byTask.has(e.task_id)) byTask.set(e.task_id, []);
+        byTask.get(e.task_id)!.push(e);
+    });
+
+    const taskMetrics = tasks.map(t => computeTaskFlow(t, byTask.get(t.id) ?? [], now, staleAfterHours));
+    const taskById = new Map(tasks.map(t => [t.id, t]));
+
+    const byFeature = new Map<string | null, TaskFlowMetrics[]>();
+    taskMetrics.forEach(m => {
+        if (!byFeature.has(m.feature_id)) byFeature.set(m.feature_id, []);
+        byFeature.get(m.feature_id)!.push(m);
+    });
+
+    return {
+        tasks: taskMetrics,
+        features: Array.from(byFeature.entries()).map(([featureId, metrics]) => ({
+            feature_id: featureId,
+            ...summarizeFlow(metrics, taskById)
+        })),
+        overall: summarizeFlow(taskMetrics, taskById),
+        stale_after_hours: staleAfterHours
+    };
+}
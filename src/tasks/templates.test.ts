@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseTemplate, fillTemplate } from './templates';
+
+const API_ENDPOINT = `---
+name: New API endpoint
+description: Route, validation and tests
+---
+# {{resource}} API
+
+Everything for the {{resource}} endpoint.
+
+## Add {{method}} /{{resource}}
+Wire the route to a handler.
+- [ ] Returns 400 on invalid input
+- [ ] Documented in the API reference
+
+## Test {{method}} /{{resource}}
+`;
+
+describe('parseTemplate', () => {
+    it('reads a feature with tasks, criteria and placeholders', () => {
+        const template = parseTemplate('api-endpoint', API_ENDPOINT);
+        expect(template.name).toBe('New API endpoint');
+        expect(template.description).toBe('Route, validation and tests');
+        expect(template.placeholders).toEqual(['resource', 'method']);
+        expect(template.feature).toEqual({ title: '{{resource}} API', description: 'Everything for the {{resource}} endpoint.' });
+        expect(template.tasks).toEqual([
+            {
+                title: 'Add {{method}} /{{resource}}',
+                description: 'Wire the route to a handler.',
+                type: 'task',
+                acceptance_criteria: ['Returns 400 on invalid input', 'Documented in the API reference']
+            },
+            { title: 'Test {{method}} /{{resource}}', description: '', type: 'task', acceptance_criteria: [] }
+        ]);
+    });
+
+    it('treats a template without task headings as a single task', () => {
+        const template = parseTemplate('regression-bug', '---\ntype: bug\n---\n# Regression: {{area}}\nWorked in {{version}}.\n');
+        expect(template.name).toBe('Regression: {{area}}');
+        expect(template.feature).toBeNull();
+        expect(template.tasks).toEqual([
+            { title: 'Regression: {{area}}', description: 'Worked in {{version}}.', type: 'bug', acceptance_criteria: [] }
+        ]);
+    });
+
+    it('falls back to the file name without frontmatter or headings', () => {
+        const template = parseTemplate('settings-page', 'Add the page to the settings menu.');
+        expect(template.name).toBe('Settings page');
+        expect(template.tasks[0].title).toBe('Settings page');
+    });
+});
+
+describe('fillTemplate', () => {
+    it('fills placeholders everywhere and leaves missing ones empty', () => {
+        const filled = fillTemplate(parseTemplate('api-endpoint', API_ENDPOINT), { resource: 'invoices', method: ' POST ' });
+        expect(filled.feature).toEqual({ title: 'invoices API', description: 'Everything for the invoices endpoint.' });
+        expect(filled.tasks.map(t => t.title)).toEqual(['Add POST /invoices', 'Test POST /invoices']);
+
+        const partial = fillTemplate(parseTemplate('api-endpoint', API_ENDPOINT), { method: 'GET' });
+        expect(partial.tasks[0].title).toBe('Add GET /');
+    });
+});
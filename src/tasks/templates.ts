@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NewFeature, NewTask, TaskType } from '../db/types';
+
+/**
+ * A reusable shape of work, read from `.shepherd/templates/<id>.md`:
+ *
+ *     ---
+ *     name: New API endpoint
+ *     description: Route, validation and tests
+ *     type: task
+ *     ---
+ *     # {{Resource}} API
+ *     Feature description
+ *
+ *     ## Add {{method}} /{{path}}
+ *     Task description
+ *     - [ ] Acceptance criterion
+ *
+ * A `#` heading creates a feature holding the tasks. Each `##` heading is a task; without any,
+ * the whole template is one task titled by its `#` heading. `- [ ]` lines in a task become its
+ * acceptance criteria. `{{placeholders}}` are asked for when the template is used.
+ */
+export interface TaskTemplate {
+    id: string;                 // File name without .md
+    name: string;
+    description: string;
+    placeholders: string[];     // In order of first use
+    feature: { title: string; description: string } | null;
+    tasks: TemplateTask[];
+}
+
+export interface TemplateTask {
+    title: string;
+    description: string;
+    type: TaskType;
+    acceptance_criteria: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const CRITERION = /^\s*[-*]\s+\[[ xX]?\]\s+(.+)$/;
+
+export function templatesDir(workspaceRoot: string): string {
+    return path.join(workspaceRoot, '.shepherd', 'templates');
+}
+
+function parseFrontmatter(content: string): { fields: Record<string, string>; body: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) return { fields: {}, body: content };
+
+    const fields: Record<string, string> = {};
+    for (const line of match[1].split(/\r?\n/)) {
+        const field = line.match(/^(\w+):\s*(.*)$/);
+        if (field) {
+            fields[field[1].toLowerCase()] = field[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+        }
+    }
+    return { fields, body: content.slice(match[0].length) };
+}
+
+/**
+ * Split a task body into its description and its `- [ ]` criteria
+ */
+function parseTaskBody(lines: string[], title: string, type: TaskType): TemplateTask {
+    const criteria: string[] = [];
+    const description: string[] = [];
+    for (const line of lines) {
+        const criterion = line.match(CRITERION);
+        if (criterion) {
+            criteria.push(criterion[1].trim());
+        } else {
+            description.push(line);
+        }
+    }
+    return { title, description: description.join('\n').trim(), type, acceptance_criteria: criteria };
+}
+
+function humanize(id: string): string {
+    const words = id.replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function parseTemplate(id: string, content: string): TaskTemplate {
+    const { fields, body } = parseFrontmatter(content);
+    const type: TaskType = fields.type === 'bug' ? 'bug' : 'task';
+
+    let featureTitle: string | null = null;
+    const intro: string[] = [];
+    const sections: { title: string; lines: string[] }[] = [];
+    for (const line of body.split(/\r?\n/)) {
+        const heading = line.match(/^(#{1,2})\s+(.+?)\s*#*\s*$/);
+        if (heading?.[1] === '#' && featureTitle === null && sections.length === 0) {
+            featureTitle = heading[2];
+        } else if (heading?.[1] === '##') {
+            sections.push({ title: heading[2], lines: [] });
+        } else if (sections.length > 0) {
+            sections[sections.length - 1].lines.push(line);
+        } else {
+            intro.push(line);
+        }
+    }
+
+    const name = fields.name || featureTitle || humanize(id);
+    let feature: TaskTemplate['feature'] = null;
+    let tasks: TemplateTask[];
+    if (sections.length > 0) {
+        if (featureTitle !== null) {
+            feature = { title: featureTitle, description: intro.join('\n').trim() };
+        }
+        tasks = sections.map(section => parseTaskBody(section.lines, section.title, type));
+    } else {
+        tasks = [parseTaskBody(intro, featureTitle ?? name, type)];
+    }
+
+    const placeholders: string[] = [];
+    for (const match of body.matchAll(PLACEHOLDER)) {
+        if (!placeholders.includes(match[1])) {
+            placeholders.push(match[1]);
+        }
+    }
+
+    return { id, name, description: fields.description || '', placeholders, feature, tasks };
+}
+
+/**
+ * Templates in `.shepherd/templates/`, by name. Files that can't be read are skipped.
+ */
+export function loadTemplates(workspaceRoot: string): TaskTemplate[] {
+    const dir = templatesDir(workspaceRoot);
+    let files: string[];
+    try {
+        files = fs.readdirSync(dir).filter(f => f.endsWith('.md'));
+    } catch {
+        return [];
+    }
+    const templates: TaskTemplate[] = [];
+    for (const file of files) {
+        try {
+            templates.push(parseTemplate(path.basename(file, '.md'), fs.readFileSync(path.join(dir, file), 'utf-8')));
+        } catch (err) {
+            console.error(`[Shepherd] Failed to read template ${file}:`, err);
+        }
+    }
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The feature and tasks a template creates, with its placeholders filled in.
+ * Placeholders without a value are left empty.
+ */
+export function fillTemplate(template: TaskTemplate, values: Record<string, string>): { feature: NewFeature | null; tasks: NewTask[] } {
+    const fill = (text: string) => text.replace(PLACEHOLDER, (_, key: string) => values[key]?.trim() ?? '').trim();
+    return {
+        feature: template.feature && {
+            title: fill(template.feature.title) || template.name,
+            description: fill(template.feature.description) || undefined
+        },
+        tasks: template.tasks.map(task => ({
+            type: task.type,
+            title: fill(task.title) || 'Untitled task',
+            description: fill(task.description),
+            acceptance_criteria: task.acceptance_criteria.map(fill).filter(Boolean)
+        }))
+    };
+}
+
+/**
+ * Written to `.shepherd/templates/` the first time Shepherd starts in a folder, as examples to edit
+ */
+export const DEFAULT_TEMPLATES: Record<string, string> = {
+    'api-endpoint': `---
+name: New API endpoint
+description: Route, validation, tests and docs for one endpoint
+---
+# {{method}} {{path}}
+
+{{purpose}}
+
+## Add the {{method}} {{path}} route
+Add the route and its handler. Validate the request before doing any work.
+- [ ] Invalid input gets a 400 with a message saying what is wrong
+- [ ] Unauthenticated requests get a 401
+
+## Test {{method}} {{path}}
+Cover the happy path, validation errors and authorization.
+- [ ] Tests pass in CI
+
+## Document {{method}} {{path}}
+Add the endpoint, its parameters and an example response to the API reference.
+`,
+    'settings-page': `---
+name: New settings page
+description: A settings page with its form, persistence and navigation entry
+---
+# {{page}} settings
+
+Settings page for {{page}}.
+
+## Build the {{page}} settings form
+Lay out the form with the fields: {{fields}}.
+- [ ] Each field shows its current value
+- [ ] Validation errors appear next to the field
+
+## Save {{page}} settings
+Persist the form and load it back on the next visit.
+- [ ] Changes survive a reload
+
+## Link {{page}} settings from the settings menu
+`,
+    'regression-bug': `---
+name: Regression bug
+description: Something that used to work is broken
+type: bug
+---
+# Regression: {{what broke}}
+
+**Last worked in:** {{last good version}}
+
+**Steps to reproduce:**
+1.
+
+**Expected:**
+
+**Actual:**
+
+- [ ] The steps above work again
+- [ ] A test covers this case
+`,
+};
@@ -1,11 +1,27 @@
 // Re-export types from db module for backward compatibility
-export type { TaskStatus, TaskType, Task, TaskWithFeature, Feature, Project, NewTask, NewFeature } from '../db/types';
+export type { TaskStatus, TaskType, Task, TaskWithFeature, Feature, Project, NewTask, NewFeature, TaskEvent, ChangeOrigin, TaskDependency, AcceptanceCriterion, TaskComment } from '../db/types';
 
-import type { Task } from '../db/types';
+/**
+ * A task as stored in the legacy `.shepherd/tasks.json` (before the SQLite store).
+ * Early files used camelCase and had no title; later ones mirrored the db columns.
+ */
+export interface LegacyTask {
+    id?: string;
+    title?: string;
+    description?: string | null;
+    type?: string;
+    status?: string;
+    priority?: number;
+    requirementPath?: string;
+    createdAt?: string;
+    updatedAt?: string;
+    created_at?: string;
+    updated_at?: string;
+}
 
 export interface TasksFile {
     version: number;
-    tasks: Task[];
+    tasks: LegacyTask[];
 }
 
 // Legacy Task type alias for webview - maps db Task to webview format
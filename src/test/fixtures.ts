@@ -0,0 +1,26 @@
+import type { Task } from '../db/types';
+
+/**
+ * A todo task with every field filled in, for tests of code that works on whole tasks
+ */
+export function task(id: string, fields: Partial<Task> = {}): Task {
+    return {
+        id,
+        feature_id: null,
+        type: 'task',
+        title: id,
+        description: null,
+        status: 'todo',
+        rank: 'a0',
+        created_at: '',
+        updated_at: '',
+        archived_at: null,
+        estimate: null,
+        severity: null,
+        repro_steps: null,
+        expected_result: null,
+        actual_result: null,
+        environment: null,
+        ...fields,
+    };
+}
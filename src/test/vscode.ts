@@ -0,0 +1,20 @@
+/**
+ * The part of the vscode API that modules under test use at runtime, outside the editor:
+ * vi.mock('vscode', () => import('../test/vscode'))
+ */
+export class EventEmitter<T> {
+    private readonly listeners = new Set<(value: T) => void>();
+
+    readonly event = (listener: (value: T) => void) => {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    };
+
+    fire(value: T): void {
+        this.listeners.forEach(listener => listener(value));
+    }
+
+    dispose(): void {
+        this.listeners.clear();
+    }
+}
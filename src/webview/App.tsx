@@ -17,10 +17,12 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { vscode } from './lib/vscode';
+import { readAttachments } from './lib/attachments';
 import { TaskList } from './components/TaskList';
 import { FeatureSection } from './components/FeatureSection';
 import { TaskCard } from './components/TaskCard';
 import { AddTaskForm } from './components/AddTaskForm';
+import { BugForm } from './components/BugForm';
 import { RequirementsList } from './components/RequirementsList';
 import { RequirementsInterview } from './components/RequirementsInterview';
 import { AddMenu } from './components/AddMenu';
@@ -28,13 +30,19 @@ import { RecordButton } from './components/RecordButton';
 import { Toast, ToastType } from './components/Toast';
 import { VoiceSetupModal } from './components/VoiceSetupModal';
 import { ReworkFeedbackModal } from './components/ReworkFeedbackModal';
+import { ArchiveBrowser } from './components/ArchiveBrowser';
+import { InterviewHistory } from './components/InterviewHistory';
+import { MetricsPanel } from './components/MetricsPanel';
+import { SearchResults } from './components/SearchResults';
+import { MilestoneHeader } from './components/MilestoneHeader';
+import { TemplatePicker } from './components/TemplatePicker';
 import { Button, Tooltip } from './components/ui';
-import { Play, ChevronDown, ChevronRight, X, Settings, Info, RotateCcw } from 'lucide-react';
-import { formatReworkDescription } from './lib/formatReworkDescription';
+import { Play, ChevronDown, ChevronRight, X, Settings, Info, RotateCcw, Archive, Search, FolderOpen, Timer } from 'lucide-react';
 
 // Shepherd logo
 import shepherdLogo from './assets/logo.png';
-import type { Task, Feature, Requirement, Project, TaskStatus, FeatureStatus, ExtensionMessage, InterviewMessage, InterviewQuestion, InterviewProposal, ThoughtPartnerIntensity, ExtensionInfo } from './types';
+import { MAX_ATTACHMENT_BYTES } from './types';
+import type { Task, TaskDependency, AcceptanceCriterion, TaskComment, CommentKind, Feature, Requirement, Project, TaskStatus, FeatureStatus, ExtensionMessage, InterviewMessage, InterviewQuestion, InterviewProposal, ThoughtPartnerIntensity, ExtensionInfo, SearchResult, Velocity, FlowMetrics, Milestone, WorkspaceFolderInfo, TaskAttachment, TaskCommit, TaskLocation, AttachmentUpload, TaskTemplate, BugFields } from './types';
 
 const PARSER_MODELS = [
   { id: 'haiku', name: 'Haiku', description: 'Fast & cheap' },
@@ -53,33 +61,57 @@ const UNGROUPED_FEATURE: Feature = {
   title: 'Tasks',
   description: null,
   requirement_path: null,
-  priority: 999999,
+  rank: '~',  // After every real rank
   created_at: '',
   updated_at: '',
+  milestone_id: null,
 };
 
 export default function App() {
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [criteria, setCriteria] = useState<AcceptanceCriterion[]>([]);
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [commits, setCommits] = useState<TaskCommit[]>([]);
+  const [locations, setLocations] = useState<TaskLocation[]>([]);
   const [features, setFeatures] = useState<Feature[]>([]);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [velocity, setVelocity] = useState<Velocity | null>(null);
+  const [metrics, setMetrics] = useState<FlowMetrics | null>(null);
   const [requirements, setRequirements] = useState<Requirement[]>([]);
   const [project, setProject] = useState<Project | null>(null);
   const [extensionInfo, setExtensionInfo] = useState<ExtensionInfo | null>(null);
   const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
   const [buildInProgress, setBuildInProgress] = useState(false);
   const [archiveExpanded, setArchiveExpanded] = useState(false);
+  const [archiveBrowserOpen, setArchiveBrowserOpen] = useState(false);
+  const [interviewHistoryOpen, setInterviewHistoryOpen] = useState(false);
+  const [metricsPanelOpen, setMetricsPanelOpen] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  // Open with a template already chosen when coming from the add-task form
+  const [templatePicker, setTemplatePicker] = useState<{ templateId?: string; featureId: string | null } | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [aboutOpen, setAboutOpen] = useState(false);
   const [parserModel, setParserModel] = useState('haiku');
   const [taskDeliveryMode, setTaskDeliveryMode] = useState('new-terminal');
   const [showAddFeature, setShowAddFeature] = useState(false);
   const [newFeatureTitle, setNewFeatureTitle] = useState('');
+  const [showAddMilestone, setShowAddMilestone] = useState(false);
+  const [newMilestoneTitle, setNewMilestoneTitle] = useState('');
+  const [newMilestoneDate, setNewMilestoneDate] = useState('');
   const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
   const [showAddTask, setShowAddTask] = useState(false);
   const [addTaskType, setAddTaskType] = useState<'task' | 'bug'>('task');
   const [addTaskFeatureId, setAddTaskFeatureId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<{ query: string; results: SearchResult[] } | null>(null);
+  // Initialized workspace folders; the switcher only shows in multi-root workspaces
+  const [workspaceFolders, setWorkspaceFolders] = useState<WorkspaceFolderInfo[]>([]);
+  const [currentFolder, setCurrentFolder] = useState<string | null>(null);
 
   // Toast state
-  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: ToastType; action?: 'undo' | 'redo' } | null>(null);
 
   // Voice setup modal state
   const [voiceSetup, setVoiceSetup] = useState<{
@@ -111,6 +143,7 @@ export default function App() {
   // Refs to access current state in event handlers (avoid stale closures)
   const interviewScopeRef = useRef(interviewScope);
   const questionsReceivedRef = useRef(false);  // Track if any questions were asked
+  const currentFolderRef = useRef<string | null>(null);
   useEffect(() => { interviewScopeRef.current = interviewScope; }, [interviewScope]);
 
   // Current question is first in queue
@@ -144,19 +177,31 @@ export default function App() {
       grouped.set(featureId, existing);
     });
 
-    // Sort tasks within each feature by priority
+    // Sort tasks within each feature by rank (code unit order, like the database; not localeCompare)
     grouped.forEach((tasks, key) => {
-      grouped.set(key, tasks.sort((a, b) => a.priority - b.priority));
+      grouped.set(key, tasks.sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0)));
     });
 
     return grouped;
   }, [activeFeatures, activeTasks]);
 
-  // Feature IDs for top-level sorting (features only, not tasks)
+  // Active features under their milestone, in target-date order. Open milestones show
+  // even when empty so features can be assigned to them; released ones only while they
+  // still have active features. The last group holds features without a milestone.
+  const milestoneGroups = useMemo(() => {
+    const known = new Set(milestones.map(m => m.id));
+    const groups: { milestone: Milestone | null; features: Feature[] }[] = milestones
+      .map(milestone => ({ milestone, features: activeFeatures.filter(f => f.milestone_id === milestone.id) }))
+      .filter(group => group.milestone.status === 'open' || group.features.length > 0);
+    groups.push({ milestone: null, features: activeFeatures.filter(f => !f.milestone_id || !known.has(f.milestone_id)) });
+    return groups;
+  }, [milestones, activeFeatures]);
+
+  // Feature IDs for top-level sorting (features only, not tasks), in display order
   // Tasks are sorted within their own SortableContext inside FeatureSection
   const featureIds = useMemo(() => {
-    return activeFeatures.map(f => f.id);
-  }, [activeFeatures]);
+    return milestoneGroups.flatMap(group => group.features.map(f => f.id));
+  }, [milestoneGroups]);
 
   // Group done tasks by feature for archive section
   const doneTasksByFeature = useMemo(() => {
@@ -186,7 +231,14 @@ export default function App() {
         case 'initialized':
           console.log('[App] Initialized with', message.tasks?.length, 'tasks,', message.features?.length, 'features');
           setTasks(message.tasks);
+          setDependencies(message.dependencies);
+          setCriteria(message.criteria);
+          setComments(message.comments);
+          setAttachments(message.attachments);
+          setCommits(message.commits);
+          setLocations(message.locations);
           setFeatures(message.features);
+          setMilestones(message.milestones);
           setRequirements(message.requirements);
           setProject(message.project);
           setExtensionInfo(message.extensionInfo);
@@ -204,6 +256,27 @@ export default function App() {
             return newSelection;
           });
           break;
+        case 'dependenciesUpdated':
+          setDependencies(message.dependencies);
+          break;
+        case 'criteriaUpdated':
+          setCriteria(message.criteria);
+          break;
+        case 'commentsUpdated':
+          setComments(message.comments);
+          break;
+        case 'attachmentsUpdated':
+          setAttachments(message.attachments);
+          break;
+        case 'commitsUpdated':
+          setCommits(message.commits);
+          break;
+        case 'locationsUpdated':
+          setLocations(message.locations);
+          break;
+        case 'templatesUpdated':
+          setTemplates(message.templates);
+          break;
         case 'featuresUpdated':
           setFeatures(message.features);
           break;
@@ -217,6 +290,30 @@ export default function App() {
           setBuildInProgress(false);
           setSelectedTaskIds(new Set()); // Clear selection after build
           break;
+        case 'searchResults':
+          setSearchResults({ query: message.query, results: message.results });
+          break;
+        case 'milestonesUpdated':
+          setMilestones(message.milestones);
+          break;
+        case 'velocityUpdated':
+          setVelocity(message.velocity);
+          break;
+        case 'metricsUpdated':
+          setMetrics(message.metrics);
+          break;
+        case 'foldersUpdated':
+          if (currentFolderRef.current !== null && currentFolderRef.current !== message.current) {
+            // Selection, search and archive belong to the backlog of the previous folder
+            setSelectedTaskIds(new Set());
+            setSearchQuery('');
+            setSearchResults(null);
+            setArchiveBrowserOpen(false);
+          }
+          currentFolderRef.current = message.current;
+          setWorkspaceFolders(message.folders);
+          setCurrentFolder(message.current);
+          break;
         case 'settingsLoaded':
           setParserModel(message.parserModel);
           setTaskDeliveryMode(message.taskDeliveryMode);
@@ -229,7 +326,8 @@ export default function App() {
           setInterviewMessages([]);
           setQuestionQueue([]);
           setPendingAnswers(new Map());
-          questionsReceivedRef.current = false;  // Reset for new interview
+          // A reopened interview's proposal is always reviewed, never auto-approved
+          questionsReceivedRef.current = !!message.reopened;
           setCurrentProposal(null);
           setInterviewError(null);
           setInterviewThinking(true);
@@ -294,7 +392,7 @@ export default function App() {
           setInterviewThinking(false);
           break;
         case 'showToast':
-          setToast({ message: message.message, type: message.toastType || 'info' });
+          setToast({ message: message.message, type: message.toastType || 'info', action: message.action });
           break;
         case 'showSetup':
           setVoiceSetup({
@@ -321,6 +419,36 @@ export default function App() {
     };
   }, []);
 
+  // Search as the PM types; re-run when the board changes so results stay current
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    const timer = setTimeout(() => vscode.postMessage({ type: 'search', query: searchQuery }), 150);
+    return () => clearTimeout(timer);
+  }, [searchQuery, tasks, features]);
+
+  const handleSearchSelect = (result: SearchResult) => {
+    if (result.kind === 'requirement') {
+      vscode.postMessage({ type: 'openRequirement', path: result.id });
+      return;
+    }
+    setSearchQuery('');
+    if (result.archived) {
+      setArchiveBrowserOpen(true);
+      return;
+    }
+    if (result.status === 'done') {
+      setArchiveExpanded(true);
+    }
+    // Scroll once the board (and the done section) has rendered
+    setTimeout(() => {
+      document.querySelector(`[data-${result.kind}-id="${CSS.escape(result.id)}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 50);
+  };
+
   const handleAddTask = (title: string, description: string) => {
     vscode.postMessage({ type: 'addTask', title, description });
   };
@@ -354,16 +482,8 @@ export default function App() {
   const handleReworkSubmit = (feedback: string) => {
     if (!reworkModal) return;
 
-    const task = tasks.find(t => t.id === reworkModal.taskId);
-    if (task) {
-      const newDescription = formatReworkDescription(task.description, feedback);
-      // Update description first, then status
-      vscode.postMessage({
-        type: 'updateTask',
-        id: reworkModal.taskId,
-        updates: { description: newDescription, status: 'rework' as TaskStatus },
-      });
-    }
+    // Feedback goes into the task's comment thread, not its description
+    vscode.postMessage({ type: 'requestRework', taskId: reworkModal.taskId, feedback });
     setReworkModal(null);
   };
 
@@ -379,14 +499,89 @@ export default function App() {
     vscode.postMessage({ type: 'updateTask', id, updates: { description } });
   };
 
+  const handleEstimateChange = (id: string, estimate: number | null) => {
+    vscode.postMessage({ type: 'updateTask', id, updates: { estimate } });
+  };
+
+  const handleBugFieldsChange = (id: string, fields: Partial<BugFields>) => {
+    vscode.postMessage({ type: 'updateTask', id, updates: fields });
+  };
+
   const handleDelete = (id: string) => {
     vscode.postMessage({ type: 'deleteTask', id });
   };
 
+  const handleAddDependency = (taskId: string, blockedById: string) => {
+    vscode.postMessage({ type: 'addDependency', taskId, blockedById });
+  };
+
+  const handleRemoveDependency = (taskId: string, blockedById: string) => {
+    vscode.postMessage({ type: 'removeDependency', taskId, blockedById });
+  };
+
+  const handleAddCriterion = (taskId: string, text: string) => {
+    vscode.postMessage({ type: 'addCriterion', taskId, text });
+  };
+
+  const handleToggleCriterion = (id: string, checked: boolean) => {
+    vscode.postMessage({ type: 'updateCriterion', id, updates: { checked } });
+  };
+
+  const handleDeleteCriterion = (id: string) => {
+    vscode.postMessage({ type: 'deleteCriterion', id });
+  };
+
+  const handleAddComment = (taskId: string, body: string, kind: CommentKind) => {
+    vscode.postMessage({ type: 'addComment', taskId, body, kind });
+  };
+
+  // Reads the files here; the extension writes them to .shepherd/attachments/<taskId>/
+  const readUploads = async (files: File[]): Promise<AttachmentUpload[]> => {
+    const { uploads, tooLarge } = await readAttachments(files);
+    if (tooLarge.length > 0) {
+      setToast({ message: `Not attached, over ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB: ${tooLarge.join(', ')}`, type: 'error' });
+    }
+    return uploads;
+  };
+
+  const handleAddAttachments = async (taskId: string, files: File[]) => {
+    const uploads = await readUploads(files);
+    if (uploads.length > 0) {
+      vscode.postMessage({ type: 'addAttachments', taskId, files: uploads });
+    }
+  };
+
+  const handleRemoveAttachment = (taskId: string, name: string) => {
+    vscode.postMessage({ type: 'removeAttachment', taskId, name });
+  };
+
+  const handleOpenAttachment = (taskId: string, name: string) => {
+    vscode.postMessage({ type: 'openAttachment', taskId, name });
+  };
+
+  const handleOpenCommit = (sha: string) => {
+    vscode.postMessage({ type: 'openCommit', sha });
+  };
+
+  const handleOpenLocation = (id: string) => {
+    vscode.postMessage({ type: 'openLocation', id });
+  };
+
+  const handleRemoveLocation = (id: string) => {
+    vscode.postMessage({ type: 'removeLocation', id });
+  };
+
   const handleArchiveDone = () => {
     vscode.postMessage({ type: 'archiveDone' });
   };
 
+  // Undo/redo offered on the toast; the extension replies with a new toast
+  const handleToastAction = () => {
+    if (toast?.action) {
+      vscode.postMessage({ type: toast.action });
+    }
+  };
+
   const handleShowInterviewModal = (scope: 'project' | 'new-feature' | 'task') => {
     setInterviewScope(scope);
     setInterviewActive(true);
@@ -490,7 +685,7 @@ export default function App() {
 
   const handleBuildSelected = () => {
     if (buildInProgress || selectedTaskIds.size === 0) return;
-    // Build in priority order (as displayed)
+    // Build in queue order
     const orderedIds = tasks
       .filter(t => selectedTaskIds.has(t.id))
       .map(t => t.id);
@@ -532,6 +727,26 @@ export default function App() {
     setShowAddFeature(false);
   };
 
+  const handleAddMilestone = () => {
+    if (!newMilestoneTitle.trim()) return;
+    vscode.postMessage({ type: 'addMilestone', title: newMilestoneTitle.trim(), targetDate: newMilestoneDate || undefined });
+    setNewMilestoneTitle('');
+    setNewMilestoneDate('');
+    setShowAddMilestone(false);
+  };
+
+  const handleMilestoneUpdate = (id: string, updates: Partial<Milestone>) => {
+    vscode.postMessage({ type: 'updateMilestone', id, updates });
+  };
+
+  const handleMilestoneDelete = (id: string) => {
+    vscode.postMessage({ type: 'deleteMilestone', id });
+  };
+
+  const handleFeatureMilestoneChange = (id: string, milestoneId: string | null) => {
+    vscode.postMessage({ type: 'updateFeature', id, updates: { milestone_id: milestoneId } });
+  };
+
   const handleFeatureEdit = (id: string, title: string, description: string) => {
     vscode.postMessage({ type: 'updateFeature', id, updates: { title, description: description || null } });
   };
@@ -632,6 +847,59 @@ export default function App() {
     }
   };
 
+  // Task progress over every feature in a milestone, done features included
+  const milestoneProgress = (milestoneId: string) => {
+    const featureIdsInMilestone = new Set(features.filter(f => f.milestone_id === milestoneId).map(f => f.id));
+    const milestoneTasks = tasks.filter(t => t.feature_id && featureIdsInMilestone.has(t.feature_id));
+    return { done: milestoneTasks.filter(t => t.status === 'done').length, total: milestoneTasks.length };
+  };
+
+  const renderFeatureSection = (feature: Feature) => (
+    <FeatureSection
+      key={feature.id}
+      feature={feature}
+      tasks={tasksByFeature.get(feature.id) || []}
+      selectedIds={selectedTaskIds}
+      buildDisabled={buildInProgress}
+      onSelectTask={handleSelectTask}
+      onBuildTask={handleBuildTask}
+      onBuildFeature={handleBuildFeature}
+      onTaskStatusChange={handleStatusChange}
+      onTaskTitleChange={handleTitleChange}
+      onTaskDescriptionChange={handleDescriptionChange}
+      onTaskDelete={handleDelete}
+      onTaskEstimateChange={handleEstimateChange}
+      onTaskBugFieldsChange={handleBugFieldsChange}
+      allTasks={tasks}
+      dependencies={dependencies}
+      onAddDependency={handleAddDependency}
+      onRemoveDependency={handleRemoveDependency}
+      criteria={criteria}
+      onAddCriterion={handleAddCriterion}
+      onToggleCriterion={handleToggleCriterion}
+      onDeleteCriterion={handleDeleteCriterion}
+      comments={comments}
+      onAddComment={handleAddComment}
+      attachments={attachments}
+      onAddAttachments={handleAddAttachments}
+      onRemoveAttachment={handleRemoveAttachment}
+      onOpenAttachment={handleOpenAttachment}
+      commits={commits}
+      onOpenCommit={handleOpenCommit}
+      locations={locations}
+      onOpenLocation={handleOpenLocation}
+      onRemoveLocation={handleRemoveLocation}
+      flowMetrics={metrics?.tasks}
+      onFeatureEdit={handleFeatureEdit}
+      onFeatureDelete={handleFeatureDelete}
+      onFeatureStatusChange={handleFeatureStatusChange}
+      milestones={milestones}
+      onFeatureMilestoneChange={handleFeatureMilestoneChange}
+      onOpenRequirement={handleOpenRequirement}
+      onAddTask={handleAddTaskToFeature}
+    />
+  );
+
   return (
     // Shepherd: Section padding p-6, backgrounds neutral-0/50/100
     <div className="p-4 min-h-screen bg-neutral-50">
@@ -661,11 +929,75 @@ export default function App() {
             </Tooltip>
           </div>
         </div>
+        {workspaceFolders.length > 1 && (
+          <div className="flex items-center gap-1.5 mt-2">
+            <FolderOpen size={14} className="text-neutral-400 shrink-0" />
+            <select
+              value={currentFolder ?? ''}
+              onChange={(e) => vscode.postMessage({ type: 'switchFolder', root: e.target.value })}
+              className="flex-1 min-w-0 text-sm text-neutral-800 bg-neutral-0 border border-neutral-200 rounded-md px-2 py-1 cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
+              aria-label="Workspace folder"
+            >
+              {workspaceFolders.map(folder => (
+                <option key={folder.root} value={folder.root}>{folder.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
         <p className="text-xs text-neutral-500 mt-1">
           {activeTasks.length} {activeTasks.length === 1 ? 'task' : 'tasks'} • Drag to prioritize
+          {velocity && velocity.weeks.some(w => w.points > 0) && (
+            <>
+              {' • '}
+              <Tooltip
+                content={
+                  <div className="space-y-0.5">
+                    {velocity.weeks.map(week => (
+                      <div key={week.week_start}>
+                        Week of {week.week_start}: {week.points} pts ({week.tasks} {week.tasks === 1 ? 'task' : 'tasks'})
+                      </div>
+                    ))}
+                  </div>
+                }
+              >
+                <span className="cursor-default">{velocity.average} pts/week</span>
+              </Tooltip>
+            </>
+          )}
         </p>
       </header>
 
+      {/* Full-text search across tasks, features and requirement docs */}
+      <div className="relative mb-4">
+        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-neutral-400" />
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setSearchQuery('');
+          }}
+          placeholder="Search tasks, features and docs..."
+          className="w-full pl-8 pr-8 py-1.5 text-sm border border-neutral-200 rounded-md bg-neutral-0 text-neutral-800 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+        />
+        {searchQuery && (
+          <button
+            onClick={() => setSearchQuery('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-neutral-400 hover:text-neutral-600"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      {searchQuery.trim() && (
+        <SearchResults
+          query={searchQuery}
+          results={searchResults?.results ?? null}
+          tasks={tasks}
+          onSelect={handleSearchSelect}
+        />
+      )}
+
       {/* Settings modal */}
       {settingsOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -843,18 +1175,27 @@ export default function App() {
         <AddMenu
           onAddTask={() => {
             setShowAddFeature(false);
+            setShowAddMilestone(false);
             setAddTaskType('task');
             setShowAddTask(true);
           }}
           onAddBug={() => {
             setShowAddFeature(false);
+            setShowAddMilestone(false);
             setAddTaskType('bug');
             setShowAddTask(true);
           }}
           onAddFeature={() => {
             setShowAddTask(false);
+            setShowAddMilestone(false);
             setShowAddFeature(true);
           }}
+          onAddMilestone={() => {
+            setShowAddTask(false);
+            setShowAddFeature(false);
+            setShowAddMilestone(true);
+          }}
+          onAddFromTemplate={() => setTemplatePicker({ featureId: null })}
           onInterviewTask={() => handleShowInterviewModal('task')}
           onInterviewFeature={() => handleShowInterviewModal('new-feature')}
           onInterviewProject={() => handleShowInterviewModal('project')}
@@ -873,19 +1214,43 @@ export default function App() {
               })()}
             </span>
           </div>
-          <AddTaskForm
-            onAdd={(title, description) => {
-              vscode.postMessage({ type: 'addTask', title, description, taskType: addTaskType, featureId: addTaskFeatureId });
-              setShowAddTask(false);
-              setAddTaskFeatureId(null);
-            }}
-            onCancel={() => {
-              setShowAddTask(false);
-              setAddTaskFeatureId(null);
-            }}
-            placeholder={addTaskType === 'bug' ? 'Describe the bug...' : 'Describe the task...'}
-            showRecord
-          />
+          {addTaskType === 'bug' ? (
+            <BugForm
+              onAdd={async (title, description, bug, files) => {
+                const featureId = addTaskFeatureId;
+                setShowAddTask(false);
+                setAddTaskFeatureId(null);
+                const uploads = await readUploads(files);
+                vscode.postMessage({ type: 'addTask', title, description, taskType: 'bug', bug, featureId: featureId ?? undefined, attachments: uploads });
+              }}
+              onCancel={() => {
+                setShowAddTask(false);
+                setAddTaskFeatureId(null);
+              }}
+            />
+          ) : (
+            <AddTaskForm
+              onAdd={async (title, description, files) => {
+                const featureId = addTaskFeatureId;
+                setShowAddTask(false);
+                setAddTaskFeatureId(null);
+                const uploads = await readUploads(files);
+                vscode.postMessage({ type: 'addTask', title, description, taskType: 'task', featureId: featureId ?? undefined, attachments: uploads });
+              }}
+              onCancel={() => {
+                setShowAddTask(false);
+                setAddTaskFeatureId(null);
+              }}
+              placeholder="Describe the task..."
+              showRecord
+              templates={templates}
+              onUseTemplate={(templateId) => {
+                setTemplatePicker({ templateId, featureId: addTaskFeatureId });
+                setShowAddTask(false);
+                setAddTaskFeatureId(null);
+              }}
+            />
+          )}
         </div>
       )}
 
@@ -926,6 +1291,44 @@ export default function App() {
         </div>
       )}
 
+      {/* Add Milestone form */}
+      {showAddMilestone && (
+        <div className="mb-4 p-3 bg-neutral-0 border border-neutral-200 rounded-lg">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-xs font-medium text-neutral-600">New Milestone</span>
+          </div>
+          <div className="flex gap-1.5">
+            <input
+              type="text"
+              value={newMilestoneTitle}
+              onChange={(e) => setNewMilestoneTitle(e.target.value)}
+              placeholder="Release name, e.g. v1.2..."
+              className="flex-1 min-w-0 text-sm text-neutral-800 bg-neutral-0 border border-neutral-300 rounded px-2 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddMilestone();
+                if (e.key === 'Escape') setShowAddMilestone(false);
+              }}
+            />
+            <input
+              type="date"
+              value={newMilestoneDate}
+              onChange={(e) => setNewMilestoneDate(e.target.value)}
+              className="text-sm text-neutral-700 bg-neutral-0 border border-neutral-300 rounded px-2 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+              aria-label="Target date"
+            />
+          </div>
+          <div className="flex gap-1.5 mt-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={() => setShowAddMilestone(false)} className="h-8 px-2 text-xs">
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAddMilestone} disabled={!newMilestoneTitle.trim()} className="h-8 px-3 text-xs">
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Selection actions bar */}
       {activeTasks.length > 0 && (
         <div className="flex items-center justify-between mb-3">
@@ -982,27 +1385,35 @@ export default function App() {
       >
         <SortableContext items={featureIds} strategy={verticalListSortingStrategy}>
           <div className="space-y-4">
-            {activeFeatures.map((feature) => (
-              <FeatureSection
-                key={feature.id}
-                feature={feature}
-                tasks={tasksByFeature.get(feature.id) || []}
-                selectedIds={selectedTaskIds}
-                buildDisabled={buildInProgress}
-                onSelectTask={handleSelectTask}
-                onBuildTask={handleBuildTask}
-                onBuildFeature={handleBuildFeature}
-                onTaskStatusChange={handleStatusChange}
-                onTaskTitleChange={handleTitleChange}
-                onTaskDescriptionChange={handleDescriptionChange}
-                onTaskDelete={handleDelete}
-                onFeatureEdit={handleFeatureEdit}
-                onFeatureDelete={handleFeatureDelete}
-                onFeatureStatusChange={handleFeatureStatusChange}
-                onOpenRequirement={handleOpenRequirement}
-                onAddTask={handleAddTaskToFeature}
-              />
-            ))}
+            {milestones.length === 0
+              ? activeFeatures.map(renderFeatureSection)
+              : milestoneGroups.map(group => {
+                  if (!group.milestone) {
+                    return group.features.length > 0 && (
+                      <div key="__no_milestone__" className="space-y-2">
+                        <p className="text-xs font-medium text-neutral-400 px-1">No milestone</p>
+                        {group.features.map(renderFeatureSection)}
+                      </div>
+                    );
+                  }
+                  const progress = milestoneProgress(group.milestone.id);
+                  return (
+                    <div key={group.milestone.id} className="space-y-2">
+                      <MilestoneHeader
+                        milestone={group.milestone}
+                        doneTasks={progress.done}
+                        totalTasks={progress.total}
+                        onUpdate={handleMilestoneUpdate}
+                        onDelete={handleMilestoneDelete}
+                      />
+                      {group.features.length === 0 ? (
+                        <p className="text-xs text-neutral-400 px-1">No features yet. Pick this milestone on a feature to add it.</p>
+                      ) : (
+                        group.features.map(renderFeatureSection)
+                      )}
+                    </div>
+                  );
+                })}
 
             {/* Ungrouped tasks */}
             {(tasksByFeature.get(UNGROUPED_FEATURE.id)?.length ?? 0) > 0 && (
@@ -1018,6 +1429,28 @@ export default function App() {
                 onTaskTitleChange={handleTitleChange}
                 onTaskDescriptionChange={handleDescriptionChange}
                 onTaskDelete={handleDelete}
+                onTaskEstimateChange={handleEstimateChange}
+                onTaskBugFieldsChange={handleBugFieldsChange}
+                allTasks={tasks}
+                dependencies={dependencies}
+                onAddDependency={handleAddDependency}
+                onRemoveDependency={handleRemoveDependency}
+                criteria={criteria}
+                onAddCriterion={handleAddCriterion}
+                onToggleCriterion={handleToggleCriterion}
+                onDeleteCriterion={handleDeleteCriterion}
+                comments={comments}
+                onAddComment={handleAddComment}
+                attachments={attachments}
+                onAddAttachments={handleAddAttachments}
+                onRemoveAttachment={handleRemoveAttachment}
+                onOpenAttachment={handleOpenAttachment}
+                commits={commits}
+                onOpenCommit={handleOpenCommit}
+                locations={locations}
+                onOpenLocation={handleOpenLocation}
+                onRemoveLocation={handleRemoveLocation}
+                flowMetrics={metrics?.tasks}
               />
             )}
 
@@ -1069,19 +1502,19 @@ export default function App() {
           {archiveExpanded && (
             <>
               <div className="flex justify-end mb-2">
-                <Tooltip content="Permanently delete all completed tasks">
+                <Tooltip content="Move all completed tasks to the archive">
                   <button
                     onClick={handleArchiveDone}
-                    className="text-xs text-neutral-500 hover:text-danger"
+                    className="text-xs text-neutral-500 hover:text-neutral-700"
                   >
-                    Delete all done
+                    Archive all done
                   </button>
                 </Tooltip>
               </div>
               <div className="opacity-60 space-y-3">
                 {/* Done features (without individual done tasks - they'll appear in task groupings below if any) */}
                 {doneFeatures.filter(f => !doneTasksByFeature.has(f.id)).map((feature) => (
-                  <div key={feature.id} className="border border-neutral-200 rounded-lg p-3 bg-neutral-50">
+                  <div key={feature.id} data-feature-id={feature.id} className="border border-neutral-200 rounded-lg p-3 bg-neutral-50">
                     <div className="flex items-center gap-2">
                       <span className="text-sm font-medium text-neutral-600 line-through">{feature.title}</span>
                       <span className="text-xs text-neutral-400">Feature complete</span>
@@ -1141,10 +1574,30 @@ export default function App() {
         </div>
       )}
 
+      <div className="mt-4 flex justify-end gap-3">
+        {metrics && (
+          <button
+            onClick={() => setMetricsPanelOpen(true)}
+            className={`flex items-center gap-1 text-xs hover:text-neutral-600 ${metrics.overall.stale > 0 ? 'text-warning' : 'text-neutral-400'}`}
+          >
+            <Timer size={12} />
+            <span>Flow metrics{metrics.overall.stale > 0 && ` (${metrics.overall.stale} stale)`}</span>
+          </button>
+        )}
+        <button
+          onClick={() => setArchiveBrowserOpen(true)}
+          className="flex items-center gap-1 text-xs text-neutral-400 hover:text-neutral-600"
+        >
+          <Archive size={12} />
+          <span>Browse archive</span>
+        </button>
+      </div>
+
       <RequirementsList
         requirements={requirements}
         onOpenRequirement={handleOpenRequirement}
         onDeleteRequirement={handleDeleteRequirement}
+        onOpenInterviews={() => setInterviewHistoryOpen(true)}
       />
 
       {/* Requirements Interview Modal */}
@@ -1168,6 +1621,10 @@ export default function App() {
         <Toast
           message={toast.message}
           type={toast.type}
+          action={toast.action && {
+            label: toast.action === 'undo' ? 'Undo' : 'Redo',
+            onClick: handleToastAction
+          }}
           onClose={() => setToast(null)}
         />
       )}
@@ -1183,6 +1640,40 @@ export default function App() {
         />
       )}
 
+      {archiveBrowserOpen && (
+        <ArchiveBrowser
+          features={features}
+          refreshKey={tasks}
+          onClose={() => setArchiveBrowserOpen(false)}
+        />
+      )}
+
+      {templatePicker && (
+        <TemplatePicker
+          templates={templates}
+          features={features.filter(f => f.status !== 'done')}
+          initialTemplateId={templatePicker.templateId}
+          initialFeatureId={templatePicker.featureId}
+          onClose={() => setTemplatePicker(null)}
+        />
+      )}
+
+      {metricsPanelOpen && metrics && (
+        <MetricsPanel
+          metrics={metrics}
+          tasks={tasks}
+          features={features}
+          onClose={() => setMetricsPanelOpen(false)}
+        />
+      )}
+
+      {interviewHistoryOpen && (
+        <InterviewHistory
+          refreshKey={interviewActive}
+          onClose={() => setInterviewHistoryOpen(false)}
+        />
+      )}
+
       {reworkModal && (
         <ReworkFeedbackModal
           taskTitle={reworkModal.taskTitle}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as vscode from 'vscode';
+import { getHead, listCommits, type GitCommit } from '../tasks/commits';
+import type { TaskStore } from '../tasks/TaskStore';
+import type { TaskCommit } from '../db/types';
+import { TaskWebviewProvider } from './WebviewProvider';
+
+// Just enough of the editor for the provider to start and send a build prompt
+vi.mock('vscode', () => {
+    const disposable = { dispose: () => {} };
+    const settings: Record<string, unknown> = { taskDeliveryMode: 'active-terminal' };
+    return {
+        window: {
+            createOutputChannel: () => ({ appendLine: () => {} }),
+            showWarningMessage: vi.fn(),
+            showErrorMessage: vi.fn(),
+            activeTerminal: undefined,
+            onDidCloseTerminal: () => disposable,
+        },
+        workspace: {
+            getConfiguration: () => ({ get: (key: string, fallback: unknown) => settings[key] ?? fallback }),
+            onDidChangeConfiguration: () => disposable,
+            createFileSystemWatcher: () => ({ onDidCreate: () => {}, onDidChange: () => {}, onDidDelete: () => {}, dispose: () => {} }),
+        },
+        RelativePattern: class {},
+    };
+});
+vi.mock('../voice/WhisperService');
+vi.mock('../voice/AudioRecorder');
+vi.mock('../interview/InterviewService');
+vi.mock('../context/ProjectContext');
+vi.mock('../tasks/commits', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../tasks/commits')>(),
+    getHead: vi.fn(),
+    getBranch: vi.fn(async () => 'main'),
+    listCommits: vi.fn(),
+}));
+
+const window = vscode.window as { activeTerminal?: unknown };
+const untagged: GitCommit = { sha: 'c1', subject: 'Add route', author: 'dev', committed_at: '', task_ids: [] };
+
+describe('building tasks', () => {
+    let linked: TaskCommit[];
+    let provider: TaskWebviewProvider;
+
+    beforeEach(() => {
+        linked = [];
+        const taskStore = {
+            getOpenBlockers: () => [],
+            getTask: (id: string) => ({ id, status: 'todo' }),
+            getFeatures: () => [],
+            onDidChange: () => ({ dispose: () => {} }),
+            linkCommits: (commits: TaskCommit[]) => linked.push(...commits),
+        } as unknown as TaskStore;
+        provider = new TaskWebviewProvider({} as vscode.Uri, { root: '/work/app', name: 'app', taskStore });
+        vi.mocked(getHead).mockResolvedValue('h1');
+        vi.mocked(listCommits).mockResolvedValue([untagged]);
+    });
+
+    afterEach(() => {
+        window.activeTerminal = undefined;
+        vi.clearAllMocks();
+    });
+
+    it('credits later commits to a build whose prompt was sent', async () => {
+        window.activeTerminal = { sendText: vi.fn(), show: vi.fn() };
+        await provider['handleBuildTasks'](['t1']);
+        provider['handleBuildComplete']();
+
+        vi.mocked(getHead).mockResolvedValue('h2');
+        await provider['handleBuildTasks'](['t2']);
+        expect(linked.map(c => [c.task_id, c.sha])).toEqual([['t1', 'c1']]);
+    });
+
+    it('credits nothing to a build that had no terminal to go to', async () => {
+        await provider['handleBuildTasks'](['t1']);
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('No active terminal'));
+
+        vi.mocked(getHead).mockResolvedValue('h2');
+        window.activeTerminal = { sendText: vi.fn(), show: vi.fn() };
+        await provider['handleBuildTasks'](['t2']);
+        expect(linked).toEqual([]);
+    });
+});
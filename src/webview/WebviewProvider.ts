@@ -1,14 +1,21 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { TaskStore } from '../tasks/TaskStore';
+import { TaskStore, INTERVIEW_ORIGIN } from '../tasks/TaskStore';
 import { WhisperService } from '../voice/WhisperService';
 import { AudioRecorder } from '../voice/AudioRecorder';
-import { InterviewService, InterviewProposal, InterviewQuestion, InterviewMessage, InterviewScope, InterviewContext } from '../interview/InterviewService';
+import { InterviewService, InterviewProposal, InterviewQuestion, InterviewMessage, InterviewScope, InterviewContext, InterviewCallbacks, parseSessionProposal, parseRejectedProposals, parseSessionMessages } from '../interview/InterviewService';
 import { ProjectContext } from '../context/ProjectContext';
 import { TASK_PARSER_PROMPT, TASK_PARSER_SCHEMA, type ThoughtPartnerIntensity } from '../prompts';
 import type { Task } from '../tasks/types';
 import { findClaudeBinary } from '../utils/claude';
+import { searchWorkspace } from '../search/search';
+import { isValidEstimate } from '../tasks/estimates';
+import { DEFAULT_STALE_HOURS } from '../tasks/metrics';
+import { listAllAttachments, addAttachment, removeAttachment, getAttachment } from '../tasks/attachments';
+import { resolveLocationPath, formatLocation } from '../tasks/locations';
+import { getHead, getBranch, listCommits, matchCommitsToTasks, toTaskCommits, showCommit, TASK_TRAILER } from '../tasks/commits';
+import { loadTemplates, fillTemplate, templatesDir } from '../tasks/templates';
 
 import { exec } from 'child_process';
 import { promisify } from 'util';
@@ -29,6 +36,20 @@ interface Requirement {
     title: string;
 }
 
+/**
+ * "Login: 2 features, 5 tasks" - enough to tell proposals apart in the interview history
+ */
+function summarizeProposal(proposal: InterviewProposal): string {
+    const features = proposal.features?.length ?? 0;
+    const tasks = proposal.tasks?.length ?? 0;
+    const counts = [
+        features > 0 ? `${features} feature${features === 1 ? '' : 's'}` : null,
+        `${tasks} task${tasks === 1 ? '' : 's'}`
+    ].filter(Boolean).join(', ');
+    const heading = proposal.features?.[0]?.title || proposal.tasks?.[0]?.title;
+    return heading ? `${heading}: ${counts}` : counts;
+}
+
 interface RequirementIndex {
     [path: string]: {
         title: string;
@@ -37,19 +58,34 @@ interface RequirementIndex {
     };
 }
 
+/**
+ * An initialized workspace folder the sidebar can show. Multi-root workspaces have one per folder.
+ */
+export interface ShepherdFolder {
+    root: string;
+    name: string;
+    taskStore: TaskStore;
+}
+
 export class TaskWebviewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'shepherd.taskView';
     private _view?: vscode.WebviewView;
     private readonly _disposables: vscode.Disposable[] = [];
-    private readonly requirementsDir: string;
-    private readonly requirementsIndexPath: string;
-    private readonly whisperService: WhisperService;
-    private readonly audioRecorder: AudioRecorder;
-    private readonly interviewService: InterviewService;
-    private readonly projectContext: ProjectContext;
+    private readonly folders: ShepherdFolder[] = [];
+    private folder!: ShepherdFolder;
+    // Subscriptions that belong to the folder on screen, replaced when switching folders
+    private folderDisposables: vscode.Disposable[] = [];
+    private requirementsDir!: string;
+    private requirementsIndexPath!: string;
+    private whisperService!: WhisperService;
+    private audioRecorder!: AudioRecorder;
+    private interviewService!: InterviewService;
+    private projectContext!: ProjectContext;
     private buildTerminal?: vscode.Terminal;
     private buildTaskIds?: Set<string>;
     private buildStatusListener?: vscode.Disposable;
+    // Per folder root: HEAD when the last build started and the tasks it built, to link the commits it made
+    private readonly lastBuilds = new Map<string, { head: string | null; taskIds: string[] }>();
     private currentProposal?: InterviewProposal;
     private currentDesignMd?: string;
     private interviewScope?: InterviewScope;
@@ -59,26 +95,65 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
 
     constructor(
         private readonly extensionUri: vscode.Uri,
-        private readonly taskStore: TaskStore,
-        private readonly workspaceRoot: string,
+        folder: ShepherdFolder,
         walkthroughId?: string,
         private readonly debug: boolean = false
     ) {
         this.walkthroughId = walkthroughId || 'JustinEckhouse.shepherd#shepherd.welcome';
         log('WebviewProvider constructor called');
 
-        this.requirementsDir = path.join(workspaceRoot, 'docs', 'requirements');
+        this.folders.push(folder);
+        this.bindFolder(folder);
+
+        this._disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('shepherd.staleTaskHours')) {
+                    this.sendMetrics();
+                }
+            })
+        );
+    }
+
+    private get taskStore(): TaskStore {
+        return this.folder.taskStore;
+    }
+
+    private get workspaceRoot(): string {
+        return this.folder.root;
+    }
+
+    /**
+     * Root of the folder the sidebar shows
+     */
+    public get currentFolder(): string {
+        return this.folder.root;
+    }
+
+    dispose(): void {
+        this.folderDisposables.forEach(d => d.dispose());
+        this._disposables.forEach(d => d.dispose());
+    }
+
+    /**
+     * Point the sidebar and its services at a folder
+     */
+    private bindFolder(folder: ShepherdFolder): void {
+        this.folderDisposables.forEach(d => d.dispose());
+        this.folderDisposables = [];
+        this.folder = folder;
+
+        this.requirementsDir = path.join(folder.root, 'docs', 'requirements');
         this.requirementsIndexPath = path.join(this.requirementsDir, '.index.json');
-        this.whisperService = new WhisperService(workspaceRoot);
-        this.audioRecorder = new AudioRecorder(workspaceRoot);
-        this.interviewService = new InterviewService(workspaceRoot, debug);
-        this.projectContext = new ProjectContext(workspaceRoot);
+        this.whisperService = new WhisperService(folder.root);
+        this.audioRecorder = new AudioRecorder(folder.root);
+        this.interviewService = new InterviewService(folder.root, this.debug);
+        this.projectContext = new ProjectContext(folder.root);
 
         // Initialize project context (creates COPILOT.md, design.md, etc.)
         this.projectContext.initialize();
 
         // Subscribe to task changes
-        this._disposables.push(
+        this.folderDisposables.push(
             this.taskStore.onDidChange(() => {
                 this.sendTasks();
                 // Update COPILOT.md with current features
@@ -88,10 +163,86 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
 
         // Watch requirements folder for changes
         this.watchRequirements();
+        this.watchTemplates();
     }
 
-    dispose(): void {
-        this._disposables.forEach(d => d.dispose());
+    /**
+     * Make another initialized folder available in the folder switcher
+     */
+    public addFolder(folder: ShepherdFolder): void {
+        if (!this.folders.some(f => f.root === folder.root)) {
+            this.folders.push(folder);
+        }
+        this.sendFolders();
+    }
+
+    /**
+     * Drop a folder that left the workspace. If it is on screen, the sidebar moves to another folder.
+     */
+    public removeFolder(root: string): void {
+        const index = this.folders.findIndex(f => f.root === root);
+        if (index === -1 || this.folders.length === 1) return;
+        this.folders.splice(index, 1);
+        if (this.folder.root === root) {
+            // The folder is gone, so whatever was under way in it ends here
+            if (this.interviewService.getSessionId() || this.currentProposal) {
+                this.handleCancelProposal();
+                this.handleCancelInterview();
+            }
+            if (this.audioRecorder.isRecording()) {
+                void this.audioRecorder.stopRecording();
+            }
+            // Links the build's last commits; the folder is captured before this returns
+            this.cleanupBuild();
+            this.lastBuilds.delete(root);
+            this.bindFolder(this.folders[0]);
+            this.sendInitialized();
+            return;
+        }
+        this.lastBuilds.delete(root);
+        this.sendFolders();
+    }
+
+    /**
+     * Show another folder's backlog in the sidebar
+     * @returns false if the sidebar is busy with the current folder
+     */
+    public switchFolder(root: string): boolean {
+        const folder = this.folders.find(f => f.root === root);
+        if (!folder) return false;
+        if (folder === this.folder) return true;
+
+        const busyWith = this.busyWith();
+        if (busyWith) {
+            vscode.window.showWarningMessage(`Finish ${busyWith} in ${this.folder.name} before switching folders.`);
+            // Put the switcher back on the current folder
+            this.sendFolders();
+            return false;
+        }
+
+        // The build terminal runs in the old folder; the next build opens one in the new folder
+        this.buildTerminal = undefined;
+        this.bindFolder(folder);
+        this.sendInitialized();
+        return true;
+    }
+
+    /**
+     * What ties the sidebar to the current folder, if anything
+     */
+    private busyWith(): string | null {
+        if (this.interviewService.getSessionId() || this.currentProposal) return 'the interview';
+        if (this.audioRecorder.isRecording()) return 'the recording';
+        if (this.buildInProgress) return 'the build';
+        return null;
+    }
+
+    private sendFolders(): void {
+        this._view?.webview.postMessage({
+            type: 'foldersUpdated',
+            folders: this.folders.map(f => ({ root: f.root, name: f.name })),
+            current: this.folder.root
+        });
     }
 
     /**
@@ -138,6 +289,34 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Undo the last backlog edit, offering to redo it from the toast
+     */
+    public undo(): void {
+        const label = this.taskStore.undo();
+        if (label) {
+            this.showToast(`Undid: ${label}`, 'redo');
+        } else {
+            this.showToast('Nothing to undo');
+        }
+    }
+
+    /**
+     * Redo the last undone backlog edit, offering to undo it again from the toast
+     */
+    public redo(): void {
+        const label = this.taskStore.redo();
+        if (label) {
+            this.showToast(`Redid: ${label}`, 'undo');
+        } else {
+            this.showToast('Nothing to redo');
+        }
+    }
+
+    private showToast(message: string, action?: 'undo' | 'redo'): void {
+        this._view?.webview.postMessage({ type: 'showToast', message, toastType: 'info', action });
+    }
+
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
         context: vscode.WebviewViewResolveContext,
@@ -187,21 +366,38 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                         break;
                     case 'deleteFeature':
                         this.taskStore.deleteFeature(message.id);
+                        this.showToast('Feature deleted', 'undo');
                         break;
                     case 'markFeatureDone':
                         this.taskStore.markFeatureDone(message.id);
+                        this.showToast('Feature marked done', 'undo');
                         break;
                     case 'reorderFeatures':
                         this.taskStore.reorderFeatures(message.featureIds);
                         break;
+                    // Milestone handlers
+                    case 'addMilestone':
+                        this.taskStore.createMilestone({ title: message.title, target_date: message.targetDate || null });
+                        break;
+                    case 'updateMilestone':
+                        this.taskStore.updateMilestone(message.id, message.updates);
+                        break;
+                    case 'deleteMilestone':
+                        this.taskStore.deleteMilestone(message.id);
+                        this.showToast('Milestone deleted', 'undo');
+                        break;
                     // Task handlers
                     case 'addTask':
-                        this.taskStore.createTask({
+                        const createdTask = this.taskStore.createTask({
                             title: message.title || '',
                             description: message.description,
                             feature_id: message.featureId,
-                            type: message.taskType
+                            type: message.taskType,
+                            ...message.bug
                         });
+                        if (message.attachments?.length) {
+                            this.saveAttachments(createdTask.id, message.attachments);
+                        }
                         // Mark walkthrough step as complete
                         vscode.commands.executeCommand('setContext', 'shepherd.walkthrough.taskCreated', true);
                         break;
@@ -210,6 +406,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                         break;
                     case 'deleteTask':
                         this.taskStore.deleteTask(message.id);
+                        this.showToast('Task deleted', 'undo');
                         break;
                     case 'reorderTasks':
                         this.taskStore.reorderTasks(message.taskIds);
@@ -217,16 +414,93 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                     case 'moveTask':
                         this.taskStore.moveTaskToFeature(message.taskId, message.featureId);
                         break;
+                    case 'getTaskHistory':
+                        this._view?.webview.postMessage({
+                            type: 'taskHistory',
+                            taskId: message.taskId,
+                            events: this.taskStore.getTaskHistory(message.taskId)
+                        });
+                        break;
+                    case 'addDependency':
+                        this.taskStore.addDependency(message.taskId, message.blockedById);
+                        break;
+                    case 'removeDependency':
+                        this.taskStore.removeDependency(message.taskId, message.blockedById);
+                        break;
+                    case 'addCriterion':
+                        this.taskStore.addCriterion(message.taskId, message.text);
+                        break;
+                    case 'updateCriterion':
+                        this.taskStore.updateCriterion(message.id, message.updates);
+                        break;
+                    case 'deleteCriterion':
+                        this.taskStore.deleteCriterion(message.id);
+                        break;
+                    case 'addComment':
+                        this.taskStore.addComment(message.taskId, { author: 'pm', kind: message.kind, body: message.body });
+                        break;
+                    case 'requestRework':
+                        this.taskStore.requestRework(message.taskId, message.feedback);
+                        break;
+                    case 'addAttachments':
+                        this.saveAttachments(message.taskId, message.files);
+                        break;
+                    case 'removeAttachment':
+                        removeAttachment(this.workspaceRoot, message.taskId, message.name);
+                        this.sendAttachments();
+                        break;
+                    case 'openAttachment':
+                        const attachment = getAttachment(this.workspaceRoot, message.taskId, message.name);
+                        if (attachment) {
+                            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(attachment.path));
+                        } else {
+                            vscode.window.showWarningMessage(`${message.name} is no longer attached.`);
+                            this.sendAttachments();
+                        }
+                        break;
+                    case 'openCommit':
+                        await this.openCommit(message.sha);
+                        break;
+                    case 'openLocation':
+                        await this.openLocation(message.id);
+                        break;
+                    case 'removeLocation':
+                        this.taskStore.removeLocation(message.id);
+                        break;
                     case 'updateProject':
                         const updatedProject = this.taskStore.updateProject(message.updates);
                         this._view?.webview.postMessage({ type: 'projectUpdated', project: updatedProject });
                         break;
+                    case 'createFromTemplate':
+                        this.createFromTemplate(message.templateId, message.values || {}, message.featureId);
+                        break;
+                    case 'openTemplate':
+                        await this.openTemplate(message.templateId);
+                        break;
                     case 'archiveDone':
                         const count = await this.taskStore.archiveDoneTasks();
                         if (count > 0) {
-                            vscode.window.showInformationMessage(`Archived ${count} completed task${count === 1 ? '' : 's'}`);
+                            this.showToast(`Archived ${count} completed task${count === 1 ? '' : 's'}`, 'undo');
                         }
                         break;
+                    case 'getArchivedTasks':
+                        this.sendArchivedTasks();
+                        break;
+                    case 'restoreTask':
+                        this.taskStore.restoreTask(message.id);
+                        break;
+                    case 'search':
+                        await this.sendSearchResults(message.query);
+                        break;
+                    case 'undo':
+                        this.undo();
+                        break;
+                    case 'redo':
+                        this.redo();
+                        break;
+                    case 'switchFolder':
+                        this.switchFolder(message.root);
+                        break;
                     case 'startInterview':
                         this.handleStartInterview(message.scope, message.initialInput, message.intensity);
                         break;
@@ -247,6 +521,12 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                     case 'cancelInterview':
                         this.handleCancelInterview();
                         break;
+                    case 'getInterviewSessions':
+                        this.sendInterviewSessions();
+                        break;
+                    case 'resumeInterview':
+                        await this.handleResumeInterview(message.sessionId, message.rejectedIndex);
+                        break;
                     case 'openRequirement':
                         this.openRequirement(message.path);
                         break;
@@ -311,7 +591,79 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                 type: 'featuresUpdated',
                 features
             });
+            this._view.webview.postMessage({
+                type: 'milestonesUpdated',
+                milestones: this.taskStore.getMilestones()
+            });
+            this._view.webview.postMessage({
+                type: 'dependenciesUpdated',
+                dependencies: this.taskStore.getDependencies()
+            });
+            this._view.webview.postMessage({
+                type: 'criteriaUpdated',
+                criteria: this.taskStore.getCriteria()
+            });
+            this._view.webview.postMessage({
+                type: 'commentsUpdated',
+                comments: this.taskStore.getComments()
+            });
+            this._view.webview.postMessage({
+                type: 'commitsUpdated',
+                commits: this.taskStore.getCommits()
+            });
+            this._view.webview.postMessage({
+                type: 'locationsUpdated',
+                locations: this.taskStore.getLocations()
+            });
+            this.sendAttachments();
+            this._view.webview.postMessage({
+                type: 'velocityUpdated',
+                velocity: this.taskStore.getVelocity()
+            });
+            this.sendMetrics();
+        }
+    }
+
+    private sendMetrics(): void {
+        const staleAfterHours = vscode.workspace.getConfiguration('shepherd').get<number>('staleTaskHours', DEFAULT_STALE_HOURS);
+        this._view?.webview.postMessage({
+            type: 'metricsUpdated',
+            metrics: this.taskStore.getFlowMetrics(staleAfterHours)
+        });
+    }
+
+    private sendAttachments(): void {
+        this._view?.webview.postMessage({
+            type: 'attachmentsUpdated',
+            attachments: listAllAttachments(this.workspaceRoot)
+        });
+    }
+
+    /**
+     * Write files from the webview next to a task. One bad file does not stop the rest.
+     */
+    private saveAttachments(taskId: string, files: Array<{ name: string; data: string }>): void {
+        for (const file of files) {
+            try {
+                addAttachment(this.workspaceRoot, taskId, file.name, Buffer.from(file.data, 'base64'));
+            } catch (error) {
+                vscode.window.showErrorMessage(`Could not attach ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
         }
+        this.sendAttachments();
+    }
+
+    private sendArchivedTasks(): void {
+        this._view?.webview.postMessage({
+            type: 'archivedTasks',
+            tasks: this.taskStore.getArchivedTasks()
+        });
+    }
+
+    private async sendSearchResults(query: string): Promise<void> {
+        const results = await searchWorkspace(this.taskStore, this.workspaceRoot, query, { include_archived: true });
+        // The query is echoed back so the webview can drop results for text it no longer shows
+        this._view?.webview.postMessage({ type: 'searchResults', query, results });
     }
 
     private getExtensionInfo(): { version: string; name: string } {
@@ -332,7 +684,14 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         if (this._view) {
             const project = this.taskStore.getProject();
             const features = this.taskStore.getFeatures();
+            const milestones = this.taskStore.getMilestones();
             const tasks = this.taskStore.getTasks();
+            const dependencies = this.taskStore.getDependencies();
+            const criteria = this.taskStore.getCriteria();
+            const comments = this.taskStore.getComments();
+            const commits = this.taskStore.getCommits();
+            const locations = this.taskStore.getLocations();
+            const attachments = listAllAttachments(this.workspaceRoot);
             const requirements = await this.getRequirements();
             const parserModel = vscode.workspace.getConfiguration('shepherd').get<string>('parserModel', 'haiku');
             const taskDeliveryMode = vscode.workspace.getConfiguration('shepherd').get<string>('taskDeliveryMode', 'new-terminal');
@@ -342,7 +701,14 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                 type: 'initialized',
                 project,
                 features,
+                milestones,
                 tasks,
+                dependencies,
+                criteria,
+                comments,
+                commits,
+                locations,
+                attachments,
                 requirements,
                 extensionInfo
             });
@@ -351,6 +717,13 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                 parserModel,
                 taskDeliveryMode
             });
+            this._view.webview.postMessage({
+                type: 'velocityUpdated',
+                velocity: this.taskStore.getVelocity()
+            });
+            this.sendMetrics();
+            this.sendTemplates();
+            this.sendFolders();
         }
     }
 
@@ -399,7 +772,58 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         watcher.onDidCreate(() => this.sendRequirements());
         watcher.onDidChange(() => this.sendRequirements());
         watcher.onDidDelete(() => this.sendRequirements());
-        this._disposables.push(watcher);
+        this.folderDisposables.push(watcher);
+    }
+
+    private watchTemplates(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(templatesDir(this.workspaceRoot), '*.md')
+        );
+        watcher.onDidCreate(() => this.sendTemplates());
+        watcher.onDidChange(() => this.sendTemplates());
+        watcher.onDidDelete(() => this.sendTemplates());
+        this.folderDisposables.push(watcher);
+    }
+
+    private sendTemplates(): void {
+        this._view?.webview.postMessage({
+            type: 'templatesUpdated',
+            templates: loadTemplates(this.workspaceRoot)
+        });
+    }
+
+    /**
+     * Create a template's feature and tasks in one undoable step. Tasks of a template
+     * without its own feature go into `featureId` (or stay ungrouped).
+     */
+    private createFromTemplate(templateId: string, values: Record<string, string>, featureId?: string | null): void {
+        const template = loadTemplates(this.workspaceRoot).find(t => t.id === templateId);
+        if (!template) {
+            vscode.window.showWarningMessage(`Template "${templateId}" no longer exists.`);
+            this.sendTemplates();
+            return;
+        }
+
+        const filled = fillTemplate(template, values);
+        if (!filled.feature && featureId) {
+            filled.tasks = filled.tasks.map(task => ({ ...task, feature_id: featureId }));
+        }
+        const { tasks } = this.taskStore.createTasks(filled, `Create from template "${template.name}"`);
+        vscode.commands.executeCommand('setContext', 'shepherd.walkthrough.taskCreated', true);
+        this.showToast(`Created ${tasks.length} task${tasks.length === 1 ? '' : 's'} from "${template.name}"`, 'undo');
+    }
+
+    /**
+     * Open a template for editing, or the templates folder in the explorer
+     */
+    private async openTemplate(templateId?: string): Promise<void> {
+        const dir = templatesDir(this.workspaceRoot);
+        if (templateId && loadTemplates(this.workspaceRoot).some(t => t.id === templateId)) {
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(path.join(dir, `${templateId}.md`)));
+        } else {
+            await fs.promises.mkdir(dir, { recursive: true });
+            await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(dir));
+        }
     }
 
     private openRequirement(reqPath: string): void {
@@ -483,6 +907,91 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         await this.writeRequirementsIndex(index);
     }
 
+    /**
+     * Relay interview progress to the sidebar and the proposal panel
+     * @param reopened The interview was reopened from history, so its proposal is always reviewed
+     */
+    private interviewCallbacks(reopened = false): InterviewCallbacks {
+        return {
+            onMessage: (message: InterviewMessage) => {
+                if (this._view) {
+                    this._view.webview.postMessage({
+                        type: 'interviewMessage',
+                        message
+                    });
+                }
+            },
+            onQuestion: (question: InterviewQuestion) => {
+                if (this._view) {
+                    this._view.webview.postMessage({
+                        type: 'interviewQuestion',
+                        question
+                    });
+                }
+            },
+            onThinking: () => {
+                if (this._view) {
+                    this._view.webview.postMessage({ type: 'interviewThinking' });
+                }
+            },
+            onProposal: async (proposal: InterviewProposal) => {
+                this.currentProposal = proposal;
+
+                // For simple task scope (single task, no features, no design changes),
+                // auto-approve without showing the review panel
+                const isSimpleTask = !reopened &&
+                    this.interviewScope === 'task' &&
+                    proposal.features.length === 0 &&
+                    proposal.tasks.length === 1 &&
+                    !proposal.proposedDesignMd;
+
+                if (isSimpleTask) {
+                    // Auto-approve the simple task
+                    await this.handleApproveProposal();
+                    return;
+                }
+
+                // Read current design.md for diff view
+                if (proposal.proposedDesignMd) {
+                    const designPath = path.join(this.workspaceRoot, 'docs', 'requirements', 'design.md');
+                    try {
+                        this.currentDesignMd = await fs.promises.readFile(designPath, 'utf-8');
+                    } catch {
+                        this.currentDesignMd = undefined;
+                    }
+                }
+
+                // Notify sidebar that proposal is being reviewed in panel
+                if (this._view) {
+                    this._view.webview.postMessage({
+                        type: 'interviewProposal',
+                        proposal,
+                        currentDesignMd: this.currentDesignMd
+                    });
+                }
+
+                // Open the proposal panel in editor area for review
+                this.openProposalPanel();
+            },
+            onComplete: (requirementPath: string) => {
+                if (this._view) {
+                    this._view.webview.postMessage({
+                        type: 'interviewComplete',
+                        requirementPath
+                    });
+                }
+            },
+            onError: (error: string) => {
+                if (this._view) {
+                    this._view.webview.postMessage({
+                        type: 'interviewError',
+                        error
+                    });
+                }
+            }
+        };
+    }
+
     private async handleStartInterview(scope: InterviewScope, initialInput?: string, intensity: ThoughtPartnerIntensity = 'balanced'): Promise<void> {
         this.interviewScope = scope;
         this.currentProposal = undefined;
@@ -491,83 +1000,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
             // Gather context about existing app
             const context = await this.gatherInterviewContext();
 
-            const sessionId = await this.interviewService.start(scope, initialInput, {
-                onMessage: (message: InterviewMessage) => {
-                    if (this._view) {
-                        this._view.webview.postMessage({
-                            type: 'interviewMessage',
-                            message
-                        });
-                    }
-                },
-                onQuestion: (question: InterviewQuestion) => {
-                    if (this._view) {
-                        this._view.webview.postMessage({
-                            type: 'interviewQuestion',
-                            question
-                        });
-                    }
-                },
-                onThinking: () => {
-                    if (this._view) {
-                        this._view.webview.postMessage({ type: 'interviewThinking' });
-                    }
-                },
-                onProposal: async (proposal: InterviewProposal) => {
-                    this.currentProposal = proposal;
-
-                    // For simple task scope (single task, no features, no design changes),
-                    // auto-approve without showing the review panel
-                    const isSimpleTask = this.interviewScope === 'task' &&
-                        proposal.features.length === 0 &&
-                        proposal.tasks.length === 1 &&
-                        !proposal.proposedDesignMd;
-
-                    if (isSimpleTask) {
-                        // Auto-approve the simple task
-                        await this.handleApproveProposal();
-                        return;
-                    }
-
-                    // Read current design.md for diff view
-                    if (proposal.proposedDesignMd) {
-                        const designPath = path.join(this.workspaceRoot, 'docs', 'requirements', 'design.md');
-                        try {
-                            this.currentDesignMd = await fs.promises.readFile(designPath, 'utf-8');
-                        } catch {
-                            this.currentDesignMd = undefined;
-                        }
-                    }
-
-                    // Notify sidebar that proposal is being reviewed in panel
-                    if (this._view) {
-                        this._view.webview.postMessage({
-                            type: 'interviewProposal',
-                            proposal,
-                            currentDesignMd: this.currentDesignMd
-                        });
-                    }
-
-                    // Open the proposal panel in editor area for review
-                    this.openProposalPanel();
-                },
-                onComplete: (requirementPath: string) => {
-                    if (this._view) {
-                        this._view.webview.postMessage({
-                            type: 'interviewComplete',
-                            requirementPath
-                        });
-                    }
-                },
-                onError: (error: string) => {
-                    if (this._view) {
-                        this._view.webview.postMessage({
-                            type: 'interviewError',
-                            error
-                        });
-                    }
-                }
-            }, context, intensity);
+            const sessionId = await this.interviewService.start(scope, initialInput, this.interviewCallbacks(), context, intensity);
 
             // Notify webview that interview started
             if (this._view) {
@@ -587,6 +1020,68 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Reopen an unfinished interview from the history, or review one of its rejected proposals
+     */
+    private async handleResumeInterview(sessionId: string, rejectedIndex?: number): Promise<void> {
+        if (this.interviewService.getSessionId() || this.currentProposal) {
+            vscode.window.showWarningMessage('Finish or cancel the current interview before reopening another one.');
+            return;
+        }
+        const session = this.interviewService.getSession(sessionId);
+        if (!session || session.status === 'complete') {
+            vscode.window.showWarningMessage('This interview is already complete.');
+            return;
+        }
+
+        this.interviewScope = session.scope as InterviewScope;
+        this.currentProposal = undefined;
+        this.currentDesignMd = undefined;
+
+        // Open the interview in the sidebar before the conversation is replayed into it
+        this._view?.webview.postMessage({
+            type: 'interviewStarted',
+            sessionId,
+            scope: session.scope,
+            reopened: true
+        });
+
+        try {
+            const resumed = await this.interviewService.resume(sessionId, this.interviewCallbacks(true), rejectedIndex);
+            if (!resumed) {
+                this._view?.webview.postMessage({ type: 'interviewCancelled' });
+            }
+        } catch (error) {
+            this._view?.webview.postMessage({
+                type: 'interviewError',
+                error: error instanceof Error ? error.message : 'Failed to reopen interview'
+            });
+        }
+    }
+
+    private sendInterviewSessions(): void {
+        const sessions = this.interviewService.getSessions().map(session => {
+            const proposal = parseSessionProposal(session);
+            const firstLine = session.raw_input?.trim().split('\n')[0];
+            return {
+                id: session.id,
+                scope: session.scope,
+                status: session.status,
+                title: firstLine ? firstLine.slice(0, 80) : null,
+                message_count: parseSessionMessages(session).filter(m => m.role === 'user').length,
+                proposal: proposal && summarizeProposal(proposal),
+                rejected_proposals: parseRejectedProposals(session).map(rejected => ({
+                    summary: summarizeProposal(rejected.proposal),
+                    feedback: rejected.feedback,
+                    rejected_at: rejected.rejected_at
+                })),
+                created_at: session.created_at,
+                updated_at: session.updated_at
+            };
+        });
+        this._view?.webview.postMessage({ type: 'interviewSessions', sessions });
+    }
+
     private async handleApproveProposal(
         editedRequirementDoc?: string,
         editedDesignChanges?: string,
@@ -596,6 +1091,12 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         if (!this.currentProposal) {
             return;
         }
+        // Nothing approved into a read-only database would be saved
+        const readOnlyReason = this.taskStore.getReadOnlyReason();
+        if (readOnlyReason) {
+            vscode.window.showErrorMessage(readOnlyReason);
+            return;
+        }
 
         try {
             const isTaskScope = this.interviewScope === 'task';
@@ -603,6 +1104,13 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
             const removedFeatures = new Set(removedFeatureIndices || []);
             const removedTasks = new Set(removedTaskIndices || []);
 
+            // Snapshot the backlog first so a bad approval can be rolled back with "Restore Backup"
+            try {
+                this.taskStore.backup('proposal');
+            } catch (error) {
+                console.error('[WebviewProvider] Failed to snapshot the database before approving:', error);
+            }
+
             // 1. Save requirement document (only for project/feature scope)
             const docContent = editedRequirementDoc || this.currentProposal.requirementDoc;
             if (!isTaskScope && docContent && docContent.trim()) {
@@ -673,7 +1181,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                         title: feat.title,
                         description: feat.description,
                         requirement_path: savedReqPath
-                    });
+                    }, INTERVIEW_ORIGIN);
                     featureIdMap.set(i, feature.id);
                 }
             }
@@ -705,8 +1213,10 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                 this.taskStore.createTask({
                     title: task.title,
                     description: task.description,
-                    feature_id: featureId
-                });
+                    feature_id: featureId,
+                    acceptance_criteria: task.acceptanceCriteria,
+                    estimate: isValidEstimate(task.estimate) ? task.estimate : null
+                }, INTERVIEW_ORIGIN);
                 taskCount++;
             }
 
@@ -765,6 +1275,8 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         this.proposalPanel = undefined;
         this.currentProposal = undefined;
         this.currentDesignMd = undefined;
+        // The session stays 'proposed', so it can be reopened for review from the interview history
+        this.interviewService.stop();
 
         if (this._view) {
             this._view.webview.postMessage({ type: 'interviewCancelled' });
@@ -1075,25 +1587,50 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
 
     private buildInProgress = false;
 
-    private async handleBuildTasks(taskIds: string[]): Promise<void> {
+    private async handleBuildTasks(requestedIds: string[]): Promise<void> {
         // Check if build already in progress
         if (this.buildInProgress) {
             vscode.window.showWarningMessage('A build is already in progress. Please wait for it to complete.');
             return;
         }
 
+        // Skip blocked tasks unless every open blocker is built earlier in this batch
+        const queued = new Set<string>();
+        const skipped: string[] = [];
+        const taskIds = requestedIds.filter(id => {
+            if (this.taskStore.getOpenBlockers(id).some(blockerId => !queued.has(blockerId))) {
+                skipped.push(this.taskStore.getTask(id)?.title || id);
+                return false;
+            }
+            queued.add(id);
+            return true;
+        });
+
+        if (skipped.length > 0) {
+            vscode.window.showWarningMessage(
+                `Skipped ${skipped.length} blocked task${skipped.length === 1 ? '' : 's'}: ${skipped.join(', ')}`
+            );
+        }
+
         if (taskIds.length === 0) {
             return;
         }
 
+        // Commits made after the previous build finished still belong to it
+        const folder = this.folder;
+        await this.linkBuildCommits(folder);
+        this.lastBuilds.delete(folder.root);
+        // Recorded once the prompt is sent, so a build that never starts is credited nothing
+        const build = { head: await getHead(folder.root), taskIds };
+
         // Get delivery mode setting
         const deliveryMode = vscode.workspace.getConfiguration('shepherd').get<string>('taskDeliveryMode', 'new-terminal');
 
         // Build the prompt
         const ids = taskIds.join(', ');
         const prompt = taskIds.length === 1
-            ? `Build task ${ids}. Use shepherd MCP tools to get details. Set status to ready-for-signoff when complete.`
-            : `Build these tasks in order: ${ids}. Use shepherd MCP tools to get details. Set each task to ready-for-signoff when complete.`;
+            ? `Build task ${ids}. Use shepherd MCP tools to get details. End each commit message with a "${TASK_TRAILER}: ${ids}" trailer. Set status to ready-for-signoff when complete.`
+            : `Build these tasks in order: ${ids}. Use shepherd MCP tools to get details. End each commit message with a "${TASK_TRAILER}: <task id>" trailer naming the task it implements. Set each task to ready-for-signoff when complete.`;
 
         if (deliveryMode === 'active-terminal') {
             // Active terminal mode - send raw prompt to focused terminal
@@ -1124,6 +1661,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                 // Send just the prompt text (no claude command wrapper)
                 activeTerminal.sendText(prompt, true);
                 activeTerminal.show();
+                this.lastBuilds.set(folder.root, build);
             } catch (error) {
                 const message = error instanceof Error ? error.message : 'Unknown error';
                 vscode.window.showErrorMessage(`Failed to send to terminal: ${message}`);
@@ -1143,7 +1681,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
             // Reuse existing terminal or create new one
             if (!this.buildTerminal) {
                 this.buildTerminal = vscode.window.createTerminal({
-                    name: 'Claude Build',
+                    name: this.folders.length > 1 ? `Claude Build (${this.folder.name})` : 'Claude Build',
                     cwd: this.workspaceRoot
                 });
 
@@ -1172,6 +1710,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
                 this.buildTerminal.sendText('', true); // Send Enter key
 
                 this.buildTerminal.show();
+                this.lastBuilds.set(folder.root, build);
             } catch (error) {
                 const message = error instanceof Error ? error.message : 'Unknown error';
                 vscode.window.showErrorMessage(`Failed to send build command: ${message}`);
@@ -1199,6 +1738,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
     }
 
     private handleBuildComplete(): void {
+        this.linkBuildCommits();
         this.buildInProgress = false;
         this.buildTaskIds = undefined;
         this.buildStatusListener?.dispose();
@@ -1212,6 +1752,7 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
     }
 
     private cleanupBuild(): void {
+        this.linkBuildCommits();
         this.buildInProgress = false;
         this.buildTerminal = undefined;
         this.buildTaskIds = undefined;
@@ -1224,6 +1765,64 @@ export class TaskWebviewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Link the commits made since the last build started to the tasks it built: by their
+     * Shepherd-Task trailer, or to the task itself when only one was built. Runs when the
+     * build completes, when its terminal closes and before the next build, so late commits
+     * are picked up too; links that already exist are kept as they are.
+     * The folder is fixed when called: the sidebar may switch folders while git runs.
+     */
+    private async linkBuildCommits(folder: ShepherdFolder = this.folder): Promise<void> {
+        const { root, taskStore } = folder;
+        const build = this.lastBuilds.get(root);
+        if (!build) return;
+        try {
+            const head = await getHead(root);
+            if (!head || head === build.head) return;
+            const commits = await listCommits(root, build.head, head);
+            const links = matchCommitsToTasks(commits, build.taskIds, id => !!taskStore.getTask(id));
+            taskStore.linkCommits(toTaskCommits(links, await getBranch(root)));
+        } catch (error) {
+            console.error('[Shepherd] Failed to link build commits:', error);
+        }
+    }
+
+    /**
+     * Open a task's code location with its lines selected
+     */
+    private async openLocation(id: string): Promise<void> {
+        const location = this.taskStore.getLocation(id);
+        const filePath = location && resolveLocationPath(this.workspaceRoot, location);
+        if (!location || !filePath) return;
+        if (!fs.existsSync(filePath)) {
+            vscode.window.showWarningMessage(`${location.path} no longer exists.`);
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        // The file may have shrunk since the location was recorded
+        const lastLine = document.lineCount - 1;
+        const start = Math.min(location.start_line - 1, lastLine);
+        const end = Math.min(location.end_line - 1, lastLine);
+        const range = new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+        await vscode.window.showTextDocument(document, { selection: range });
+        if (end < location.end_line - 1) {
+            vscode.window.showInformationMessage(`${formatLocation(location)} is past the end of the file; it may have changed.`);
+        }
+    }
+
+    /**
+     * Show a commit's diff in an editor
+     */
+    private async openCommit(sha: string): Promise<void> {
+        const diff = await showCommit(this.workspaceRoot, sha);
+        if (diff === null) {
+            vscode.window.showWarningMessage(`Commit ${sha.slice(0, 7)} was not found in this repository.`);
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument({ content: diff, language: 'diff' });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
     private sendProcessingStatus(status: string): void {
         if (this._view) {
             this._view.webview.postMessage({ type: 'processingStatus', status });
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Plus, FileText, ListTodo, Bug, ChevronDown, MessageSquare, FolderKanban } from 'lucide-react';
+import { Plus, FileText, ListTodo, Bug, ChevronDown, MessageSquare, FolderKanban, Flag, LayoutTemplate } from 'lucide-react';
 import { Button } from './ui';
 import { cn } from '../lib/utils';
 
@@ -7,6 +7,8 @@ interface AddMenuProps {
   onAddTask: () => void;
   onAddBug: () => void;
   onAddFeature: () => void;
+  onAddMilestone: () => void;
+  onAddFromTemplate: () => void;
   onInterviewTask: () => void;
   onInterviewFeature: () => void;
   onInterviewProject: () => void;
@@ -16,6 +18,8 @@ export function AddMenu({
   onAddTask,
   onAddBug,
   onAddFeature,
+  onAddMilestone,
+  onAddFromTemplate,
   onInterviewTask,
   onInterviewFeature,
   onInterviewProject,
@@ -140,6 +144,14 @@ export function AddMenu({
               <Bug size={14} className="text-danger" />
               Bug
             </button>
+            <button
+              onClick={() => handleSelect(onAddFromTemplate)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-neutral-700 hover:bg-neutral-50 rounded"
+              title="Create a feature or tasks from a template in .shepherd/templates/"
+            >
+              <LayoutTemplate size={14} className="text-neutral-400" />
+              From template
+            </button>
             <button
               onClick={() => handleSelect(onAddFeature)}
               className="w-full flex items-center gap-2 px-3 py-2 text-sm text-neutral-700 hover:bg-neutral-50 rounded"
@@ -148,6 +160,14 @@ export function AddMenu({
               <FolderKanban size={14} className="text-neutral-400" />
               Feature
             </button>
+            <button
+              onClick={() => handleSelect(onAddMilestone)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-neutral-700 hover:bg-neutral-50 rounded"
+              title="Group features into a release with a target date"
+            >
+              <Flag size={14} className="text-neutral-400" />
+              Milestone
+            </button>
           </div>
         </div>
       )}
@@ -1,14 +1,20 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Plus } from 'lucide-react';
+import { Plus, Paperclip, X } from 'lucide-react';
 import { Button } from './ui';
 import { RecordButton } from './RecordButton';
+import { cn } from '../lib/utils';
+import { filesFromTransfer, isFileDrag } from '../lib/attachments';
 
 interface AddTaskFormProps {
-  onAdd: (title: string, description: string) => void;
+  // files are the attachments dropped or pasted into the form
+  onAdd: (title: string, description: string, files: File[]) => void;
   onCancel?: () => void;
   placeholder?: string;
   autoFocus?: boolean;
   showRecord?: boolean;
+  // Picking a template hands over to the template picker
+  templates?: { id: string; name: string }[];
+  onUseTemplate?: (templateId: string) => void;
 }
 
 export function AddTaskForm({
@@ -16,11 +22,15 @@ export function AddTaskForm({
   onCancel,
   placeholder = 'Describe the task...',
   autoFocus = false,
-  showRecord = false
+  showRecord = false,
+  templates = [],
+  onUseTemplate
 }: AddTaskFormProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [showTitle, setShowTitle] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [isFileOver, setIsFileOver] = useState(false);
   const descriptionRef = useRef<HTMLTextAreaElement>(null);
   const titleInputRef = useRef<HTMLInputElement>(null);
 
@@ -33,10 +43,11 @@ export function AddTaskForm({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (description.trim()) {
-      onAdd(title.trim(), description.trim());
+      onAdd(title.trim(), description.trim(), files);
       setTitle('');
       setDescription('');
       setShowTitle(false);
+      setFiles([]);
     }
   };
 
@@ -46,6 +57,31 @@ export function AddTaskForm({
     }
   };
 
+  const addFiles = (added: File[]) => {
+    setFiles(prev => [...prev, ...added]);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const pasted = filesFromTransfer(e.clipboardData);
+    if (pasted.length > 0) {
+      e.preventDefault();
+      addFiles(pasted);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsFileOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsFileOver(false);
+    addFiles(filesFromTransfer(e.dataTransfer));
+  };
+
   const handleTranscript = (text: string) => {
     // Use full transcript as description
     setDescription(text);
@@ -62,7 +98,15 @@ export function AddTaskForm({
     <form
       onSubmit={handleSubmit}
       onKeyDown={handleKeyDown}
-      className={onCancel ? '' : 'mb-3 bg-neutral-0 border border-neutral-200 rounded-md p-2'}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsFileOver(false);
+      }}
+      onDrop={handleDrop}
+      className={cn(
+        onCancel ? '' : 'mb-3 bg-neutral-0 border border-neutral-200 rounded-md p-2',
+        isFileOver && 'outline-dashed outline-1 outline-primary rounded-md'
+      )}
     >
       {/* Optional title field */}
       {showTitle && (
@@ -87,6 +131,7 @@ export function AddTaskForm({
           ref={descriptionRef}
           value={description}
           onChange={(e) => setDescription(e.target.value)}
+          onPaste={handlePaste}
           placeholder={placeholder}
           autoFocus={autoFocus}
           rows={2}
@@ -97,9 +142,29 @@ export function AddTaskForm({
         />
       </div>
 
+      {/* Files to attach once the task is created */}
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-1 mt-2">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="inline-flex items-center gap-1 max-w-full text-[10px] text-neutral-600 bg-neutral-100 rounded px-1.5 py-0.5">
+              <Paperclip size={10} className="shrink-0" />
+              <span className="truncate">{file.name}</span>
+              <button
+                type="button"
+                onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                className="text-neutral-400 hover:text-danger shrink-0"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X size={10} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Buttons row */}
       <div className="flex gap-1.5 mt-2 justify-between items-center">
-        <div>
+        <div className="flex items-center gap-3">
           {!showTitle && (
             <button
               type="button"
@@ -109,6 +174,31 @@ export function AddTaskForm({
               + Add title
             </button>
           )}
+          <label className="text-xs text-neutral-500 hover:text-primary cursor-pointer" title="Or drop files here (hold Shift), or paste a screenshot">
+            + Attach
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {onUseTemplate && templates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && onUseTemplate(e.target.value)}
+              className="text-xs text-neutral-500 hover:text-primary bg-transparent cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary rounded"
+              aria-label="Use a template"
+            >
+              <option value="">+ Template</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          )}
         </div>
         <div className="flex gap-1.5">
           {onCancel && (
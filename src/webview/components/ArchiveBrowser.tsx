@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Search, RotateCcw } from 'lucide-react';
+import { vscode } from '../lib/vscode';
+import type { Feature, Task } from '../types';
+
+interface ArchiveBrowserProps {
+  features: Feature[];
+  // Changes whenever the board changes so the archive is refetched
+  refreshKey: unknown;
+  onClose: () => void;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export function ArchiveBrowser({ features, refreshKey, onClose }: ArchiveBrowserProps) {
+  const [archivedTasks, setArchivedTasks] = useState<Task[] | null>(null);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'archivedTasks') {
+        setArchivedTasks(message.tasks);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    vscode.postMessage({ type: 'getArchivedTasks' });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, [refreshKey]);
+
+  // Filter by search query, then group by feature (most recently archived first)
+  const groups = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const matches = (archivedTasks || [])
+      .filter(t => !needle
+        || t.title.toLowerCase().includes(needle)
+        || (t.description || '').toLowerCase().includes(needle))
+      .sort((a, b) => (b.archived_at || '').localeCompare(a.archived_at || ''));
+
+    const grouped = new Map<string, { title: string; tasks: Task[] }>();
+    matches.forEach(task => {
+      const key = task.feature_id || '__ungrouped__';
+      if (!grouped.has(key)) {
+        const feature = features.find(f => f.id === task.feature_id);
+        grouped.set(key, { title: feature?.title || 'Ungrouped', tasks: [] });
+      }
+      grouped.get(key)!.tasks.push(task);
+    });
+    return Array.from(grouped.entries());
+  }, [archivedTasks, features, query]);
+
+  const handleRestore = (id: string) => {
+    vscode.postMessage({ type: 'restoreTask', id });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-neutral-900/60 flex items-center justify-center z-50 p-2">
+      <div className="bg-neutral-0 rounded-lg shadow-sm border border-neutral-200 w-full max-w-md max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-neutral-200">
+          <h2 className="text-base font-semibold text-neutral-800">
+            Archive
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-neutral-100 transition-fast"
+          >
+            <X size={18} className="text-neutral-500" />
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="px-4 pt-3">
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-neutral-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search archived tasks..."
+              className="w-full pl-8 pr-3 py-1.5 text-sm border border-neutral-200 rounded-md bg-neutral-0 text-neutral-800 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              autoFocus
+            />
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {archivedTasks === null ? (
+            <p className="text-sm text-neutral-400 text-center py-6">Loading...</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-neutral-400 text-center py-6">
+              {query.trim() ? 'No archived tasks match your search' : 'No archived tasks'}
+            </p>
+          ) : (
+            groups.map(([key, group]) => (
+              <div key={key} className="border border-neutral-200 rounded-lg overflow-hidden">
+                <div className="flex items-center px-3 py-2 border-b border-neutral-200 bg-neutral-50">
+                  <span className="text-sm font-medium text-neutral-600 truncate">{group.title}</span>
+                  <span className="text-xs text-neutral-400 ml-auto shrink-0">{group.tasks.length} archived</span>
+                </div>
+                <ul className="divide-y divide-neutral-100">
+                  {group.tasks.map(task => (
+                    <li key={task.id} className="flex items-start gap-2 px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-neutral-700 break-words">{task.title}</p>
+                        {task.archived_at && (
+                          <p className="text-[10px] text-neutral-400">Archived {formatDate(task.archived_at)}</p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleRestore(task.id)}
+                        className="text-xs text-neutral-400 hover:text-primary flex items-center gap-1 shrink-0"
+                      >
+                        <RotateCcw size={12} />
+                        <span>Restore</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Bug, Paperclip, X } from 'lucide-react';
+import { Button } from './ui';
+import { cn } from '../lib/utils';
+import { filesFromTransfer, isFileDrag } from '../lib/attachments';
+import { BUG_SEVERITIES, type BugFields, type BugSeverity } from '../types';
+
+interface BugFormProps {
+  // files are the attachments (e.g. screenshots) dropped or pasted into the form
+  onAdd: (title: string, description: string, bug: BugFields, files: File[]) => void;
+  onCancel: () => void;
+}
+
+const FIELD = 'w-full bg-transparent border border-neutral-300 rounded px-2 py-1.5 text-sm text-neutral-800 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary';
+const LABEL = 'text-[10px] font-medium text-neutral-500 uppercase tracking-wide mb-1 block';
+
+export function BugForm({ onAdd, onCancel }: BugFormProps) {
+  const [title, setTitle] = useState('');
+  const [severity, setSeverity] = useState<BugSeverity>('medium');
+  const [reproSteps, setReproSteps] = useState('');
+  const [expected, setExpected] = useState('');
+  const [actual, setActual] = useState('');
+  const [environment, setEnvironment] = useState('');
+  const [notes, setNotes] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isFileOver, setIsFileOver] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    onAdd(title.trim(), notes.trim(), {
+      severity,
+      repro_steps: reproSteps.trim() || null,
+      expected_result: expected.trim() || null,
+      actual_result: actual.trim() || null,
+      environment: environment.trim() || null
+    }, files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const pasted = filesFromTransfer(e.clipboardData);
+    if (pasted.length > 0) {
+      e.preventDefault();
+      setFiles(prev => [...prev, ...pasted]);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsFileOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsFileOver(false);
+    const dropped = filesFromTransfer(e.dataTransfer);
+    setFiles(prev => [...prev, ...dropped]);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => { if (e.key === 'Escape') onCancel(); }}
+      onPaste={handlePaste}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsFileOver(false);
+      }}
+      onDrop={handleDrop}
+      className={cn('space-y-2', isFileOver && 'outline-dashed outline-1 outline-primary rounded-md')}
+    >
+      {/* Summary and severity */}
+      <div className="flex gap-1.5">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="What's broken?"
+          autoFocus
+          className={cn(FIELD, 'flex-1 min-w-0 font-medium')}
+        />
+        <select
+          value={severity}
+          onChange={(e) => setSeverity(e.target.value as BugSeverity)}
+          className="text-xs text-neutral-700 bg-neutral-0 border border-neutral-300 rounded px-1.5 cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
+          aria-label="Severity"
+        >
+          {BUG_SEVERITIES.map(s => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={LABEL}>Steps to reproduce</label>
+        <textarea
+          value={reproSteps}
+          onChange={(e) => setReproSteps(e.target.value)}
+          placeholder={'1. Open...\n2. Click...'}
+          rows={3}
+          className={cn(FIELD, 'resize-none')}
+        />
+      </div>
+
+      <div>
+        <label className={LABEL}>Expected result</label>
+        <textarea
+          value={expected}
+          onChange={(e) => setExpected(e.target.value)}
+          placeholder="What should happen"
+          rows={2}
+          className={cn(FIELD, 'resize-none')}
+        />
+      </div>
+
+      <div>
+        <label className={LABEL}>Actual result</label>
+        <textarea
+          value={actual}
+          onChange={(e) => setActual(e.target.value)}
+          placeholder="What happens instead"
+          rows={2}
+          className={cn(FIELD, 'resize-none')}
+        />
+      </div>
+
+      <div>
+        <label className={LABEL}>Environment</label>
+        <input
+          type="text"
+          value={environment}
+          onChange={(e) => setEnvironment(e.target.value)}
+          placeholder="OS, browser, version..."
+          className={FIELD}
+        />
+      </div>
+
+      <div>
+        <label className={LABEL}>Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Anything else (optional)"
+          rows={2}
+          className={cn(FIELD, 'resize-none')}
+        />
+      </div>
+
+      {/* Files to attach once the bug is created */}
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="inline-flex items-center gap-1 max-w-full text-[10px] text-neutral-600 bg-neutral-100 rounded px-1.5 py-0.5">
+              <Paperclip size={10} className="shrink-0" />
+              <span className="truncate">{file.name}</span>
+              <button
+                type="button"
+                onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                className="text-neutral-400 hover:text-danger shrink-0"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X size={10} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Buttons row */}
+      <div className="flex gap-1.5 justify-between items-center">
+        <label className="text-xs text-neutral-500 hover:text-primary cursor-pointer" title="Or drop files here (hold Shift), or paste a screenshot">
+          + Attach
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const picked = Array.from(e.target.files || []);
+              setFiles(prev => [...prev, ...picked]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <div className="flex gap-1.5">
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} className="h-8 px-2 text-xs">
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={!title.trim()} className="h-8 px-3 text-xs">
+            <Bug size={12} />
+            <span className="ml-1">Report bug</span>
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
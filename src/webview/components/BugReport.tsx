@@ -0,0 +1,30 @@
+import React from 'react';
+import type { Task } from '../types';
+
+interface BugReportProps {
+  task: Task;
+}
+
+const SECTIONS: { key: 'repro_steps' | 'expected_result' | 'actual_result' | 'environment'; label: string }[] = [
+  { key: 'repro_steps', label: 'Steps to reproduce' },
+  { key: 'expected_result', label: 'Expected' },
+  { key: 'actual_result', label: 'Actual' },
+  { key: 'environment', label: 'Environment' },
+];
+
+export function hasBugReport(task: Task): boolean {
+  return task.type === 'bug' && SECTIONS.some(s => task[s.key]);
+}
+
+export function BugReport({ task }: BugReportProps) {
+  return (
+    <dl className="mt-1 space-y-1.5">
+      {SECTIONS.filter(s => task[s.key]).map(s => (
+        <div key={s.key}>
+          <dt className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide">{s.label}</dt>
+          <dd className="text-xs leading-relaxed text-neutral-600 whitespace-pre-wrap break-words">{task[s.key]}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -6,11 +6,11 @@ import {
   SortableContext,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
-import { ChevronDown, ChevronRight, GripVertical, Play, Pencil, Trash2, Check, X, FileText, Plus } from 'lucide-react';
+import { ChevronDown, ChevronRight, GripVertical, Play, Pencil, Trash2, Check, X, FileText, Plus, Flag } from 'lucide-react';
 import { TaskCard } from './TaskCard';
-import { Button } from './ui';
+import { Button, Tooltip } from './ui';
 import { cn } from '../lib/utils';
-import type { Feature, Task, TaskStatus, FeatureStatus } from '../types';
+import type { Feature, Milestone, Task, TaskDependency, AcceptanceCriterion, TaskComment, CommentKind, TaskStatus, FeatureStatus, TaskAttachment, TaskCommit, TaskLocation, TaskFlowMetrics, BugFields } from '../types';
 
 const featureStatusLabels: Record<FeatureStatus, string> = {
   'active': 'Active',
@@ -38,9 +38,34 @@ interface FeatureSectionProps {
   onTaskTitleChange: (id: string, title: string) => void;
   onTaskDescriptionChange: (id: string, description: string) => void;
   onTaskDelete: (id: string) => void;
+  onTaskEstimateChange?: (id: string, estimate: number | null) => void;
+  onTaskBugFieldsChange?: (id: string, fields: Partial<BugFields>) => void;
+  allTasks?: Task[];
+  dependencies?: TaskDependency[];
+  onAddDependency?: (taskId: string, blockedById: string) => void;
+  onRemoveDependency?: (taskId: string, blockedById: string) => void;
+  criteria?: AcceptanceCriterion[];
+  onAddCriterion?: (taskId: string, text: string) => void;
+  onToggleCriterion?: (id: string, checked: boolean) => void;
+  onDeleteCriterion?: (id: string) => void;
+  comments?: TaskComment[];
+  onAddComment?: (taskId: string, body: string, kind: CommentKind) => void;
+  attachments?: TaskAttachment[];
+  onAddAttachments?: (taskId: string, files: File[]) => void;
+  onRemoveAttachment?: (taskId: string, name: string) => void;
+  onOpenAttachment?: (taskId: string, name: string) => void;
+  commits?: TaskCommit[];
+  onOpenCommit?: (sha: string) => void;
+  locations?: TaskLocation[];
+  onOpenLocation?: (id: string) => void;
+  onRemoveLocation?: (id: string) => void;
+  flowMetrics?: TaskFlowMetrics[];
   onFeatureEdit?: (id: string, title: string, description: string) => void;
   onFeatureDelete?: (id: string) => void;
   onFeatureStatusChange?: (id: string, status: FeatureStatus) => void;
+  // The milestone picker is shown once there is at least one milestone
+  milestones?: Milestone[];
+  onFeatureMilestoneChange?: (id: string, milestoneId: string | null) => void;
   onOpenRequirement?: (path: string) => void;
   onAddTask?: (featureId: string) => void;
 }
@@ -59,9 +84,33 @@ export function FeatureSection({
   onTaskTitleChange,
   onTaskDescriptionChange,
   onTaskDelete,
+  onTaskEstimateChange,
+  onTaskBugFieldsChange,
+  allTasks,
+  dependencies,
+  onAddDependency,
+  onRemoveDependency,
+  criteria,
+  onAddCriterion,
+  onToggleCriterion,
+  onDeleteCriterion,
+  comments,
+  onAddComment,
+  attachments,
+  onAddAttachments,
+  onRemoveAttachment,
+  onOpenAttachment,
+  commits,
+  onOpenCommit,
+  locations,
+  onOpenLocation,
+  onRemoveLocation,
+  flowMetrics,
   onFeatureEdit,
   onFeatureDelete,
   onFeatureStatusChange,
+  milestones = [],
+  onFeatureMilestoneChange,
   onOpenRequirement,
   onAddTask,
 }: FeatureSectionProps) {
@@ -101,6 +150,14 @@ export function FeatureSection({
   const todoCount = tasks.filter(t => t.status === 'todo').length;
   const inProgressCount = tasks.filter(t => t.status === 'in-progress').length;
 
+  // Point totals include the feature's done tasks, which are not in `tasks`
+  const featureId = isUngrouped ? null : feature.id;
+  const featureTasks = (allTasks || tasks).filter(t => (t.feature_id ?? null) === featureId);
+  const estimatedTasks = featureTasks.filter(t => t.estimate !== null);
+  const totalPoints = estimatedTasks.reduce((sum, t) => sum + (t.estimate ?? 0), 0);
+  const donePoints = estimatedTasks.filter(t => t.status === 'done').reduce((sum, t) => sum + (t.estimate ?? 0), 0);
+  const unestimatedCount = featureTasks.filter(t => t.estimate === null && t.status !== 'done').length;
+
   const handleSaveEdit = () => {
     if (onFeatureEdit && editTitle.trim()) {
       onFeatureEdit(feature.id, editTitle.trim(), editDescription.trim());
@@ -118,6 +175,7 @@ export function FeatureSection({
     <div
       ref={setNodeRef}
       style={style}
+      data-feature-id={feature.id}
       className={cn(
         'border border-neutral-200 rounded-lg bg-neutral-0 overflow-hidden',
         isDragging && 'shadow-drag border-primary',
@@ -195,6 +253,15 @@ export function FeatureSection({
                 {feature.title}
               </span>
 
+              {/* Estimate totals */}
+              {totalPoints > 0 && (
+                <Tooltip content={`${donePoints} of ${totalPoints} points done${unestimatedCount > 0 ? `; ${unestimatedCount} open task${unestimatedCount === 1 ? '' : 's'} without an estimate` : ''}`}>
+                  <span className="text-[10px] text-neutral-400 shrink-0">
+                    {donePoints}/{totalPoints} pts
+                  </span>
+                </Tooltip>
+              )}
+
               {/* Task counts - compact */}
               <span className="text-[10px] text-neutral-400 shrink-0">
                 {todoCount > 0 ? `${todoCount} todo` : tasks.length > 0 ? `${tasks.length}` : ''}
@@ -203,34 +270,65 @@ export function FeatureSection({
           )}
         </div>
 
-        {/* Bottom row: status dropdown + action buttons (only for features, not ungrouped) */}
+        {/* Bottom row: status and milestone dropdowns + action buttons (only for features, not ungrouped) */}
         {!isUngrouped && !isEditing && (
           <div className="flex items-center justify-between mt-1 -mr-1" onClick={(e) => e.stopPropagation()}>
-            {/* Status dropdown */}
-            {onFeatureStatusChange && (
-              <div className="relative inline-flex items-center">
-                <select
-                  value={feature.status}
-                  onChange={(e) => onFeatureStatusChange(feature.id, e.target.value as FeatureStatus)}
-                  className={cn(
-                    'text-[10px] font-medium rounded-full pl-2 pr-6 py-0.5 border cursor-pointer',
-                    'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1',
-                    'transition-fast appearance-none',
-                    featureStatusColors[feature.status]
-                  )}
-                >
-                  {featureStatusOptions.map((status) => (
-                    <option key={status} value={status}>
-                      {featureStatusLabels[status]}
-                    </option>
-                  ))}
-                </select>
-                <ChevronDown
-                  size={10}
-                  className="absolute right-1.5 pointer-events-none opacity-60"
-                />
-              </div>
-            )}
+            <div className="flex items-center gap-1.5 min-w-0">
+              {/* Status dropdown */}
+              {onFeatureStatusChange && (
+                <div className="relative inline-flex items-center">
+                  <select
+                    value={feature.status}
+                    onChange={(e) => onFeatureStatusChange(feature.id, e.target.value as FeatureStatus)}
+                    className={cn(
+                      'text-[10px] font-medium rounded-full pl-2 pr-6 py-0.5 border cursor-pointer',
+                      'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1',
+                      'transition-fast appearance-none',
+                      featureStatusColors[feature.status]
+                    )}
+                  >
+                    {featureStatusOptions.map((status) => (
+                      <option key={status} value={status}>
+                        {featureStatusLabels[status]}
+                      </option>
+                    ))}
+                  </select>
+                  <ChevronDown
+                    size={10}
+                    className="absolute right-1.5 pointer-events-none opacity-60"
+                  />
+                </div>
+              )}
+
+              {/* Milestone picker */}
+              {onFeatureMilestoneChange && milestones.length > 0 && (
+                <div className="relative inline-flex items-center min-w-0">
+                  <Flag size={10} className="absolute left-1.5 pointer-events-none text-neutral-400" />
+                  <select
+                    value={feature.milestone_id ?? ''}
+                    onChange={(e) => onFeatureMilestoneChange(feature.id, e.target.value || null)}
+                    className={cn(
+                      'text-[10px] font-medium rounded-full pl-5 pr-5 py-0.5 border border-neutral-200 bg-neutral-0 cursor-pointer truncate max-w-[140px]',
+                      'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1',
+                      'transition-fast appearance-none',
+                      feature.milestone_id ? 'text-neutral-600' : 'text-neutral-400'
+                    )}
+                    aria-label="Milestone"
+                  >
+                    <option value="">No milestone</option>
+                    {milestones.map(milestone => (
+                      <option key={milestone.id} value={milestone.id}>
+                        {milestone.title}
+                      </option>
+                    ))}
+                  </select>
+                  <ChevronDown
+                    size={10}
+                    className="absolute right-1.5 pointer-events-none opacity-60"
+                  />
+                </div>
+              )}
+            </div>
 
             {/* Action buttons */}
             <div className="flex items-center gap-0.5">
@@ -315,6 +413,28 @@ export function FeatureSection({
                     onTitleChange={onTaskTitleChange}
                     onDescriptionChange={onTaskDescriptionChange}
                     onDelete={onTaskDelete}
+                    onEstimateChange={onTaskEstimateChange}
+                    onBugFieldsChange={onTaskBugFieldsChange}
+                    allTasks={allTasks}
+                    dependencies={dependencies}
+                    onAddDependency={onAddDependency}
+                    onRemoveDependency={onRemoveDependency}
+                    criteria={criteria}
+                    onAddCriterion={onAddCriterion}
+                    onToggleCriterion={onToggleCriterion}
+                    onDeleteCriterion={onDeleteCriterion}
+                    comments={comments}
+                    onAddComment={onAddComment}
+                    attachments={attachments}
+                    onAddAttachments={onAddAttachments}
+                    onRemoveAttachment={onRemoveAttachment}
+                    onOpenAttachment={onOpenAttachment}
+                    commits={commits}
+                    onOpenCommit={onOpenCommit}
+                    locations={locations}
+                    onOpenLocation={onOpenLocation}
+                    onRemoveLocation={onRemoveLocation}
+                    flowMetrics={flowMetrics}
                   />
                 ))}
               </div>
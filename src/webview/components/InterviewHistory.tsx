@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, MessageSquare, RotateCcw, Eye } from 'lucide-react';
+import { vscode } from '../lib/vscode';
+import { cn } from '../lib/utils';
+import type { InterviewSessionSummary } from '../types';
+
+interface InterviewHistoryProps {
+  // Changes whenever an interview starts or ends so the list is refetched
+  refreshKey: unknown;
+  onClose: () => void;
+}
+
+type Scope = InterviewSessionSummary['scope'];
+type Status = InterviewSessionSummary['status'];
+
+const scopeLabels: Record<Scope, string> = {
+  'project': 'Project',
+  'new-feature': 'New feature',
+  'task': 'Task',
+};
+
+const statusLabels: Record<Status, string> = {
+  'drafting': 'Started',
+  'clarifying': 'In progress',
+  'proposed': 'Awaiting review',
+  'complete': 'Complete',
+  'cancelled': 'Cancelled',
+};
+
+const statusStyles: Record<Status, string> = {
+  'drafting': 'bg-neutral-100 text-neutral-600',
+  'clarifying': 'bg-primary/10 text-primary',
+  'proposed': 'bg-warning/10 text-warning',
+  'complete': 'bg-success/10 text-success',
+  'cancelled': 'bg-neutral-100 text-neutral-500',
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export function InterviewHistory({ refreshKey, onClose }: InterviewHistoryProps) {
+  const [sessions, setSessions] = useState<InterviewSessionSummary[] | null>(null);
+  const [scopeFilter, setScopeFilter] = useState<Scope | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<Status | 'all'>('all');
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'interviewSessions') {
+        setSessions(message.sessions);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    vscode.postMessage({ type: 'getInterviewSessions' });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, [refreshKey]);
+
+  const visible = useMemo(() => (sessions || []).filter(session =>
+    (scopeFilter === 'all' || session.scope === scopeFilter) &&
+    (statusFilter === 'all' || session.status === statusFilter)
+  ), [sessions, scopeFilter, statusFilter]);
+
+  const handleResume = (sessionId: string, rejectedIndex?: number) => {
+    vscode.postMessage({ type: 'resumeInterview', sessionId, rejectedIndex });
+    onClose();
+  };
+
+  const filterClass = 'flex-1 min-w-0 text-xs text-neutral-700 bg-neutral-0 border border-neutral-200 rounded-md px-2 py-1 cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="fixed inset-0 bg-neutral-900/60 flex items-center justify-center z-50 p-2">
+      <div className="bg-neutral-0 rounded-lg shadow-sm border border-neutral-200 w-full max-w-md max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-neutral-200">
+          <h2 className="text-base font-semibold text-neutral-800">
+            Interviews
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-neutral-100 transition-fast"
+          >
+            <X size={18} className="text-neutral-500" />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex gap-2 px-4 pt-3">
+          <select
+            value={scopeFilter}
+            onChange={(e) => setScopeFilter(e.target.value as Scope | 'all')}
+            className={filterClass}
+            aria-label="Filter by scope"
+          >
+            <option value="all">All scopes</option>
+            {(Object.keys(scopeLabels) as Scope[]).map(scope => (
+              <option key={scope} value={scope}>{scopeLabels[scope]}</option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as Status | 'all')}
+            className={filterClass}
+            aria-label="Filter by status"
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(statusLabels) as Status[]).map(status => (
+              <option key={status} value={status}>{statusLabels[status]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-2 overflow-y-auto">
+          {sessions === null ? (
+            <p className="text-sm text-neutral-400 text-center py-6">Loading...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-neutral-400 text-center py-6">
+              {sessions.length > 0 ? 'No interviews match these filters' : 'No interviews yet'}
+            </p>
+          ) : (
+            visible.map(session => {
+              const open = session.status !== 'complete';
+              return (
+                <div key={session.id} className="border border-neutral-200 rounded-lg px-3 py-2">
+                  <div className="flex items-start gap-2">
+                    <MessageSquare size={14} className="text-neutral-400 shrink-0 mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-neutral-700 break-words">
+                        {session.title || `${scopeLabels[session.scope] || session.scope} interview`}
+                      </p>
+                      <p className="text-[10px] text-neutral-400">
+                        {scopeLabels[session.scope] || session.scope} • {formatDate(session.updated_at)}
+                        {session.message_count > 0 && ` • ${session.message_count} ${session.message_count === 1 ? 'reply' : 'replies'}`}
+                      </p>
+                    </div>
+                    <span className={cn('text-[10px] font-medium rounded-full px-2 py-0.5 shrink-0', statusStyles[session.status])}>
+                      {statusLabels[session.status] || session.status}
+                    </span>
+                  </div>
+
+                  {open && (
+                    <div className="flex items-center gap-3 mt-1.5 ml-5">
+                      {session.proposal ? (
+                        <button
+                          onClick={() => handleResume(session.id)}
+                          className="text-xs text-neutral-400 hover:text-primary flex items-center gap-1 min-w-0"
+                        >
+                          <Eye size={12} className="shrink-0" />
+                          <span className="truncate">Review proposal ({session.proposal})</span>
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleResume(session.id)}
+                          className="text-xs text-neutral-400 hover:text-primary flex items-center gap-1"
+                        >
+                          <RotateCcw size={12} />
+                          <span>Resume interview</span>
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {open && session.rejected_proposals.length > 0 && (
+                    <ul className="mt-1.5 ml-5 space-y-1">
+                      {session.rejected_proposals.map((rejected, index) => (
+                        <li key={rejected.rejected_at + index} className="flex items-start gap-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-xs text-neutral-500 break-words">Rejected: {rejected.summary}</p>
+                            {rejected.feedback && (
+                              <p className="text-[10px] text-neutral-400 break-words line-clamp-2">"{rejected.feedback}"</p>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => handleResume(session.id, index)}
+                            className="text-xs text-neutral-400 hover:text-primary flex items-center gap-1 shrink-0"
+                          >
+                            <Eye size={12} />
+                            <span>Review</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
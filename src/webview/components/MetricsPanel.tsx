@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { X, Hourglass } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { formatDuration, elapsedSince } from '../lib/metrics';
+import type { Feature, Task, FlowMetrics, FlowSummary } from '../types';
+
+interface MetricsPanelProps {
+  metrics: FlowMetrics;
+  tasks: Task[];
+  features: Feature[];
+  onClose: () => void;
+}
+
+function SummaryTile({ label, value, hint }: { label: string; value: number | null; hint: string }) {
+  return (
+    <div className="flex-1 min-w-0 border border-neutral-200 rounded-lg px-2 py-1.5">
+      <p className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide">{label}</p>
+      <p className="text-base font-semibold text-neutral-800">{formatDuration(value)}</p>
+      <p className="text-[10px] text-neutral-400 truncate" title={hint}>{hint}</p>
+    </div>
+  );
+}
+
+function summaryCells(summary: FlowSummary) {
+  return [summary.avg_lead_time, summary.avg_cycle_time, summary.avg_review_wait].map((value, i) => (
+    <td key={i} className="px-2 py-1.5 text-right tabular-nums">{formatDuration(value)}</td>
+  ));
+}
+
+export function MetricsPanel({ metrics, tasks, features, onClose }: MetricsPanelProps) {
+  const byTask = useMemo(() => new Map(metrics.tasks.map(m => [m.task_id, m])), [metrics]);
+
+  // Tasks someone is waiting on, longest first
+  const waiting = useMemo(() => tasks
+    .filter(t => t.status === 'in-progress' || t.status === 'ready-for-signoff')
+    .flatMap(t => {
+      const flow = byTask.get(t.id);
+      return flow ? [{ task: t, flow, age: elapsedSince(flow.status_since) }] : [];
+    })
+    .sort((a, b) => b.age - a.age), [tasks, byTask]);
+
+  const done = useMemo(() => tasks
+    .filter(t => t.status === 'done')
+    .flatMap(t => {
+      const flow = byTask.get(t.id);
+      return flow ? [{ task: t, flow }] : [];
+    }), [tasks, byTask]);
+
+  const featureRows = useMemo(() => metrics.features
+    .filter(f => f.done > 0 || f.stale > 0)
+    .map(f => ({
+      ...f,
+      title: f.feature_id ? features.find(feature => feature.id === f.feature_id)?.title || 'Archived feature' : 'Ungrouped'
+    })), [metrics, features]);
+
+  const { overall } = metrics;
+
+  return (
+    <div className="fixed inset-0 bg-neutral-900/60 flex items-center justify-center z-50 p-2">
+      <div className="bg-neutral-0 rounded-lg shadow-sm border border-neutral-200 w-full max-w-md max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-neutral-200">
+          <h2 className="text-base font-semibold text-neutral-800">
+            Flow metrics
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-neutral-100 transition-fast"
+          >
+            <X size={18} className="text-neutral-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex gap-2">
+            <SummaryTile label="Lead time" value={overall.avg_lead_time} hint={`Created to done, ${overall.done} done`} />
+            <SummaryTile label="Cycle time" value={overall.avg_cycle_time} hint="Started to done" />
+            <SummaryTile label="Review wait" value={overall.avg_review_wait} hint="Ready for signoff" />
+          </div>
+
+          <section>
+            <h3 className="text-xs font-medium text-neutral-500 uppercase tracking-wide mb-1">Waiting now</h3>
+            {waiting.length === 0 ? (
+              <p className="text-sm text-neutral-400">Nothing in progress or waiting for review</p>
+            ) : (
+              <ul className="divide-y divide-neutral-100 border border-neutral-200 rounded-lg">
+                {waiting.map(({ task, flow, age }) => (
+                  <li key={task.id} className="flex items-center gap-2 px-3 py-1.5">
+                    <span className="flex-1 min-w-0 text-sm text-neutral-700 truncate" title={task.title}>{task.title}</span>
+                    <span className="text-[10px] text-neutral-400 shrink-0">
+                      {task.status === 'ready-for-signoff' ? 'Review' : 'In progress'}
+                    </span>
+                    <span className={cn(
+                      'inline-flex items-center gap-0.5 text-xs tabular-nums shrink-0',
+                      flow.stale ? 'text-warning font-medium' : 'text-neutral-600'
+                    )}>
+                      {flow.stale && <Hourglass size={10} />}
+                      {formatDuration(age)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-[10px] text-neutral-400 mt-1">
+              {metrics.stale_after_hours > 0
+                ? `Flagged after ${metrics.stale_after_hours}h (shepherd.staleTaskHours)`
+                : 'Stale flags are off (shepherd.staleTaskHours)'}
+            </p>
+          </section>
+
+          {featureRows.length > 0 && (
+            <section>
+              <h3 className="text-xs font-medium text-neutral-500 uppercase tracking-wide mb-1">By feature (average)</h3>
+              <table className="w-full text-xs text-neutral-700 border border-neutral-200 rounded-lg">
+                <thead className="text-[10px] text-neutral-400 uppercase">
+                  <tr className="border-b border-neutral-200">
+                    <th className="px-2 py-1 text-left font-medium">Feature</th>
+                    <th className="px-2 py-1 text-right font-medium">Done</th>
+                    <th className="px-2 py-1 text-right font-medium">Lead</th>
+                    <th className="px-2 py-1 text-right font-medium">Cycle</th>
+                    <th className="px-2 py-1 text-right font-medium">Review</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-100">
+                  {featureRows.map(row => (
+                    <tr key={row.feature_id ?? '__ungrouped__'}>
+                      <td className="px-2 py-1.5 max-w-[8rem] truncate" title={row.title}>{row.title}</td>
+                      <td className="px-2 py-1.5 text-right tabular-nums">{row.done}/{row.tasks}</td>
+                      {summaryCells(row)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {done.length > 0 && (
+            <section>
+              <h3 className="text-xs font-medium text-neutral-500 uppercase tracking-wide mb-1">Done on the board</h3>
+              <ul className="divide-y divide-neutral-100 border border-neutral-200 rounded-lg">
+                {done.map(({ task, flow }) => (
+                  <li key={task.id} className="px-3 py-1.5">
+                    <p className="text-sm text-neutral-700 truncate" title={task.title}>{task.title}</p>
+                    <p className="text-[10px] text-neutral-400">
+                      Lead {formatDuration(flow.lead_time)} • Cycle {formatDuration(flow.cycle_time)} • Review {formatDuration(flow.review_wait)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Flag, Pencil, Trash2, Check, X, PackageCheck, RotateCcw } from 'lucide-react';
+import { Button, Tooltip } from './ui';
+import { cn } from '../lib/utils';
+import type { Milestone } from '../types';
+
+interface MilestoneHeaderProps {
+  milestone: Milestone;
+  // Progress over the tasks of the features in this milestone
+  doneTasks: number;
+  totalTasks: number;
+  onUpdate: (id: string, updates: Partial<Milestone>) => void;
+  onDelete: (id: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatTargetDate(targetDate: string): string {
+  const date = new Date(`${targetDate}T00:00:00`);
+  const sameYear = date.getFullYear() === new Date().getFullYear();
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: sameYear ? undefined : 'numeric' });
+}
+
+/**
+ * "in 5 days", "today" or "3 days overdue", counted in whole local days
+ */
+function dueLabel(targetDate: string): { text: string; overdue: boolean } {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = Math.round((new Date(`${targetDate}T00:00:00`).getTime() - today.getTime()) / DAY_MS);
+  if (days === 0) return { text: 'due today', overdue: false };
+  if (days > 0) return { text: `in ${days} day${days === 1 ? '' : 's'}`, overdue: false };
+  return { text: `${-days} day${days === -1 ? '' : 's'} overdue`, overdue: true };
+}
+
+export function MilestoneHeader({ milestone, doneTasks, totalTasks, onUpdate, onDelete }: MilestoneHeaderProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTitle, setEditTitle] = useState(milestone.title);
+  const [editDate, setEditDate] = useState(milestone.target_date || '');
+
+  const released = milestone.status === 'released';
+  const due = milestone.target_date && !released ? dueLabel(milestone.target_date) : null;
+
+  const handleSave = () => {
+    if (editTitle.trim()) {
+      onUpdate(milestone.id, { title: editTitle.trim(), target_date: editDate || null });
+    }
+    setIsEditing(false);
+  };
+
+  const handleCancel = () => {
+    setEditTitle(milestone.title);
+    setEditDate(milestone.target_date || '');
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-1 min-w-0">
+        <Flag size={14} className="text-neutral-400 shrink-0" />
+        <input
+          type="text"
+          value={editTitle}
+          onChange={(e) => setEditTitle(e.target.value)}
+          className="flex-1 min-w-0 text-sm font-medium text-neutral-800 bg-neutral-0 border border-neutral-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary"
+          autoFocus
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') handleCancel();
+          }}
+        />
+        <input
+          type="date"
+          value={editDate}
+          onChange={(e) => setEditDate(e.target.value)}
+          className="text-xs text-neutral-700 bg-neutral-0 border border-neutral-300 rounded px-1.5 py-1 focus:outline-none focus:ring-2 focus:ring-primary"
+          aria-label="Target date"
+        />
+        <Button variant="ghost" size="icon" onClick={handleSave} className="h-6 w-6 text-success hover:bg-success/10 shrink-0">
+          <Check size={12} />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={handleCancel} className="h-6 w-6 text-neutral-500 hover:text-neutral-700 shrink-0">
+          <X size={12} />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group flex items-center gap-1.5 min-w-0">
+      <Flag size={14} className={cn('shrink-0', released ? 'text-success' : 'text-primary')} />
+      <span className={cn('text-sm font-medium truncate', released ? 'text-neutral-500' : 'text-neutral-800')}>
+        {milestone.title}
+      </span>
+      {milestone.target_date && (
+        <span className="text-xs text-neutral-400 shrink-0">
+          {formatTargetDate(milestone.target_date)}
+        </span>
+      )}
+      {due && (
+        <span className={cn('text-[10px] shrink-0', due.overdue ? 'text-danger' : 'text-neutral-400')}>
+          {due.text}
+        </span>
+      )}
+      {released && <span className="text-[10px] text-success shrink-0">Released</span>}
+
+      <span className="flex-1" />
+
+      {totalTasks > 0 && (
+        <span className="text-[10px] text-neutral-400 shrink-0">
+          {doneTasks}/{totalTasks} done
+        </span>
+      )}
+      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-fast">
+        <Tooltip content={released ? 'Reopen milestone' : 'Mark released'}>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onUpdate(milestone.id, { status: released ? 'open' : 'released' })}
+            className="h-6 w-6 text-neutral-400 hover:text-success hover:bg-success/10"
+          >
+            {released ? <RotateCcw size={12} /> : <PackageCheck size={12} />}
+          </Button>
+        </Tooltip>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsEditing(true)}
+          className="h-6 w-6 text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
+        >
+          <Pencil size={12} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onDelete(milestone.id)}
+          className="h-6 w-6 text-neutral-400 hover:text-danger hover:bg-danger/10"
+        >
+          <Trash2 size={12} />
+        </Button>
+      </div>
+    </div>
+  );
+}
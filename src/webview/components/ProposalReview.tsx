@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Check, RefreshCw, FileText, ListTodo, Palette, Trash2, ChevronDown, ChevronRight, Send } from 'lucide-react';
+import { Check, RefreshCw, FileText, ListTodo, Palette, Trash2, ChevronDown, ChevronRight, Send, Square } from 'lucide-react';
 import { Button } from './ui';
 import { RecordButton } from './RecordButton';
 import { DiffView } from './DiffView';
 import { cn } from '../lib/utils';
+import { ESTIMATE_SIZES } from '../types';
 import type { InterviewProposal } from '../types';
 
 interface ExistingFeatureRef {
@@ -21,6 +22,31 @@ interface ProposalReviewProps {
   onCancel: () => void;
 }
 
+// Acceptance criteria proposed for a task, shown as an unticked checklist
+function EstimateBadge({ estimate }: { estimate?: number }) {
+  const size = ESTIMATE_SIZES.find(s => s.points === estimate);
+  if (!size) return null;
+  return (
+    <span className="ml-1.5 text-[10px] font-medium text-neutral-400" title={`Suggested estimate: ${size.points} points`}>
+      {size.label}
+    </span>
+  );
+}
+
+function CriteriaList({ criteria }: { criteria?: string[] }) {
+  if (!criteria || criteria.length === 0) return null;
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {criteria.map((criterion, idx) => (
+        <li key={idx} className="flex items-start gap-1.5 text-xs text-neutral-500">
+          <Square size={10} className="mt-0.5 shrink-0 text-neutral-400" />
+          <span>{criterion}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export function ProposalReview({
   scope,
   proposal,
@@ -239,9 +265,11 @@ export function ProposalReview({
                             <span className="text-neutral-400 mt-0.5">•</span>
                             <div className="flex-1">
                               <span className="text-sm text-neutral-700">{task.title}</span>
+                              <EstimateBadge estimate={task.estimate} />
                               {task.description && (
                                 <p className="text-xs text-neutral-500 mt-1">{task.description}</p>
                               )}
+                              <CriteriaList criteria={task.acceptanceCriteria} />
                             </div>
                             <button
                               onClick={() => setRemovedTasks(prev => new Set([...prev, task.originalIndex]))}
@@ -288,9 +316,11 @@ export function ProposalReview({
                             <span className="text-neutral-400 mt-0.5">•</span>
                             <div className="flex-1">
                               <span className="text-sm text-neutral-700">{task.title}</span>
+                              <EstimateBadge estimate={task.estimate} />
                               {task.description && (
                                 <p className="text-xs text-neutral-500 mt-1">{task.description}</p>
                               )}
+                              <CriteriaList criteria={task.acceptanceCriteria} />
                             </div>
                             <button
                               onClick={() => setRemovedTasks(prev => new Set([...prev, task.originalIndex]))}
@@ -324,9 +354,11 @@ export function ProposalReview({
                           </span>
                           <div className="flex-1">
                             <span className="text-sm text-neutral-700">{task.title}</span>
+                            <EstimateBadge estimate={task.estimate} />
                             {task.description && (
                               <p className="text-xs text-neutral-500 mt-1">{task.description}</p>
                             )}
+                            <CriteriaList criteria={task.acceptanceCriteria} />
                           </div>
                           <button
                             onClick={() => setRemovedTasks(prev => new Set([...prev, task.originalIndex]))}
@@ -1,17 +1,19 @@
 import React, { useState } from 'react';
-import { FileText, Trash2, Palette, Pencil } from 'lucide-react';
+import { FileText, Trash2, Palette, Pencil, History } from 'lucide-react';
 import type { Requirement } from '../types';
 
 interface RequirementsListProps {
   requirements: Requirement[];
   onOpenRequirement: (path: string) => void;
   onDeleteRequirement: (path: string) => void;
+  onOpenInterviews: () => void;
 }
 
 export function RequirementsList({
   requirements,
   onOpenRequirement,
-  onDeleteRequirement
+  onDeleteRequirement,
+  onOpenInterviews
 }: RequirementsListProps) {
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
 
@@ -34,6 +36,13 @@ export function RequirementsList({
       {/* Shepherd: Section title text-base font-medium */}
       <div className="flex items-center justify-between mb-3">
         <h2 className="text-base font-medium text-neutral-800">Requirements</h2>
+        <button
+          onClick={onOpenInterviews}
+          className="flex items-center gap-1 text-xs text-neutral-400 hover:text-neutral-600"
+        >
+          <History size={12} />
+          <span>Interviews</span>
+        </button>
       </div>
 
       <div className="space-y-2">
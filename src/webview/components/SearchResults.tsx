@@ -0,0 +1,89 @@
+import React from 'react';
+import { FileText, FolderKanban, ListTodo, Bug } from 'lucide-react';
+import { SEARCH_MATCH_START, SEARCH_MATCH_END } from '../types';
+import type { SearchResult, Task } from '../types';
+
+interface SearchResultsProps {
+  query: string;
+  // null while the first results for this query are on their way
+  results: SearchResult[] | null;
+  tasks: Task[];
+  onSelect: (result: SearchResult) => void;
+}
+
+const statusLabels: Record<string, string> = {
+  'todo': 'To Do',
+  'in-progress': 'In Progress',
+  'ready-for-signoff': 'Review',
+  'done': 'Done',
+  'rework': 'Rework',
+  'active': 'Active'
+};
+
+/**
+ * Render text with the matched terms (between the search markers) highlighted
+ */
+function Highlighted({ text }: { text: string }) {
+  const [head, ...rest] = text.split(SEARCH_MATCH_START);
+  return (
+    <>
+      {head}
+      {rest.map((part, i) => {
+        const [match, after = ''] = part.split(SEARCH_MATCH_END);
+        return (
+          <React.Fragment key={i}>
+            <mark className="bg-primary/20 text-inherit rounded-sm px-0.5">{match}</mark>
+            {after}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+function ResultIcon({ result, tasks }: { result: SearchResult; tasks: Task[] }) {
+  if (result.kind === 'requirement') return <FileText size={14} className="text-neutral-400 shrink-0 mt-0.5" />;
+  if (result.kind === 'feature') return <FolderKanban size={14} className="text-neutral-400 shrink-0 mt-0.5" />;
+  const isBug = tasks.find(t => t.id === result.id)?.type === 'bug';
+  return isBug
+    ? <Bug size={14} className="text-danger shrink-0 mt-0.5" />
+    : <ListTodo size={14} className="text-neutral-400 shrink-0 mt-0.5" />;
+}
+
+export function SearchResults({ query, results, tasks, onSelect }: SearchResultsProps) {
+  return (
+    <div className="mb-4 border border-neutral-200 rounded-lg bg-neutral-0 overflow-hidden">
+      {results === null ? (
+        <p className="text-sm text-neutral-400 text-center py-4">Searching...</p>
+      ) : results.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-4">No results for "{query.trim()}"</p>
+      ) : (
+        <ul className="divide-y divide-neutral-100 max-h-[60vh] overflow-y-auto">
+          {results.map(result => (
+            <li key={`${result.kind}:${result.id}`}>
+              <button
+                onClick={() => onSelect(result)}
+                className="w-full text-left flex items-start gap-2 px-3 py-2 hover:bg-neutral-50 transition-fast"
+              >
+                <ResultIcon result={result} tasks={tasks} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-neutral-700 break-words">
+                    <Highlighted text={result.title} />
+                  </p>
+                  {result.snippet && (
+                    <p className="text-xs text-neutral-500 break-words line-clamp-2">
+                      <Highlighted text={result.snippet} />
+                    </p>
+                  )}
+                </div>
+                <span className="text-[10px] text-neutral-400 shrink-0 mt-0.5">
+                  {result.archived ? 'Archived' : result.kind === 'requirement' ? 'Doc' : statusLabels[result.status || ''] || ''}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
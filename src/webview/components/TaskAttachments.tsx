@@ -0,0 +1,82 @@
+import React from 'react';
+import { FileText, Image, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { filesFromTransfer, formatSize, isImageName } from '../lib/attachments';
+import type { TaskAttachment } from '../types';
+
+interface TaskAttachmentsProps {
+  attachments: TaskAttachment[];
+  onOpen: (name: string) => void;
+  onRemove?: (name: string) => void;
+  onAdd?: (files: File[]) => void;
+}
+
+export function TaskAttachments({ attachments, onOpen, onRemove, onAdd }: TaskAttachmentsProps) {
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = filesFromTransfer(e.clipboardData);
+    if (files.length > 0 && onAdd) {
+      e.preventDefault();
+      onAdd(files);
+    }
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) onAdd?.(files);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="pl-6 pt-2 border-t border-neutral-100">
+      <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide block mb-1">Attachments</span>
+      {attachments.length === 0 ? (
+        <p className="text-[10px] text-neutral-400">No attachments yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {attachments.map(attachment => {
+            const Icon = isImageName(attachment.name) ? Image : FileText;
+            return (
+              <li key={attachment.name} className="group flex items-center gap-1.5 min-w-0">
+                <Icon size={12} className="text-neutral-400 shrink-0" />
+                <button
+                  onClick={() => onOpen(attachment.name)}
+                  className="text-xs text-neutral-600 hover:text-primary truncate text-left"
+                  title={attachment.path}
+                >
+                  {attachment.name}
+                </button>
+                <span className="text-[10px] text-neutral-400 shrink-0">{formatSize(attachment.size)}</span>
+                {onRemove && (
+                  <button
+                    onClick={() => onRemove(attachment.name)}
+                    className="ml-auto p-0.5 rounded text-neutral-300 hover:text-danger opacity-0 group-hover:opacity-100 focus:opacity-100 shrink-0"
+                    aria-label={`Remove ${attachment.name}`}
+                  >
+                    <X size={10} />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {onAdd && (
+        <div
+          tabIndex={0}
+          onPaste={handlePaste}
+          className={cn(
+            'mt-2 flex items-center justify-between gap-2 text-[10px] text-neutral-400 border border-dashed border-neutral-200 rounded px-2 py-1.5',
+            'focus:outline-none focus:ring-2 focus:ring-primary'
+          )}
+        >
+          <span>Drop files (hold Shift) or click here and paste a screenshot</span>
+          <label className="text-primary hover:underline cursor-pointer shrink-0">
+            Browse
+            <input type="file" multiple className="hidden" onChange={handlePick} />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { Task } from '../types';
+
+interface TaskBlockersProps {
+  blockers: Task[];
+  // Tasks that can still be added as blockers
+  candidates: Task[];
+  isAdding: boolean;
+  onAdd: (blockedById: string) => void;
+  onRemove: (blockedById: string) => void;
+}
+
+// Blockers that are implemented (done or awaiting signoff) no longer block
+export function isBlockerResolved(blocker: Task): boolean {
+  return blocker.status === 'done' || blocker.status === 'ready-for-signoff';
+}
+
+export function TaskBlockers({ blockers, candidates, isAdding, onAdd, onRemove }: TaskBlockersProps) {
+  return (
+    <div className="pl-6 flex flex-wrap items-center gap-1">
+      <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide mr-1">Blocked by</span>
+      {blockers.map(blocker => (
+        <span
+          key={blocker.id}
+          className={cn(
+            'inline-flex items-center gap-0.5 max-w-[12rem] text-[10px] rounded-full pl-2 pr-1 py-0.5 border',
+            isBlockerResolved(blocker)
+              ? 'bg-success/10 text-success border-success/20'
+              : 'bg-danger/10 text-danger border-danger/20'
+          )}
+          title={blocker.title}
+        >
+          <span className="truncate">{blocker.title}</span>
+          <button
+            onClick={() => onRemove(blocker.id)}
+            className="opacity-60 hover:opacity-100 focus:outline-none"
+            aria-label="Remove blocker"
+          >
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      {isAdding && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onAdd(e.target.value)}
+          className="text-[10px] text-neutral-600 bg-neutral-0 border border-neutral-300 rounded px-1 py-0.5 max-w-[12rem] focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">{candidates.length > 0 ? 'Add blocker...' : 'No tasks available'}</option>
+          {candidates.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.title}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
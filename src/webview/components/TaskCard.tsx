@@ -1,11 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical, Trash2, Pencil, Check, X, ChevronDown, Play, Bug } from 'lucide-react';
+import { GripVertical, Trash2, Pencil, Check, X, ChevronDown, Play, Bug, History, Link2, Lock, ListChecks, MessageSquare, Paperclip, GitCommit, Hourglass } from 'lucide-react';
 import { Button } from './ui';
 import { Tooltip } from './Tooltip';
+import { TaskHistory } from './TaskHistory';
+import { TaskBlockers, isBlockerResolved } from './TaskBlockers';
+import { TaskCriteria } from './TaskCriteria';
+import { TaskComments } from './TaskComments';
+import { TaskAttachments } from './TaskAttachments';
+import { TaskCommits } from './TaskCommits';
+import { TaskLocations } from './TaskLocations';
+import { BugReport, hasBugReport } from './BugReport';
 import { cn } from '../lib/utils';
-import type { Task, TaskStatus } from '../types';
+import { filesFromTransfer, isFileDrag } from '../lib/attachments';
+import { formatDuration, elapsedSince } from '../lib/metrics';
+import { ESTIMATE_SIZES, BUG_SEVERITIES } from '../types';
+import type { Task, TaskDependency, AcceptanceCriterion, TaskComment, CommentKind, TaskStatus, TaskAttachment, TaskCommit, TaskLocation, TaskFlowMetrics, BugFields, BugSeverity } from '../types';
 
 interface TaskCardProps {
   task: Task;
@@ -17,6 +28,35 @@ interface TaskCardProps {
   onTitleChange: (id: string, title: string) => void;
   onDescriptionChange: (id: string, description: string) => void;
   onDelete: (id: string) => void;
+  // Without it the estimate is shown read-only
+  onEstimateChange?: (id: string, estimate: number | null) => void;
+  // Without it a bug's severity and report are shown read-only
+  onBugFieldsChange?: (id: string, fields: Partial<BugFields>) => void;
+  // Needed to show and edit "blocked by" dependencies
+  allTasks?: Task[];
+  dependencies?: TaskDependency[];
+  onAddDependency?: (taskId: string, blockedById: string) => void;
+  onRemoveDependency?: (taskId: string, blockedById: string) => void;
+  criteria?: AcceptanceCriterion[];
+  onAddCriterion?: (taskId: string, text: string) => void;
+  onToggleCriterion?: (id: string, checked: boolean) => void;
+  onDeleteCriterion?: (id: string) => void;
+  comments?: TaskComment[];
+  onAddComment?: (taskId: string, body: string, kind: CommentKind) => void;
+  // Files can be dropped on the card or pasted while editing when onAddAttachments is given
+  attachments?: TaskAttachment[];
+  onAddAttachments?: (taskId: string, files: File[]) => void;
+  onRemoveAttachment?: (taskId: string, name: string) => void;
+  onOpenAttachment?: (taskId: string, name: string) => void;
+  // Commits linked to the task after a build
+  commits?: TaskCommit[];
+  onOpenCommit?: (sha: string) => void;
+  // Code the task is about; clicking one reveals it in the editor
+  locations?: TaskLocation[];
+  onOpenLocation?: (id: string) => void;
+  onRemoveLocation?: (id: string) => void;
+  // Time-in-status metrics; flags tasks stuck in progress or waiting for review
+  flowMetrics?: TaskFlowMetrics[];
 }
 
 const statusLabels: Record<TaskStatus, string> = {
@@ -37,11 +77,39 @@ const statusColors: Record<TaskStatus, string> = {
 
 const statusOptions: TaskStatus[] = ['todo', 'in-progress', 'ready-for-signoff', 'done', 'rework'];
 
-export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onStatusChange, onTitleChange, onDescriptionChange, onDelete }: TaskCardProps) {
+const BUG_TEXT_FIELDS: { key: Exclude<keyof BugFields, 'severity'>; label: string; placeholder: string; rows: number }[] = [
+  { key: 'repro_steps', label: 'Steps to reproduce', placeholder: '1. Open...', rows: 3 },
+  { key: 'expected_result', label: 'Expected result', placeholder: 'What should happen', rows: 2 },
+  { key: 'actual_result', label: 'Actual result', placeholder: 'What happens instead', rows: 2 },
+  { key: 'environment', label: 'Environment', placeholder: 'OS, browser, version...', rows: 1 },
+];
+
+function bugFieldsOf(task: Task): BugFields {
+  return {
+    severity: task.severity,
+    repro_steps: task.repro_steps,
+    expected_result: task.expected_result,
+    actual_result: task.actual_result,
+    environment: task.environment
+  };
+}
+
+export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onStatusChange, onTitleChange, onDescriptionChange, onDelete, onEstimateChange, onBugFieldsChange, allTasks = [], dependencies = [], onAddDependency, onRemoveDependency, criteria = [], onAddCriterion, onToggleCriterion, onDeleteCriterion, comments = [], onAddComment, attachments = [], onAddAttachments, onRemoveAttachment, onOpenAttachment, commits = [], onOpenCommit, locations = [], onOpenLocation, onRemoveLocation, flowMetrics = [] }: TaskCardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAddingBlocker, setIsAddingBlocker] = useState(false);
+  // Criteria are shown up front while the task awaits signoff
+  const [isCriteriaOpen, setIsCriteriaOpen] = useState(task.status === 'ready-for-signoff');
+  // Rework feedback lives in the thread, so show it while the task is in rework
+  const [isCommentsOpen, setIsCommentsOpen] = useState(task.status === 'rework');
+  const [isAttachmentsOpen, setIsAttachmentsOpen] = useState(false);
+  const [isBugReportOpen, setIsBugReportOpen] = useState(false);
+  const [isCommitsOpen, setIsCommitsOpen] = useState(false);
+  const [isFileOver, setIsFileOver] = useState(false);
   const [editTitle, setEditTitle] = useState(task.title);
   const [editDescription, setEditDescription] = useState(task.description || '');
+  const [editBug, setEditBug] = useState<BugFields>(bugFieldsOf(task));
   const titleInputRef = useRef<HTMLInputElement>(null);
 
   const {
@@ -58,6 +126,39 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
     transition,
   };
 
+  const blockerIds = new Set(dependencies.filter(d => d.task_id === task.id).map(d => d.blocked_by_id));
+  const blockers = allTasks.filter(t => blockerIds.has(t.id));
+  const blockerCandidates = allTasks.filter(t => t.id !== task.id && !blockerIds.has(t.id) && t.status !== 'done');
+  const isBlocked = blockers.some(b => !isBlockerResolved(b));
+
+  const taskCriteria = criteria.filter(c => c.task_id === task.id);
+  const checkedCriteriaCount = taskCriteria.filter(c => c.checked).length;
+
+  const taskComments = comments.filter(c => c.task_id === task.id);
+
+  const taskAttachments = attachments.filter(a => a.task_id === task.id);
+
+  const taskCommits = commits.filter(c => c.task_id === task.id);
+
+  const taskLocations = locations.filter(l => l.task_id === task.id);
+
+  const flow = flowMetrics.find(m => m.task_id === task.id);
+  const staleFor = flow?.stale ? formatDuration(elapsedSince(flow.status_since)) : null;
+
+  const estimateSize = ESTIMATE_SIZES.find(s => s.points === task.estimate);
+
+  const severity = task.type === 'bug' ? BUG_SEVERITIES.find(s => s.value === task.severity) : undefined;
+  const canEditBug = task.type === 'bug' && !!onBugFieldsChange;
+
+  useEffect(() => {
+    if (task.status === 'ready-for-signoff') {
+      setIsCriteriaOpen(true);
+    }
+    if (task.status === 'rework') {
+      setIsCommentsOpen(true);
+    }
+  }, [task.status]);
+
   useEffect(() => {
     if (isEditing && titleInputRef.current) {
       titleInputRef.current.focus();
@@ -68,6 +169,7 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
   const handleStartEdit = () => {
     setEditTitle(task.title);
     setEditDescription(task.description || '');
+    setEditBug(bugFieldsOf(task));
     setIsEditing(true);
   };
 
@@ -78,15 +180,56 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
     if (editDescription.trim() !== (task.description || '')) {
       onDescriptionChange(task.id, editDescription.trim());
     }
+    if (canEditBug) {
+      const changed: Partial<BugFields> = {};
+      for (const key of Object.keys(editBug) as (keyof BugFields)[]) {
+        const value = editBug[key]?.trim() || null;
+        if (value !== task[key]) {
+          Object.assign(changed, { [key]: value });
+        }
+      }
+      if (Object.keys(changed).length > 0) {
+        onBugFieldsChange(task.id, changed);
+      }
+    }
     setIsEditing(false);
   };
 
   const handleCancel = () => {
     setEditTitle(task.title);
     setEditDescription(task.description || '');
+    setEditBug(bugFieldsOf(task));
     setIsEditing(false);
   };
 
+  const attachFiles = (files: File[]) => {
+    if (files.length === 0 || !onAddAttachments) return;
+    onAddAttachments(task.id, files);
+    setIsAttachmentsOpen(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onAddAttachments || !isFileDrag(e)) return;
+    e.preventDefault();
+    setIsFileOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onAddAttachments || !isFileDrag(e)) return;
+    e.preventDefault();
+    setIsFileOver(false);
+    attachFiles(filesFromTransfer(e.dataTransfer));
+  };
+
+  // A screenshot pasted into the description is attached rather than lost
+  const handleDescriptionPaste = (e: React.ClipboardEvent) => {
+    const files = filesFromTransfer(e.clipboardData);
+    if (files.length > 0 && onAddAttachments) {
+      e.preventDefault();
+      attachFiles(files);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       handleCancel();
@@ -101,11 +244,19 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
     <div
       ref={setNodeRef}
       style={style}
+      data-task-id={task.id}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Leaving for a child element is not leaving the card
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsFileOver(false);
+      }}
+      onDrop={handleDrop}
       className={cn(
         'bg-neutral-0 border border-neutral-200 rounded-md p-4',
         'transition-fast',
         'hover:border-neutral-300 hover:bg-neutral-50',
-        isDragging && 'opacity-50 border-dashed border-primary'
+        isDragging && 'opacity-50 border-dashed border-primary',
+        isFileOver && 'border-dashed border-primary bg-primary/5'
       )}
     >
       {isEditing ? (
@@ -137,12 +288,50 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
                 value={editDescription}
                 onChange={(e) => setEditDescription(e.target.value)}
                 onKeyDown={handleKeyDown}
+                onPaste={handleDescriptionPaste}
                 rows={4}
                 className="w-full text-sm text-neutral-600 bg-neutral-0 border border-neutral-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none"
                 placeholder="Add description..."
               />
             </div>
 
+            {/* Bug report fields */}
+            {canEditBug && (
+              <>
+                <div>
+                  <label className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide mb-1 block">
+                    Severity
+                  </label>
+                  <select
+                    value={editBug.severity ?? ''}
+                    onChange={(e) => setEditBug(prev => ({ ...prev, severity: (e.target.value || null) as BugSeverity | null }))}
+                    onKeyDown={handleKeyDown}
+                    className="w-full text-sm text-neutral-700 bg-neutral-0 border border-neutral-300 rounded px-3 py-2 cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                  >
+                    <option value="">Not set</option>
+                    {BUG_SEVERITIES.map(s => (
+                      <option key={s.value} value={s.value}>{s.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {BUG_TEXT_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide mb-1 block">
+                      {field.label}
+                    </label>
+                    <textarea
+                      value={editBug[field.key] ?? ''}
+                      onChange={(e) => setEditBug(prev => ({ ...prev, [field.key]: e.target.value }))}
+                      onKeyDown={handleKeyDown}
+                      rows={field.rows}
+                      className="w-full text-sm text-neutral-600 bg-neutral-0 border border-neutral-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none"
+                      placeholder={field.placeholder}
+                    />
+                  </div>
+                ))}
+              </>
+            )}
+
             {/* Action buttons */}
             <div className="flex items-center justify-between pt-2 border-t border-neutral-100">
               <div className="flex items-center gap-2">
@@ -207,6 +396,25 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
                 )}>
                   {task.type === 'bug' ? 'Bug' : 'Task'}
                 </span>
+                {severity && (
+                  <span className={cn('text-[10px] font-medium uppercase tracking-wide rounded px-1 shrink-0', severity.className)}>
+                    {severity.label}
+                  </span>
+                )}
+                {staleFor && (
+                  <Tooltip content={task.status === 'ready-for-signoff' ? `Waiting for review for ${staleFor}` : `In progress for ${staleFor}`}>
+                    <span className="inline-flex items-center gap-0.5 text-[10px] font-medium uppercase tracking-wide text-warning shrink-0 cursor-default">
+                      <Hourglass size={10} />
+                      {staleFor}
+                    </span>
+                  </Tooltip>
+                )}
+                {isBlocked && (
+                  <span className="inline-flex items-center gap-0.5 text-[10px] font-medium uppercase tracking-wide text-danger shrink-0">
+                    <Lock size={10} />
+                    Blocked
+                  </span>
+                )}
                 <p
                   className="text-sm font-semibold text-neutral-800 leading-snug cursor-pointer hover:text-primary break-words"
                   onClick={handleStartEdit}
@@ -228,6 +436,30 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
                   {task.description}
                 </p>
               )}
+
+              {/* Code locations */}
+              {taskLocations.length > 0 && (
+                <TaskLocations
+                  locations={taskLocations}
+                  onOpen={(id) => onOpenLocation?.(id)}
+                  onRemove={onRemoveLocation}
+                />
+              )}
+
+              {/* Bug report - collapsed by default */}
+              {hasBugReport(task) && (
+                <div className="mt-1">
+                  <button
+                    onClick={() => setIsBugReportOpen(!isBugReportOpen)}
+                    className="inline-flex items-center gap-0.5 text-[10px] font-medium text-neutral-400 hover:text-neutral-600"
+                    aria-expanded={isBugReportOpen}
+                  >
+                    <ChevronDown size={10} className={cn('transition-fast', !isBugReportOpen && '-rotate-90')} />
+                    Bug report
+                  </button>
+                  {isBugReportOpen && <BugReport task={task} />}
+                </div>
+              )}
             </div>
           </div>
 
@@ -257,6 +489,57 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
               />
             </div>
 
+            {/* Estimate (t-shirt size) */}
+            {onEstimateChange ? (
+              <div className={cn('ml-2 relative inline-flex items-center', taskCriteria.length === 0 && 'mr-auto')}>
+                <select
+                  value={task.estimate ?? ''}
+                  onChange={(e) => onEstimateChange(task.id, e.target.value ? Number(e.target.value) : null)}
+                  className={cn(
+                    'text-[10px] font-medium rounded-full pl-2 pr-5 py-0.5 border border-neutral-200 bg-neutral-0 cursor-pointer',
+                    'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1',
+                    'transition-fast appearance-none',
+                    estimateSize ? 'text-neutral-600' : 'text-neutral-400'
+                  )}
+                  aria-label="Estimate"
+                  title={estimateSize ? `${estimateSize.points} points` : 'Not estimated'}
+                >
+                  <option value="">Size</option>
+                  {ESTIMATE_SIZES.map(size => (
+                    <option key={size.points} value={size.points}>
+                      {size.label} · {size.points} pt{size.points === 1 ? '' : 's'}
+                    </option>
+                  ))}
+                </select>
+                <ChevronDown
+                  size={10}
+                  className="absolute right-1.5 pointer-events-none opacity-60"
+                />
+              </div>
+            ) : estimateSize && (
+              <span
+                className={cn('ml-2 text-[10px] font-medium text-neutral-400', taskCriteria.length === 0 && 'mr-auto')}
+                title={`${estimateSize.points} points`}
+              >
+                {estimateSize.label}
+              </span>
+            )}
+
+            {/* Acceptance criteria progress */}
+            {taskCriteria.length > 0 && (
+              <button
+                onClick={() => setIsCriteriaOpen(!isCriteriaOpen)}
+                className={cn(
+                  'ml-2 mr-auto inline-flex items-center gap-1 text-[10px] font-medium',
+                  checkedCriteriaCount === taskCriteria.length ? 'text-success' : 'text-neutral-400 hover:text-neutral-600'
+                )}
+                aria-label="Toggle acceptance criteria"
+              >
+                <ListChecks size={12} />
+                {checkedCriteriaCount}/{taskCriteria.length}
+              </button>
+            )}
+
             {/* Action buttons */}
             <div className="flex items-center">
               {onBuild && (
@@ -276,6 +559,91 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
                   <Play size={12} />
                 </Button>
               )}
+              {onAddCriterion && taskCriteria.length === 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsCriteriaOpen(!isCriteriaOpen)}
+                  className={cn(
+                    "h-7 w-7 hover:bg-neutral-100",
+                    isCriteriaOpen ? "text-neutral-600" : "text-neutral-300 hover:text-neutral-600"
+                  )}
+                  aria-label="Add acceptance criteria"
+                >
+                  <ListChecks size={12} />
+                </Button>
+              )}
+              {onAddDependency && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsAddingBlocker(!isAddingBlocker)}
+                  className={cn(
+                    "h-7 w-7 hover:bg-neutral-100",
+                    isAddingBlocker ? "text-neutral-600" : "text-neutral-300 hover:text-neutral-600"
+                  )}
+                  aria-label="Edit blockers"
+                >
+                  <Link2 size={12} />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsCommentsOpen(!isCommentsOpen)}
+                className={cn(
+                  "h-7 hover:bg-neutral-100",
+                  taskComments.length > 0 ? "w-auto px-1.5 gap-0.5" : "w-7",
+                  isCommentsOpen ? "text-neutral-600" : "text-neutral-300 hover:text-neutral-600"
+                )}
+                aria-label="Show comments"
+              >
+                <MessageSquare size={12} />
+                {taskComments.length > 0 && <span className="text-[10px]">{taskComments.length}</span>}
+              </Button>
+              {(onAddAttachments || taskAttachments.length > 0) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsAttachmentsOpen(!isAttachmentsOpen)}
+                  className={cn(
+                    "h-7 hover:bg-neutral-100",
+                    taskAttachments.length > 0 ? "w-auto px-1.5 gap-0.5" : "w-7",
+                    isAttachmentsOpen ? "text-neutral-600" : "text-neutral-300 hover:text-neutral-600"
+                  )}
+                  aria-label="Show attachments"
+                >
+                  <Paperclip size={12} />
+                  {taskAttachments.length > 0 && <span className="text-[10px]">{taskAttachments.length}</span>}
+                </Button>
+              )}
+              {taskCommits.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsCommitsOpen(!isCommitsOpen)}
+                  className={cn(
+                    "h-7 w-auto px-1.5 gap-0.5 hover:bg-neutral-100",
+                    isCommitsOpen ? "text-neutral-600" : "text-neutral-300 hover:text-neutral-600"
+                  )}
+                  aria-label="Show commits"
+                >
+                  <GitCommit size={12} />
+                  <span className="text-[10px]">{taskCommits.length}</span>
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                className={cn(
+                  "h-7 w-7 hover:bg-neutral-100",
+                  isHistoryOpen ? "text-neutral-600" : "text-neutral-300 hover:text-neutral-600"
+                )}
+                aria-label="Show history"
+              >
+                <History size={12} />
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -296,6 +664,54 @@ export function TaskCard({ task, selected, buildDisabled, onSelect, onBuild, onS
               </Button>
             </div>
           </div>
+
+          {/* Blocked-by dependencies */}
+          {(blockers.length > 0 || isAddingBlocker) && (
+            <TaskBlockers
+              blockers={blockers}
+              candidates={blockerCandidates}
+              isAdding={isAddingBlocker && !!onAddDependency}
+              onAdd={(blockedById) => onAddDependency?.(task.id, blockedById)}
+              onRemove={(blockedById) => onRemoveDependency?.(task.id, blockedById)}
+            />
+          )}
+
+          {/* Acceptance criteria checklist */}
+          {isCriteriaOpen && (
+            <TaskCriteria
+              criteria={taskCriteria}
+              isReviewing={task.status === 'ready-for-signoff'}
+              onAdd={onAddCriterion && ((text) => onAddCriterion(task.id, text))}
+              onToggle={onToggleCriterion}
+              onDelete={onDeleteCriterion}
+            />
+          )}
+
+          {/* PM/agent comment thread */}
+          {isCommentsOpen && (
+            <TaskComments
+              comments={taskComments}
+              onAdd={onAddComment && ((body, kind) => onAddComment(task.id, body, kind))}
+            />
+          )}
+
+          {/* Screenshots, logs and other files */}
+          {isAttachmentsOpen && (
+            <TaskAttachments
+              attachments={taskAttachments}
+              onOpen={(name) => onOpenAttachment?.(task.id, name)}
+              onRemove={onRemoveAttachment && ((name) => onRemoveAttachment(task.id, name))}
+              onAdd={onAddAttachments && attachFiles}
+            />
+          )}
+
+          {/* Commits that implemented the task */}
+          {isCommitsOpen && taskCommits.length > 0 && (
+            <TaskCommits commits={taskCommits} onOpen={(sha) => onOpenCommit?.(sha)} />
+          )}
+
+          {/* Status/edit history */}
+          {isHistoryOpen && <TaskHistory taskId={task.id} updatedAt={task.updated_at} />}
         </div>
       )}
     </div>
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { TaskComment, CommentKind } from '../types';
+
+interface TaskCommentsProps {
+  comments: TaskComment[];
+  onAdd?: (body: string, kind: CommentKind) => void;
+}
+
+const kindLabels: Record<CommentKind, string> = {
+  'note': 'Note',
+  'rework': 'Rework',
+  'question': 'Question',
+  'signoff': 'Signoff'
+};
+
+const kindColors: Record<CommentKind, string> = {
+  'note': 'text-neutral-400',
+  'rework': 'text-danger',
+  'question': 'text-primary',
+  'signoff': 'text-success'
+};
+
+// Kinds the PM can pick when writing a comment (rework comes from the rework modal)
+const pmKinds: CommentKind[] = ['note', 'question'];
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function TaskComments({ comments, onAdd }: TaskCommentsProps) {
+  const [body, setBody] = useState('');
+  const [kind, setKind] = useState<CommentKind>('note');
+
+  const handleSubmit = () => {
+    if (!body.trim() || !onAdd) return;
+    onAdd(body.trim(), kind);
+    setBody('');
+    setKind('note');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Cmd/Ctrl+Enter to send
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="pl-6 pt-2 border-t border-neutral-100">
+      <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide block mb-1">Comments</span>
+      {comments.length === 0 ? (
+        <p className="text-[10px] text-neutral-400">No comments yet</p>
+      ) : (
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+          {comments.map(comment => (
+            <li key={comment.id} className={cn(
+              'pl-2 border-l-2',
+              comment.author === 'agent' ? 'border-primary/40' : 'border-neutral-200'
+            )}>
+              <div className="flex items-baseline gap-2 text-[10px]">
+                <span className={comment.author === 'agent' ? 'font-medium text-primary' : 'font-medium text-neutral-600'}>
+                  {comment.author === 'agent' ? 'Agent' : 'PM'}
+                </span>
+                {comment.kind !== 'note' && (
+                  <span className={cn('font-medium uppercase tracking-wide', kindColors[comment.kind])}>
+                    {kindLabels[comment.kind]}
+                  </span>
+                )}
+                <span className="text-neutral-400 ml-auto shrink-0">{formatTimestamp(comment.created_at)}</span>
+              </div>
+              <p className="text-xs leading-relaxed text-neutral-600 whitespace-pre-wrap break-words">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {onAdd && (
+        <div className="mt-2 flex items-end gap-1">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={2}
+            className="flex-1 min-w-0 text-xs text-neutral-600 bg-neutral-0 border border-neutral-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none"
+            placeholder="Add a comment..."
+          />
+          <div className="flex flex-col gap-1 shrink-0">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as CommentKind)}
+              className="text-[10px] text-neutral-600 bg-neutral-0 border border-neutral-300 rounded px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-primary"
+              aria-label="Comment kind"
+            >
+              {pmKinds.map(k => (
+                <option key={k} value={k}>{kindLabels[k]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleSubmit}
+              disabled={!body.trim()}
+              className="inline-flex items-center justify-center gap-1 text-[10px] font-medium rounded px-1 py-0.5 text-primary hover:bg-primary/10 disabled:text-neutral-300 disabled:hover:bg-transparent"
+            >
+              <Send size={10} />
+              Send
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { GitCommit, GitBranch } from 'lucide-react';
+import type { TaskCommit } from '../types';
+
+interface TaskCommitsProps {
+  commits: TaskCommit[];
+  onOpen: (sha: string) => void;
+}
+
+export function TaskCommits({ commits, onOpen }: TaskCommitsProps) {
+  return (
+    <div className="pl-6 pt-2 border-t border-neutral-100">
+      <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide block mb-1">Commits</span>
+      <ul className="space-y-1">
+        {commits.map(commit => (
+          <li key={commit.sha} className="flex items-center gap-1.5 min-w-0">
+            <GitCommit size={12} className="text-neutral-400 shrink-0" />
+            <button
+              onClick={() => onOpen(commit.sha)}
+              className="font-mono text-[10px] text-primary hover:underline shrink-0"
+              title="Show diff"
+            >
+              {commit.sha.slice(0, 7)}
+            </button>
+            <span
+              className="text-xs text-neutral-600 truncate"
+              title={`${commit.subject}\n${commit.author}, ${new Date(commit.committed_at).toLocaleString()}`}
+            >
+              {commit.subject}
+            </span>
+            {commit.branch && (
+              <span className="ml-auto inline-flex items-center gap-0.5 text-[10px] text-neutral-400 shrink-0 max-w-[40%]">
+                <GitBranch size={10} className="shrink-0" />
+                <span className="truncate">{commit.branch}</span>
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
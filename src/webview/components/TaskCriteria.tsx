@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { AcceptanceCriterion } from '../types';
+
+interface TaskCriteriaProps {
+  criteria: AcceptanceCriterion[];
+  // Highlights unticked items while the PM reviews the task
+  isReviewing?: boolean;
+  onAdd?: (text: string) => void;
+  onToggle?: (id: string, checked: boolean) => void;
+  onDelete?: (id: string) => void;
+}
+
+export function TaskCriteria({ criteria, isReviewing, onAdd, onToggle, onDelete }: TaskCriteriaProps) {
+  const [newText, setNewText] = useState('');
+
+  const checkedCount = criteria.filter(c => c.checked).length;
+  const uncheckedCount = criteria.length - checkedCount;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && newText.trim()) {
+      onAdd?.(newText.trim());
+      setNewText('');
+    }
+    if (e.key === 'Escape') {
+      setNewText('');
+    }
+  };
+
+  return (
+    <div className="pl-6 pt-2 border-t border-neutral-100">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide">Acceptance criteria</span>
+        {criteria.length > 0 && (
+          <span className={cn(
+            'text-[10px]',
+            uncheckedCount === 0 ? 'text-success' : isReviewing ? 'text-danger' : 'text-neutral-400'
+          )}>
+            {isReviewing && uncheckedCount > 0
+              ? `${uncheckedCount} not met`
+              : `${checkedCount}/${criteria.length}`}
+          </span>
+        )}
+      </div>
+      {criteria.length === 0 && !onAdd && (
+        <p className="text-[10px] text-neutral-400">No acceptance criteria</p>
+      )}
+      <ul className="space-y-1">
+        {criteria.map(criterion => (
+          <li key={criterion.id} className="group flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={criterion.checked}
+              onChange={(e) => onToggle?.(criterion.id, e.target.checked)}
+              disabled={!onToggle}
+              className="mt-0.5 h-3 w-3 rounded border-neutral-300 text-primary focus:ring-primary cursor-pointer shrink-0"
+              aria-label="Mark criterion as met"
+            />
+            <span className={cn(
+              'flex-1 min-w-0 text-xs leading-snug break-words',
+              criterion.checked
+                ? 'text-neutral-400 line-through'
+                : isReviewing ? 'text-danger' : 'text-neutral-600'
+            )}>
+              {criterion.text}
+            </span>
+            {onDelete && (
+              <button
+                onClick={() => onDelete(criterion.id)}
+                className="opacity-0 group-hover:opacity-100 text-neutral-300 hover:text-danger focus:opacity-100 focus:outline-none shrink-0"
+                aria-label="Remove criterion"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {onAdd && (
+        <input
+          type="text"
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="mt-1 w-full text-xs text-neutral-600 bg-transparent border-0 border-b border-transparent px-0 py-0.5 focus:outline-none focus:border-neutral-300 placeholder:text-neutral-400"
+          placeholder="Add criterion..."
+        />
+      )}
+    </div>
+  );
+}
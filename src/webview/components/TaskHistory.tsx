@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { vscode } from '../lib/vscode';
+import type { TaskEvent, TaskStatus } from '../types';
+
+interface TaskHistoryProps {
+  taskId: string;
+  // Changes whenever the task is modified so the history is refetched
+  updatedAt: string;
+}
+
+const statusLabels: Record<TaskStatus, string> = {
+  'todo': 'To Do',
+  'in-progress': 'In Progress',
+  'ready-for-signoff': 'Review',
+  'done': 'Done',
+  'rework': 'Rework'
+};
+
+const actorLabels: Record<TaskEvent['actor'], string> = {
+  'pm': 'PM',
+  'agent': 'Agent',
+  'system': 'System'
+};
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function describeEvent(event: TaskEvent): string {
+  switch (event.event) {
+    case 'created':
+      return 'Created';
+    case 'status_changed': {
+      const from = statusLabels[event.from_value as TaskStatus] || event.from_value;
+      const to = statusLabels[event.to_value as TaskStatus] || event.to_value;
+      return `${from} → ${to}`;
+    }
+    case 'moved':
+      return event.to_value ? 'Moved to another feature' : 'Moved out of feature';
+    case 'updated':
+      return `Edited ${Object.keys(event.changes || {}).join(', ')}`;
+    case 'deleted':
+      return 'Deleted';
+    case 'archived':
+      return 'Archived';
+    case 'restored':
+      return 'Restored from archive';
+  }
+}
+
+export function TaskHistory({ taskId, updatedAt }: TaskHistoryProps) {
+  const [events, setEvents] = useState<TaskEvent[] | null>(null);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'taskHistory' && message.taskId === taskId) {
+        setEvents(message.events);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    vscode.postMessage({ type: 'getTaskHistory', taskId });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, [taskId, updatedAt]);
+
+  const reworkCount = events?.filter(e => e.event === 'status_changed' && e.to_value === 'rework').length ?? 0;
+
+  return (
+    <div className="pl-6 pt-2 border-t border-neutral-100">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide">History</span>
+        {reworkCount > 0 && (
+          <span className="text-[10px] text-danger">
+            Reworked {reworkCount} {reworkCount === 1 ? 'time' : 'times'}
+          </span>
+        )}
+      </div>
+      {events === null ? (
+        <p className="text-[10px] text-neutral-400">Loading...</p>
+      ) : events.length === 0 ? (
+        <p className="text-[10px] text-neutral-400">No history recorded</p>
+      ) : (
+        <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+          {events.map(event => (
+            <li key={event.id} className="flex items-baseline gap-2 text-[10px]">
+              <span className="text-neutral-400 shrink-0">{formatTimestamp(event.created_at)}</span>
+              <span className="text-neutral-600 flex-1 min-w-0 truncate">{describeEvent(event)}</span>
+              <span className={event.actor === 'agent' ? 'text-primary shrink-0' : 'text-neutral-400 shrink-0'}>
+                {actorLabels[event.actor]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
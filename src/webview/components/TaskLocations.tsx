@@ -0,0 +1,43 @@
+import React from 'react';
+import { FileCode, X } from 'lucide-react';
+import type { TaskLocation } from '../types';
+
+interface TaskLocationsProps {
+  locations: TaskLocation[];
+  onOpen: (id: string) => void;
+  onRemove?: (id: string) => void;
+}
+
+function lineLabel(location: TaskLocation): string {
+  return location.start_line === location.end_line
+    ? `${location.start_line}`
+    : `${location.start_line}-${location.end_line}`;
+}
+
+export function TaskLocations({ locations, onOpen, onRemove }: TaskLocationsProps) {
+  return (
+    <ul className="flex flex-wrap gap-1 mt-1">
+      {locations.map(location => (
+        <li key={location.id} className="group inline-flex items-center gap-1 max-w-full text-[10px] bg-neutral-100 rounded px-1.5 py-0.5">
+          <FileCode size={10} className="text-neutral-400 shrink-0" />
+          <button
+            onClick={() => onOpen(location.id)}
+            className="font-mono text-neutral-600 hover:text-primary truncate text-left"
+            title={`Open ${location.path} at line ${location.start_line}`}
+          >
+            {location.path.split('/').pop()}:{lineLabel(location)}
+          </button>
+          {onRemove && (
+            <button
+              onClick={() => onRemove(location.id)}
+              className="text-neutral-300 hover:text-danger opacity-0 group-hover:opacity-100 focus:opacity-100 shrink-0"
+              aria-label={`Remove ${location.path}`}
+            >
+              <X size={10} />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
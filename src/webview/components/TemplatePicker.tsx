@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { X, LayoutTemplate, FolderKanban, ListTodo, Bug, Pencil, ChevronLeft } from 'lucide-react';
+import { Button } from './ui';
+import { vscode } from '../lib/vscode';
+import type { TaskTemplate, Feature } from '../types';
+
+interface TemplatePickerProps {
+  templates: TaskTemplate[];
+  // Active features a template without its own feature can add its tasks to
+  features: Feature[];
+  initialTemplateId?: string;
+  initialFeatureId?: string | null;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+function fill(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (match, key: string) => values[key]?.trim() || match);
+}
+
+export function TemplatePicker({ templates, features, initialTemplateId, initialFeatureId = null, onClose }: TemplatePickerProps) {
+  const [templateId, setTemplateId] = useState<string | null>(
+    templates.some(t => t.id === initialTemplateId) ? initialTemplateId! : null
+  );
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [featureId, setFeatureId] = useState<string | null>(initialFeatureId);
+
+  const template = templates.find(t => t.id === templateId) || null;
+  const missing = template ? template.placeholders.filter(p => !values[p]?.trim()) : [];
+
+  const handleCreate = () => {
+    if (!template || missing.length > 0) return;
+    vscode.postMessage({ type: 'createFromTemplate', templateId: template.id, values, featureId: template.feature ? null : featureId });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-neutral-900/60 flex items-center justify-center z-50 p-2">
+      <div className="bg-neutral-0 rounded-lg shadow-sm border border-neutral-200 w-full max-w-md max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-neutral-200">
+          <div className="flex items-center gap-1 min-w-0">
+            {template && initialTemplateId === undefined && (
+              <button
+                onClick={() => setTemplateId(null)}
+                className="p-1 rounded hover:bg-neutral-100 transition-fast"
+                aria-label="Back to templates"
+              >
+                <ChevronLeft size={16} className="text-neutral-500" />
+              </button>
+            )}
+            <h2 className="text-base font-semibold text-neutral-800 truncate">
+              {template ? template.name : 'New from template'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-neutral-100 transition-fast"
+          >
+            <X size={18} className="text-neutral-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {!template ? (
+            templates.length === 0 ? (
+              <p className="text-sm text-neutral-400 text-center py-6">
+                No templates yet. Add Markdown files to .shepherd/templates/.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {templates.map(t => (
+                  <li key={t.id} className="group flex items-start gap-2 border border-neutral-200 rounded-lg px-3 py-2 hover:border-primary/40">
+                    <button
+                      onClick={() => { setTemplateId(t.id); setValues({}); }}
+                      className="flex-1 min-w-0 flex items-start gap-2 text-left"
+                    >
+                      <LayoutTemplate size={14} className="text-neutral-400 shrink-0 mt-0.5" />
+                      <span className="min-w-0">
+                        <span className="block text-sm text-neutral-700 break-words">{t.name}</span>
+                        <span className="block text-[10px] text-neutral-400">
+                          {t.description || (t.feature ? 'Feature' : 'Tasks')}
+                          {` • ${t.tasks.length} task${t.tasks.length === 1 ? '' : 's'}`}
+                        </span>
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => vscode.postMessage({ type: 'openTemplate', templateId: t.id })}
+                      className="p-1 rounded text-neutral-300 hover:text-neutral-600 opacity-0 group-hover:opacity-100 focus:opacity-100 shrink-0"
+                      aria-label={`Edit ${t.name}`}
+                    >
+                      <Pencil size={12} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : (
+            <>
+              {template.description && (
+                <p className="text-xs text-neutral-500">{template.description}</p>
+              )}
+
+              {/* Placeholders */}
+              {template.placeholders.map((placeholder, index) => (
+                <div key={placeholder}>
+                  <label className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide mb-1 block">
+                    {placeholder}
+                  </label>
+                  <input
+                    type="text"
+                    value={values[placeholder] || ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [placeholder]: e.target.value }))}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                    autoFocus={index === 0}
+                    className="w-full text-sm text-neutral-800 bg-neutral-0 border border-neutral-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              ))}
+
+              {/* Target feature for templates that don't bring their own */}
+              {!template.feature && features.length > 0 && (
+                <div>
+                  <label className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide mb-1 block">
+                    Feature
+                  </label>
+                  <select
+                    value={featureId || ''}
+                    onChange={(e) => setFeatureId(e.target.value || null)}
+                    className="w-full text-sm text-neutral-700 bg-neutral-0 border border-neutral-300 rounded px-2 py-1.5 cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">Ungrouped</option>
+                    {features.map(f => (
+                      <option key={f.id} value={f.id}>{f.title}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="border-t border-neutral-100 pt-3">
+                <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wide block mb-1">Creates</span>
+                {template.feature && (
+                  <p className="flex items-center gap-1.5 text-xs font-medium text-neutral-700 mb-1">
+                    <FolderKanban size={12} className="text-neutral-400 shrink-0" />
+                    <span className="break-words">{fill(template.feature.title, values)}</span>
+                  </p>
+                )}
+                <ul className="space-y-1">
+                  {template.tasks.map((task, index) => (
+                    <li key={index} className={template.feature ? 'flex items-center gap-1.5 text-xs text-neutral-600 pl-4' : 'flex items-center gap-1.5 text-xs text-neutral-600'}>
+                      {task.type === 'bug'
+                        ? <Bug size={12} className="text-danger shrink-0" />
+                        : <ListTodo size={12} className="text-neutral-400 shrink-0" />}
+                      <span className="break-words">{fill(task.title, values)}</span>
+                      {task.acceptance_criteria.length > 0 && (
+                        <span className="text-[10px] text-neutral-400 shrink-0">
+                          {task.acceptance_criteria.length} criteria
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-2 p-4 border-t border-neutral-200">
+          <button
+            onClick={() => vscode.postMessage({ type: 'openTemplate' })}
+            className="text-xs text-neutral-500 hover:text-primary"
+          >
+            Manage templates
+          </button>
+          {template && (
+            <Button size="sm" onClick={handleCreate} disabled={missing.length > 0} className="h-8 px-3 text-xs">
+              Create
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
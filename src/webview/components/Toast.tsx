@@ -7,10 +7,12 @@ export interface ToastProps {
   message: string;
   type?: ToastType;
   duration?: number;
+  // Optional inline button, e.g. "Undo" after a destructive action
+  action?: { label: string; onClick: () => void };
   onClose: () => void;
 }
 
-export function Toast({ message, type = 'info', duration = 4000, onClose }: ToastProps) {
+export function Toast({ message, type = 'info', duration = 4000, action, onClose }: ToastProps) {
   const [isVisible, setIsVisible] = useState(true);
   const [isLeaving, setIsLeaving] = useState(false);
 
@@ -52,6 +54,14 @@ export function Toast({ message, type = 'info', duration = 4000, onClose }: Toas
     >
       {icons[type]}
       <span className="text-sm text-neutral-700">{message}</span>
+      {action && (
+        <button
+          onClick={action.onClick}
+          className="ml-1 text-sm font-medium text-primary hover:underline"
+        >
+          {action.label}
+        </button>
+      )}
       <button
         onClick={handleClose}
         className="ml-2 text-neutral-400 hover:text-neutral-600"
@@ -0,0 +1,63 @@
+import { MAX_ATTACHMENT_BYTES, type AttachmentUpload } from '../types';
+
+// Browsers name every pasted screenshot "image.png"
+const PASTED_IMAGE_NAME = /^image\.(png|jpe?g|gif|webp)$/i;
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Strip the "data:<type>;base64," prefix
+      const url = reader.result as string;
+      resolve(url.slice(url.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function uploadName(file: File): string {
+  const match = file.name.match(PASTED_IMAGE_NAME);
+  if (!file.name || match) {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+    return `screenshot-${stamp}.${match ? match[1] : 'png'}`;
+  }
+  return file.name;
+}
+
+/**
+ * Files from a drop or paste event, or an empty list if it carries none (e.g. plain text)
+ */
+export function filesFromTransfer(transfer: DataTransfer | null): File[] {
+  return transfer ? Array.from(transfer.files) : [];
+}
+
+/**
+ * True while something that carries files is dragged over an element
+ */
+export function isFileDrag(e: React.DragEvent): boolean {
+  return Array.from(e.dataTransfer.types).includes('Files');
+}
+
+/**
+ * Read files for sending to the extension. Files over the size limit are left out and named in `tooLarge`.
+ */
+export async function readAttachments(files: File[]): Promise<{ uploads: AttachmentUpload[]; tooLarge: string[] }> {
+  const accepted = files.filter(f => f.size <= MAX_ATTACHMENT_BYTES);
+  const tooLarge = files.filter(f => f.size > MAX_ATTACHMENT_BYTES).map(f => f.name);
+  const uploads = await Promise.all(accepted.map(async (file) => ({
+    name: uploadName(file),
+    data: await readAsBase64(file)
+  })));
+  return { uploads, tooLarge };
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function isImageName(name: string): boolean {
+  return /\.(png|jpe?g|gif|webp|bmp|svg)$/i.test(name);
+}
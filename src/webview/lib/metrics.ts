@@ -0,0 +1,25 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Compact duration: `45m`, `5h 20m`, `3d 4h`
+ */
+export function formatDuration(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return '–';
+  if (ms < HOUR) return `${Math.max(0, Math.round(ms / MINUTE))}m`;
+  if (ms < DAY) {
+    const minutes = Math.round((ms % HOUR) / MINUTE);
+    return minutes > 0 && minutes < 60 ? `${Math.floor(ms / HOUR)}h ${minutes}m` : `${Math.round(ms / HOUR)}h`;
+  }
+  const hours = Math.round((ms % DAY) / HOUR);
+  return hours > 0 && hours < 24 ? `${Math.floor(ms / DAY)}d ${hours}h` : `${Math.round(ms / DAY)}d`;
+}
+
+/**
+ * Time since an ISO timestamp
+ */
+export function elapsedSince(iso: string, now: number = Date.now()): number {
+  const at = Date.parse(iso);
+  return Number.isNaN(at) ? 0 : Math.max(0, now - at);
+}
@@ -1,7 +1,14 @@
 export type TaskStatus = 'todo' | 'in-progress' | 'ready-for-signoff' | 'done' | 'rework';
 export type TaskType = 'task' | 'bug';
+export type BugSeverity = 'critical' | 'high' | 'medium' | 'low';
 export type FeatureStatus = 'active' | 'done';
+export type MilestoneStatus = 'open' | 'released';
 export type ThoughtPartnerIntensity = 'minimal' | 'balanced' | 'deep-dive';
+export type TaskEventType = 'created' | 'updated' | 'status_changed' | 'moved' | 'deleted' | 'archived' | 'restored';
+export type ChangeActor = 'pm' | 'agent' | 'system';
+export type ChangeSource = 'webview' | 'bridge' | 'interview' | 'extension' | 'sync' | 'editor';
+export type CommentAuthor = 'pm' | 'agent';
+export type CommentKind = 'note' | 'rework' | 'question' | 'signoff';
 
 export interface Task {
   id: string;
@@ -10,9 +17,156 @@ export interface Task {
   title: string;
   description: string | null;
   status: TaskStatus;
-  priority: number;
+  rank: string;  // Place in the queue across features; compare as plain strings
   created_at: string;
   updated_at: string;
+  archived_at: string | null;
+  estimate: number | null;  // Story points; see ESTIMATE_SIZES
+  // Bug report fields, only filled in for bugs
+  severity: BugSeverity | null;
+  repro_steps: string | null;
+  expected_result: string | null;
+  actual_result: string | null;
+  environment: string | null;
+}
+
+export type BugFields = Pick<Task, 'severity' | 'repro_steps' | 'expected_result' | 'actual_result' | 'environment'>;
+
+// Most severe first
+export const BUG_SEVERITIES: { value: BugSeverity; label: string; className: string }[] = [
+  { value: 'critical', label: 'Critical', className: 'text-neutral-0 bg-danger' },
+  { value: 'high', label: 'High', className: 'text-danger bg-danger/10' },
+  { value: 'medium', label: 'Medium', className: 'text-warning bg-warning/10' },
+  { value: 'low', label: 'Low', className: 'text-neutral-500 bg-neutral-100' },
+];
+
+// Story-point estimates and the t-shirt sizes they are shown as
+export const ESTIMATE_SIZES: { points: number; label: string }[] = [
+  { points: 1, label: 'XS' },
+  { points: 2, label: 'S' },
+  { points: 3, label: 'M' },
+  { points: 5, label: 'L' },
+  { points: 8, label: 'XL' },
+];
+
+export interface Velocity {
+  weeks: { week_start: string; points: number; tasks: number }[];  // Oldest first; last is the current week
+  average: number;  // Points per finished week
+}
+
+// Time-in-status metrics from task history; durations in milliseconds
+export interface TaskFlowMetrics {
+  task_id: string;
+  feature_id: string | null;
+  status_since: string;
+  time_in_status: Partial<Record<TaskStatus, number>>;
+  lead_time: number | null;    // Created to done
+  cycle_time: number | null;   // First in-progress to done
+  review_wait: number;         // Total time in ready-for-signoff
+  stale: boolean;
+}
+
+export interface FlowSummary {
+  tasks: number;
+  done: number;
+  avg_lead_time: number | null;
+  avg_cycle_time: number | null;
+  avg_review_wait: number | null;
+  stale: number;
+}
+
+export interface FlowMetrics {
+  tasks: TaskFlowMetrics[];
+  features: (FlowSummary & { feature_id: string | null })[];
+  overall: FlowSummary;
+  stale_after_hours: number;
+}
+
+export interface TaskEvent {
+  id: string;
+  task_id: string;
+  event: TaskEventType;
+  from_value: string | null;
+  to_value: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  actor: ChangeActor;
+  source: ChangeSource;
+  created_at: string;
+}
+
+export interface TaskDependency {
+  task_id: string;         // The task that is blocked
+  blocked_by_id: string;   // The task that must land first
+  created_at: string;
+}
+
+export interface AcceptanceCriterion {
+  id: string;
+  task_id: string;
+  text: string;
+  checked: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  author: CommentAuthor;
+  kind: CommentKind;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A git commit linked to a task after a build
+export interface TaskCommit {
+  task_id: string;
+  sha: string;
+  subject: string;
+  author: string;
+  branch: string | null;
+  committed_at: string;
+  created_at: string;
+}
+
+// Lines in a workspace file a task is about
+export interface TaskLocation {
+  id: string;
+  task_id: string;
+  path: string;        // Relative to the workspace folder
+  start_line: number;  // 1-based, inclusive
+  end_line: number;
+  created_at: string;
+}
+
+// A file kept with a task in .shepherd/attachments/<taskId>/
+export interface TaskAttachment {
+  task_id: string;
+  name: string;
+  path: string;
+  size: number;
+  created_at: string;
+}
+
+// A file picked, dropped or pasted in the webview, on its way to the extension
+export interface AttachmentUpload {
+  name: string;
+  data: string;  // Base64
+}
+
+// Keep in sync with MAX_ATTACHMENT_BYTES in src/tasks/attachments.ts
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// A template from .shepherd/templates/*.md (see src/tasks/templates.ts)
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description: string;
+  placeholders: string[];
+  feature: { title: string; description: string } | null;
+  tasks: { title: string; description: string; type: TaskType; acceptance_criteria: string[] }[];
 }
 
 export interface Feature {
@@ -21,7 +175,18 @@ export interface Feature {
   description: string | null;
   requirement_path: string | null;
   status: FeatureStatus;
-  priority: number;
+  rank: string;
+  created_at: string;
+  updated_at: string;
+  milestone_id: string | null;
+}
+
+export interface Milestone {
+  id: string;
+  title: string;
+  description: string | null;
+  target_date: string | null;  // YYYY-MM-DD
+  status: MilestoneStatus;
   created_at: string;
   updated_at: string;
 }
@@ -40,6 +205,22 @@ export interface Requirement {
   title: string;
 }
 
+// Matched terms in search result titles and snippets are wrapped in these markers
+export const SEARCH_MATCH_START = '\u0002';
+export const SEARCH_MATCH_END = '\u0003';
+
+export type SearchResultKind = 'task' | 'feature' | 'requirement';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;  // Task or feature id, or the doc path for requirements
+  title: string;
+  snippet: string;
+  status: string | null;
+  feature_id: string | null;
+  archived: boolean;
+}
+
 // Interview types
 export interface InterviewQuestion {
   id: string;
@@ -57,6 +238,8 @@ export interface InterviewProposal {
     description: string;
     featureIndex?: number;        // Index into NEW features array (from this proposal)
     existingFeatureId?: string;   // ID of existing feature to add task to
+    acceptanceCriteria?: string[];  // Checklist items for the task
+    estimate?: number;              // Suggested story points (1, 2, 3, 5 or 8)
   }[];
   proposedDesignMd?: string;  // Complete proposed design.md content (replaces existing)
 }
@@ -66,19 +249,52 @@ export interface InterviewMessage {
   content: string;
 }
 
+// A past or unfinished interview, as listed in the interview history
+export interface InterviewSessionSummary {
+  id: string;
+  scope: 'project' | 'new-feature' | 'task';
+  status: 'drafting' | 'clarifying' | 'proposed' | 'complete' | 'cancelled';
+  title: string | null;       // First line of what the PM asked for
+  message_count: number;      // Messages and answers the PM sent
+  proposal: string | null;    // Summary of the proposal waiting on review
+  rejected_proposals: { summary: string; feedback: string; rejected_at: string }[];
+  created_at: string;
+  updated_at: string;
+}
+
 // Extension info
 export interface ExtensionInfo {
   version: string;
   name: string;
 }
 
+// An initialized folder of the workspace (more than one in multi-root workspaces)
+export interface WorkspaceFolderInfo {
+  root: string;
+  name: string;
+}
+
 // Messages from extension to webview
 export type ExtensionMessage =
-  | { type: 'initialized'; project: Project | null; features: Feature[]; tasks: Task[]; requirements: Requirement[]; extensionInfo: ExtensionInfo }
+  | { type: 'initialized'; project: Project | null; features: Feature[]; milestones: Milestone[]; tasks: Task[]; dependencies: TaskDependency[]; criteria: AcceptanceCriterion[]; comments: TaskComment[]; commits: TaskCommit[]; locations: TaskLocation[]; attachments: TaskAttachment[]; requirements: Requirement[]; extensionInfo: ExtensionInfo }
   | { type: 'projectUpdated'; project: Project }
   | { type: 'featuresUpdated'; features: Feature[] }
+  | { type: 'milestonesUpdated'; milestones: Milestone[] }
   | { type: 'tasksUpdated'; tasks: Task[] }
+  | { type: 'dependenciesUpdated'; dependencies: TaskDependency[] }
+  | { type: 'criteriaUpdated'; criteria: AcceptanceCriterion[] }
+  | { type: 'commentsUpdated'; comments: TaskComment[] }
+  | { type: 'attachmentsUpdated'; attachments: TaskAttachment[] }
+  | { type: 'commitsUpdated'; commits: TaskCommit[] }
+  | { type: 'locationsUpdated'; locations: TaskLocation[] }
+  | { type: 'templatesUpdated'; templates: TaskTemplate[] }
   | { type: 'requirementsUpdated'; requirements: Requirement[] }
+  | { type: 'taskHistory'; taskId: string; events: TaskEvent[] }
+  | { type: 'archivedTasks'; tasks: Task[] }
+  | { type: 'searchResults'; query: string; results: SearchResult[] }
+  | { type: 'velocityUpdated'; velocity: Velocity }
+  | { type: 'metricsUpdated'; metrics: FlowMetrics }
+  | { type: 'foldersUpdated'; folders: WorkspaceFolderInfo[]; current: string }
   | { type: 'recordingStarted' }
   | { type: 'recordingStopped' }
   | { type: 'voiceTranscribed'; tasks: { title: string; description: string }[] }
@@ -87,7 +303,8 @@ export type ExtensionMessage =
   | { type: 'buildEnded' }
   | { type: 'settingsLoaded'; parserModel: string; taskDeliveryMode: string }
   // Interview messages
-  | { type: 'interviewStarted'; sessionId: string; scope: string }
+  | { type: 'interviewStarted'; sessionId: string; scope: string; reopened?: boolean }
+  | { type: 'interviewSessions'; sessions: InterviewSessionSummary[] }
   | { type: 'interviewMessage'; message: InterviewMessage }
   | { type: 'interviewQuestion'; question: InterviewQuestion }
   | { type: 'interviewThinking' }
@@ -95,7 +312,7 @@ export type ExtensionMessage =
   | { type: 'interviewComplete'; requirementPath: string }
   | { type: 'interviewError'; error: string }
   | { type: 'interviewCancelled' }
-  | { type: 'showToast'; message: string; toastType?: 'success' | 'error' | 'info' };
+  | { type: 'showToast'; message: string; toastType?: 'success' | 'error' | 'info'; action?: 'undo' | 'redo' };
 
 // Messages from webview to extension
 export type WebviewMessage =
@@ -108,19 +325,47 @@ export type WebviewMessage =
   | { type: 'deleteFeature'; id: string }
   | { type: 'reorderFeatures'; featureIds: string[] }
   | { type: 'markFeatureDone'; id: string }
+  // Milestones
+  | { type: 'addMilestone'; title: string; targetDate?: string }
+  | { type: 'updateMilestone'; id: string; updates: Partial<Milestone> }
+  | { type: 'deleteMilestone'; id: string }
   // Tasks
-  | { type: 'addTask'; title: string; description?: string; featureId?: string; taskType?: TaskType }
+  | { type: 'addTask'; title: string; description?: string; featureId?: string; taskType?: TaskType; bug?: BugFields; attachments?: AttachmentUpload[] }
   | { type: 'updateTask'; id: string; updates: Partial<Task> }
   | { type: 'deleteTask'; id: string }
   | { type: 'reorderTasks'; taskIds: string[] }
   | { type: 'moveTask'; taskId: string; featureId: string | null }
+  | { type: 'getTaskHistory'; taskId: string }
+  | { type: 'addDependency'; taskId: string; blockedById: string }
+  | { type: 'removeDependency'; taskId: string; blockedById: string }
+  | { type: 'addCriterion'; taskId: string; text: string }
+  | { type: 'updateCriterion'; id: string; updates: { text?: string; checked?: boolean } }
+  | { type: 'deleteCriterion'; id: string }
+  | { type: 'addComment'; taskId: string; body: string; kind?: CommentKind }
+  | { type: 'requestRework'; taskId: string; feedback: string }
+  | { type: 'addAttachments'; taskId: string; files: AttachmentUpload[] }
+  | { type: 'removeAttachment'; taskId: string; name: string }
+  | { type: 'openAttachment'; taskId: string; name: string }
+  | { type: 'openCommit'; sha: string }
+  | { type: 'openLocation'; id: string }
+  | { type: 'removeLocation'; id: string }
+  | { type: 'createFromTemplate'; templateId: string; values: Record<string, string>; featureId?: string | null }
+  | { type: 'openTemplate'; templateId?: string }
   | { type: 'archiveDone' }
+  | { type: 'getArchivedTasks' }
+  | { type: 'restoreTask'; id: string }
+  | { type: 'search'; query: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'switchFolder'; root: string }
   // Requirements / Interview
   | { type: 'startInterview'; scope: 'project' | 'new-feature' | 'task'; initialInput?: string; intensity?: ThoughtPartnerIntensity }
   | { type: 'answerQuestion'; questionId: string; answer: string }
   | { type: 'approveProposal'; editedRequirementDoc?: string; editedDesignChanges?: string; removedFeatureIndices?: number[]; removedTaskIndices?: number[] }
   | { type: 'rejectProposal'; feedback: string }
   | { type: 'cancelInterview' }
+  | { type: 'getInterviewSessions' }
+  | { type: 'resumeInterview'; sessionId: string; rejectedIndex?: number }
   | { type: 'openRequirement'; path: string }
   | { type: 'deleteRequirement'; path: string }
   // Voice & Build
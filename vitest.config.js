@@ -6,7 +6,7 @@ exports.default = (0, config_1.defineConfig)({
         globals: true,
         environment: 'node',
         include: ['src/**/*.test.ts'],
-        exclude: ['src/webview/**'], // Exclude React components (need jsdom)
+        exclude: ['src/webview/components/**'], // Exclude React components (need jsdom)
         testTimeout: 60000, // Claude CLI tests need longer timeout
     },
 });
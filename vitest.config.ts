@@ -5,7 +5,7 @@ export default defineConfig({
         globals: true,
         environment: 'node',
         include: ['src/**/*.test.ts'],
-        exclude: ['src/webview/**'],  // Exclude React components (need jsdom)
+        exclude: ['src/webview/components/**'],  // Exclude React components (need jsdom)
         testTimeout: 60000,  // Claude CLI tests need longer timeout
     },
 });